@@ -0,0 +1,302 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { endOfDay, format, startOfDay, subDays } from "date-fns";
+import { AlertCircle, CheckCheck, Clock, MessageSquare, Send, XCircle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { StatsCardSkeleton, UsageChartSkeleton } from "@/components/ui/skeletons";
+import { BarChart, ChartCard, HeatmapChart, StackedBarChart } from "@/components/analytics-charts";
+import { useDevices, useMessages } from "@/lib/api/hooks";
+import {
+  formatDuration,
+  formatPercent,
+  getDeliveryStats,
+  getHourlyActivity,
+  getResponseTimeDistribution,
+  getResponseTimes,
+  getVolumeSeries,
+  inRange,
+  MESSAGE_STATUSES,
+  summarizeResponseTimes,
+  type DateRange,
+  type VolumeSplit,
+} from "@/lib/analytics";
+import type { MessageStatus } from "@/lib/api/types";
+
+// Analytics are computed from at most this many of the latest messages in the range
+const ANALYTICS_SAMPLE_SIZE = 1000;
+
+const RANGE_PRESETS = {
+  today: { label: "Today", days: 1 },
+  "7d": { label: "Last 7 days", days: 7 },
+  "30d": { label: "Last 30 days", days: 30 },
+  "90d": { label: "Last 90 days", days: 90 },
+};
+
+type RangePreset = keyof typeof RANGE_PRESETS | "custom";
+
+const STATUS_COLORS: Record<MessageStatus, string> = {
+  pending: "#9ca3af",
+  sent: "#2563eb",
+  delivered: "#16a34a",
+  read: "#0891b2",
+  failed: "#dc2626",
+};
+
+const SPLIT_LABELS: Record<VolumeSplit, string> = {
+  direction: "Direction",
+  type: "Message type",
+  device: "Device",
+};
+
+const toDateInput = (date: Date) => format(date, "yyyy-MM-dd");
+
+export default function AnalyticsPage() {
+  const [preset, setPreset] = useState<RangePreset>("7d");
+  const [customFrom, setCustomFrom] = useState(() => toDateInput(subDays(new Date(), 13)));
+  const [customTo, setCustomTo] = useState(() => toDateInput(new Date()));
+  const [split, setSplit] = useState<VolumeSplit>("direction");
+
+  // Whole days only, so the query key stays stable between renders
+  const range = useMemo<DateRange>(() => {
+    if (preset === "custom") {
+      const from = startOfDay(new Date(`${customFrom}T00:00`));
+      const to = endOfDay(new Date(`${customTo}T00:00`));
+      return from <= to ? { from, to } : { from: startOfDay(to), to: endOfDay(from) };
+    }
+    const today = new Date();
+    return { from: startOfDay(subDays(today, RANGE_PRESETS[preset].days - 1)), to: endOfDay(today) };
+  }, [preset, customFrom, customTo]);
+
+  const { data: messagesData, isLoading } = useMessages({
+    page: 1,
+    limit: ANALYTICS_SAMPLE_SIZE,
+    from: range.from.toISOString(),
+    to: range.to.toISOString(),
+  });
+  const { data: devicesData } = useDevices(1, 50);
+
+  const messages = useMemo(
+    () => (messagesData?.data?.messages || []).filter((message) => inRange(message, range)),
+    [messagesData, range],
+  );
+  const totalMessages = messagesData?.meta?.pagination?.total ?? messages.length;
+  const isSampled = totalMessages > messages.length;
+
+  const deviceNames = Object.fromEntries((devicesData?.data?.devices || []).map((device) => [device.id, device.name]));
+
+  const volume = useMemo(() => getVolumeSeries(messages, range, split), [messages, range, split]);
+  const delivery = useMemo(() => getDeliveryStats(messages), [messages]);
+  const responseTimes = useMemo(() => getResponseTimes(messages), [messages]);
+  const responseSummary = summarizeResponseTimes(responseTimes);
+  const responseDistribution = getResponseTimeDistribution(responseTimes);
+  const hourlyActivity = useMemo(() => getHourlyActivity(messages), [messages]);
+
+  const formatBucket = (start: number) => format(start, volume.hourly ? "HH:mm" : "MMM dd");
+  const fileSuffix = `${toDateInput(range.from)}_${toDateInput(range.to)}`;
+  const seriesLabel = (key: string) => (split === "device" ? deviceNames[key] || key : key);
+
+  const stats = [
+    {
+      title: "Messages",
+      value: totalMessages.toLocaleString(),
+      description: `${messages.filter((m) => m.direction === "inbound").length} received, ${delivery.total} sent`,
+      icon: MessageSquare,
+      color: "text-blue-600",
+    },
+    {
+      title: "Delivery Rate",
+      value: formatPercent(delivery.deliveredRate),
+      description: "Of sent messages",
+      icon: Send,
+      color: "text-green-600",
+    },
+    {
+      title: "Read Rate",
+      value: formatPercent(delivery.readRate),
+      description: "Of sent messages",
+      icon: CheckCheck,
+      color: "text-cyan-600",
+    },
+    {
+      title: "Failure Rate",
+      value: formatPercent(delivery.failedRate),
+      description: `${delivery.counts.failed} failed`,
+      icon: XCircle,
+      color: "text-red-600",
+    },
+    {
+      title: "Median Response",
+      value: formatDuration(responseSummary.median),
+      description: `${responseSummary.count} replies`,
+      icon: Clock,
+      color: "text-orange-600",
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Analytics</h1>
+          <p className="text-muted-foreground">Message volume, delivery and response times</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {preset === "custom" && (
+            <>
+              <Input
+                type="date"
+                value={customFrom}
+                max={customTo}
+                onChange={(e) => e.target.value && setCustomFrom(e.target.value)}
+                className="w-40"
+                aria-label="From"
+              />
+              <span className="text-sm text-muted-foreground">to</span>
+              <Input
+                type="date"
+                value={customTo}
+                min={customFrom}
+                onChange={(e) => e.target.value && setCustomTo(e.target.value)}
+                className="w-40"
+                aria-label="To"
+              />
+            </>
+          )}
+          <Select value={preset} onValueChange={(value) => setPreset(value as RangePreset)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(RANGE_PRESETS).map(([value, { label }]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+              <SelectItem value="custom">Custom range</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {isSampled && (
+        <div className="flex items-center gap-2 rounded-md border border-blue-200 bg-blue-50 p-3 text-sm text-blue-800">
+          <AlertCircle className="h-4 w-4 shrink-0" />
+          Showing analytics for the latest {messages.length.toLocaleString()} of {totalMessages.toLocaleString()}{" "}
+          messages in this range. Narrow the range for complete figures.
+        </div>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5">
+        {isLoading
+          ? Array.from({ length: 5 }).map((_, i) => <StatsCardSkeleton key={i} />)
+          : stats.map((stat) => (
+              <Card key={stat.title}>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                  <CardTitle className="text-sm font-medium">{stat.title}</CardTitle>
+                  <stat.icon className={`h-4 w-4 ${stat.color}`} />
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{stat.value}</div>
+                  <p className="text-xs text-muted-foreground">{stat.description}</p>
+                </CardContent>
+              </Card>
+            ))}
+      </div>
+
+      {isLoading ? (
+        <UsageChartSkeleton />
+      ) : (
+        <>
+          <ChartCard
+            title="Message Volume"
+            description={`Messages per ${volume.hourly ? "hour" : "day"} by ${SPLIT_LABELS[split].toLowerCase()}`}
+            filename={`message-volume-${split}-${fileSuffix}`}
+            getCsvRows={() => [
+              ["Period", ...volume.keys.map(seriesLabel), "Total"],
+              ...volume.buckets.map((bucket) => [
+                format(bucket.start, volume.hourly ? "yyyy-MM-dd HH:mm" : "yyyy-MM-dd"),
+                ...volume.keys.map((key) => bucket.counts[key] || 0),
+                volume.keys.reduce((sum, key) => sum + (bucket.counts[key] || 0), 0),
+              ]),
+            ]}
+            actions={
+              <Select value={split} onValueChange={(value) => setSplit(value as VolumeSplit)}>
+                <SelectTrigger className="h-8 w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SPLIT_LABELS) as VolumeSplit[]).map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {SPLIT_LABELS[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            }
+          >
+            <StackedBarChart
+              buckets={volume.buckets}
+              keys={volume.keys}
+              labels={Object.fromEntries(volume.keys.map((key) => [key, seriesLabel(key)]))}
+              formatBucket={formatBucket}
+            />
+          </ChartCard>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            <ChartCard
+              title="Delivery Status"
+              description={`${delivery.total} sent messages by latest status`}
+              filename={`delivery-status-${fileSuffix}`}
+              getCsvRows={() => [
+                ["Status", "Messages", "Share"],
+                ...MESSAGE_STATUSES.map((status) => [
+                  status,
+                  delivery.counts[status],
+                  formatPercent(delivery.total ? (delivery.counts[status] / delivery.total) * 100 : 0),
+                ]),
+              ]}
+            >
+              <BarChart
+                data={MESSAGE_STATUSES.map((status) => ({
+                  label: status,
+                  value: delivery.counts[status],
+                  color: STATUS_COLORS[status],
+                }))}
+              />
+            </ChartCard>
+
+            <ChartCard
+              title="Response Time"
+              description={`Median ${formatDuration(responseSummary.median)}, average ${formatDuration(responseSummary.average)}, 90th percentile ${formatDuration(responseSummary.p90)}`}
+              filename={`response-time-${fileSuffix}`}
+              getCsvRows={() => [
+                ["Response time", "Replies"],
+                ...responseDistribution.map((bucket) => [bucket.label, bucket.value]),
+              ]}
+            >
+              <BarChart data={responseDistribution} />
+            </ChartCard>
+          </div>
+
+          <ChartCard
+            title="Busiest Hours"
+            description="Messages by day of week and hour, in your local time"
+            filename={`busiest-hours-${fileSuffix}`}
+            getCsvRows={() => [
+              ["Day", ...Array.from({ length: 24 }, (_, hour) => `${String(hour).padStart(2, "0")}:00`)],
+              ...hourlyActivity.map((hours, day) => [
+                ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"][day],
+                ...hours,
+              ]),
+            ]}
+          >
+            <HeatmapChart grid={hourlyActivity} />
+          </ChartCard>
+        </>
+      )}
+    </div>
+  );
+}
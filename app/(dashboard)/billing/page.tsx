@@ -3,6 +3,7 @@
 import { useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -17,6 +18,7 @@ import {
   DollarSign,
   TrendingUp,
   FileText,
+  Loader2,
 } from "lucide-react";
 import {
   useCurrentSubscription,
@@ -24,41 +26,48 @@ import {
   usePlans,
   useCreateSubscription,
   useCancelSubscription,
-  useUpdatePaymentMethod,
+  useRetrySubscriptionPayment,
+  usePaymentMethods,
+  useSetDefaultPaymentMethod,
+  useDeletePaymentMethod,
   useBillingHistory,
+  getErrorMessage,
 } from "@/lib/api/hooks";
-import { useForm } from "react-hook-form";
-import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
-import { Input } from "@/components/ui/input";
 import { toast } from "sonner";
 import { format } from "date-fns";
 import { StatsCardSkeleton, UsageChartSkeleton } from "@/components/ui/skeletons";
+import { PaymentMethodForm } from "@/components/payment-method-form";
+import { getStripe } from "@/lib/stripe";
+import { usePermission } from "@/lib/hooks/permissions";
+import type { PaymentMethod, SubscriptionStatus } from "@/lib/api/types";
 
-// Form schemas
-const paymentMethodSchema = z.object({
-  cardNumber: z.string().min(1, "Card number is required"),
-  expiryMonth: z.string().min(1, "Expiry month is required"),
-  expiryYear: z.string().min(1, "Expiry year is required"),
-  cvc: z.string().min(3, "CVC is required"),
-  name: z.string().min(1, "Cardholder name is required"),
-});
-
-type PaymentMethodData = z.infer<typeof paymentMethodSchema>;
+// Statuses where the plan is in effect, anything else still waits on a payment
+const ACTIVE_SUBSCRIPTION_STATUSES: SubscriptionStatus[] = ["active", "trialing"];
 
 export default function BillingPage() {
+  const [activeTab, setActiveTab] = useState("subscription");
   const [showPaymentForm, setShowPaymentForm] = useState(false);
+  const [paymentMethodToRemove, setPaymentMethodToRemove] = useState<PaymentMethod | null>(null);
+  // Admins can see billing, only the owner can change it
+  const canManageBilling = usePermission("billing:manage");
 
   // API Queries
-  const { data: subscriptionData, isLoading: subscriptionLoading } = useCurrentSubscription();
+  const {
+    data: subscriptionData,
+    isLoading: subscriptionLoading,
+    refetch: refetchSubscription,
+  } = useCurrentSubscription();
   const { data: usageData, isLoading: usageLoading } = useCurrentUsage();
   const { data: plansData, isLoading: plansLoading } = usePlans();
   const { data: billingHistoryData, isLoading: billingHistoryLoading } = useBillingHistory();
+  const { data: paymentMethodsData, isLoading: paymentMethodsLoading } = usePaymentMethods();
 
   // Mutations
   const createSubscriptionMutation = useCreateSubscription();
   const cancelSubscriptionMutation = useCancelSubscription();
-  const updatePaymentMethodMutation = useUpdatePaymentMethod();
+  const retrySubscriptionPaymentMutation = useRetrySubscriptionPayment();
+  const setDefaultPaymentMethodMutation = useSetDefaultPaymentMethod();
+  const deletePaymentMethodMutation = useDeletePaymentMethod();
 
   const subscription = subscriptionData?.subscription;
   console.log("Current subscription:", subscription);
@@ -66,20 +75,69 @@ export default function BillingPage() {
   const usage = usageData; // Direct usage data
   const plans = plansData?.plans || [];
   const billingHistory = (billingHistoryData as { invoices: any[] })?.invoices || [];
+  const paymentMethods = paymentMethodsData?.data?.paymentMethods || [];
+  const defaultPaymentMethod = paymentMethods.find((method) => method.isDefault);
+  const requiresPaymentAction = subscription?.status === "incomplete" || subscription?.status === "past_due";
+
+  // Confirms the subscription's pending PaymentIntent, Stripe shows the 3DS challenge if the bank asks for one
+  const confirmSubscriptionPayment = async (clientSecret: string) => {
+    const stripe = await getStripe();
+    if (!stripe) {
+      throw new Error("Payment provider failed to load");
+    }
 
-  // Form
-  const paymentForm = useForm<PaymentMethodData>({
-    resolver: zodResolver(paymentMethodSchema),
-  });
+    const { error } = await stripe.confirmCardPayment(
+      clientSecret,
+      defaultPaymentMethod ? { payment_method: defaultPaymentMethod.id } : undefined,
+    );
+    if (error) {
+      throw new Error(error.message || "Payment confirmation failed");
+    }
+  };
 
   const handlePlanChange = async (planType: string) => {
+    if (!defaultPaymentMethod) {
+      toast.error("Add a payment method before selecting a plan");
+      openPaymentForm();
+      return;
+    }
+
     try {
-      await createSubscriptionMutation.mutateAsync({
+      const response = await createSubscriptionMutation.mutateAsync({
         planType: planType as "starter" | "professional" | "enterprise",
+        paymentMethodId: defaultPaymentMethod.id,
       });
+
+      const { status, clientSecret } = response.data ?? {};
+      if (clientSecret) {
+        // A confirmed first payment activates the subscription
+        await confirmSubscriptionPayment(clientSecret);
+        await refetchSubscription();
+      } else if (!status || !ACTIVE_SUBSCRIPTION_STATUSES.includes(status)) {
+        // Nothing to confirm here, the banner on the subscription tab offers to complete the payment
+        await refetchSubscription();
+        toast.warning("Plan change is waiting on payment", {
+          description: "Complete the payment to activate your new plan.",
+        });
+        return;
+      }
+
       toast.success("Plan updated successfully!");
-    } catch {
-      toast.error("Failed to update plan");
+    } catch (error) {
+      toast.error("Failed to update plan", { description: getErrorMessage(error) });
+    }
+  };
+
+  const handleCompletePayment = async () => {
+    try {
+      const response = await retrySubscriptionPaymentMutation.mutateAsync();
+      if (response.data?.clientSecret) {
+        await confirmSubscriptionPayment(response.data.clientSecret);
+      }
+      await refetchSubscription();
+      toast.success("Payment confirmed");
+    } catch (error) {
+      toast.error("Payment could not be completed", { description: getErrorMessage(error) });
     }
   };
 
@@ -92,20 +150,29 @@ export default function BillingPage() {
     }
   };
 
-  const handleUpdatePaymentMethod = async (data: PaymentMethodData) => {
+  const openPaymentForm = () => {
+    setActiveTab("payment");
+    setShowPaymentForm(true);
+  };
+
+  const handleSetDefaultPaymentMethod = async (id: string) => {
     try {
-      await updatePaymentMethodMutation.mutateAsync({
-        cardNumber: data.cardNumber,
-        expiryMonth: data.expiryMonth,
-        expiryYear: data.expiryYear,
-        cvc: data.cvc,
-        cardholderName: data.name,
-      });
-      toast.success("Payment method updated successfully!");
-      setShowPaymentForm(false);
-      paymentForm.reset();
-    } catch {
-      toast.error("Failed to update payment method");
+      await setDefaultPaymentMethodMutation.mutateAsync(id);
+      toast.success("Default payment method updated");
+    } catch (error) {
+      toast.error("Failed to update default payment method", { description: getErrorMessage(error) });
+    }
+  };
+
+  const handleDeletePaymentMethod = async () => {
+    if (!paymentMethodToRemove) return;
+
+    try {
+      await deletePaymentMethodMutation.mutateAsync(paymentMethodToRemove.id);
+      toast.success("Payment method removed");
+      setPaymentMethodToRemove(null);
+    } catch (error) {
+      toast.error("Failed to remove payment method", { description: getErrorMessage(error) });
     }
   };
 
@@ -160,7 +227,7 @@ export default function BillingPage() {
         <p className="text-muted-foreground">Manage your subscription, usage, and billing information.</p>
       </div>
 
-      <Tabs defaultValue="subscription" className="space-y-4">
+      <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
         <TabsList>
           <TabsTrigger value="subscription">Subscription</TabsTrigger>
           <TabsTrigger value="usage">Usage</TabsTrigger>
@@ -198,6 +265,33 @@ export default function BillingPage() {
                     </Badge>
                   </div>
 
+                  {requiresPaymentAction && canManageBilling && (
+                    <div className="flex items-center justify-between p-4 border border-orange-200 bg-orange-50 rounded-lg">
+                      <div className="flex items-center space-x-2">
+                        <AlertTriangle className="h-4 w-4 text-orange-500" />
+                        <span className="text-sm text-orange-800">
+                          Your last payment needs confirmation before the subscription becomes active.
+                        </span>
+                      </div>
+                      <Button
+                        size="sm"
+                        onClick={handleCompletePayment}
+                        disabled={retrySubscriptionPaymentMutation.isPending}
+                      >
+                        {retrySubscriptionPaymentMutation.isPending ? "Confirming..." : "Complete Payment"}
+                      </Button>
+                    </div>
+                  )}
+
+                  {subscription.status === "incomplete_expired" && (
+                    <div className="flex items-center space-x-2 p-4 border border-red-200 bg-red-50 rounded-lg">
+                      <AlertTriangle className="h-4 w-4 text-red-500" />
+                      <span className="text-sm text-red-800">
+                        The payment for this subscription was never completed. Please select a plan again.
+                      </span>
+                    </div>
+                  )}
+
                   <div className="grid grid-cols-3 gap-4 p-4 bg-muted rounded-lg">
                     <div className="text-center">
                       <p className="text-2xl font-bold">{plan?.messagesIncluded?.toLocaleString()}</p>
@@ -213,19 +307,21 @@ export default function BillingPage() {
                     </div>
                   </div>
 
-                  <div className="flex items-center space-x-2">
-                    <Button variant="outline" onClick={() => setShowPaymentForm(true)}>
-                      <CreditCard className="mr-2 h-4 w-4" />
-                      Update Payment Method
-                    </Button>
-                    <Button
-                      variant="destructive"
-                      onClick={handleCancelSubscription}
-                      disabled={cancelSubscriptionMutation.isPending}
-                    >
-                      {cancelSubscriptionMutation.isPending ? "Cancelling..." : "Cancel Subscription"}
-                    </Button>
-                  </div>
+                  {canManageBilling && (
+                    <div className="flex items-center space-x-2">
+                      <Button variant="outline" onClick={openPaymentForm}>
+                        <CreditCard className="mr-2 h-4 w-4" />
+                        Update Payment Method
+                      </Button>
+                      <Button
+                        variant="destructive"
+                        onClick={handleCancelSubscription}
+                        disabled={cancelSubscriptionMutation.isPending}
+                      >
+                        {cancelSubscriptionMutation.isPending ? "Cancelling..." : "Cancel Subscription"}
+                      </Button>
+                    </div>
+                  )}
                 </div>
               ) : (
                 <div className="text-center py-8">
@@ -296,7 +392,7 @@ export default function BillingPage() {
                               </div>
                             ))}
                         </div>
-                        {plan?.id !== planOption.id && (
+                        {plan?.id !== planOption.id && canManageBilling && (
                           <Button
                             className="w-full"
                             onClick={() => handlePlanChange(planOption.type)}
@@ -487,71 +583,105 @@ export default function BillingPage() {
             </CardHeader>
             <CardContent>
               {showPaymentForm ? (
-                <form onSubmit={paymentForm.handleSubmit(handleUpdatePaymentMethod)} className="space-y-4">
-                  <div className="grid grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <label className="text-sm font-medium">Card Number *</label>
-                      <Input {...paymentForm.register("cardNumber")} placeholder="1234 5678 9012 3456" />
-                      {paymentForm.formState.errors.cardNumber && (
-                        <p className="text-sm text-red-500">{paymentForm.formState.errors.cardNumber.message}</p>
-                      )}
-                    </div>
-                    <div className="space-y-2">
-                      <label className="text-sm font-medium">Cardholder Name *</label>
-                      <Input {...paymentForm.register("name")} placeholder="John Doe" />
-                      {paymentForm.formState.errors.name && (
-                        <p className="text-sm text-red-500">{paymentForm.formState.errors.name.message}</p>
-                      )}
-                    </div>
-                  </div>
-                  <div className="grid grid-cols-3 gap-4">
-                    <div className="space-y-2">
-                      <label className="text-sm font-medium">Expiry Month *</label>
-                      <Input {...paymentForm.register("expiryMonth")} placeholder="MM" maxLength={2} />
-                      {paymentForm.formState.errors.expiryMonth && (
-                        <p className="text-sm text-red-500">{paymentForm.formState.errors.expiryMonth.message}</p>
-                      )}
-                    </div>
-                    <div className="space-y-2">
-                      <label className="text-sm font-medium">Expiry Year *</label>
-                      <Input {...paymentForm.register("expiryYear")} placeholder="YY" maxLength={2} />
-                      {paymentForm.formState.errors.expiryYear && (
-                        <p className="text-sm text-red-500">{paymentForm.formState.errors.expiryYear.message}</p>
-                      )}
-                    </div>
-                    <div className="space-y-2">
-                      <label className="text-sm font-medium">CVC *</label>
-                      <Input {...paymentForm.register("cvc")} placeholder="123" maxLength={4} />
-                      {paymentForm.formState.errors.cvc && (
-                        <p className="text-sm text-red-500">{paymentForm.formState.errors.cvc.message}</p>
-                      )}
-                    </div>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <Button type="submit" disabled={updatePaymentMethodMutation.isPending}>
-                      {updatePaymentMethodMutation.isPending ? "Updating..." : "Update Payment Method"}
-                    </Button>
-                    <Button type="button" variant="outline" onClick={() => setShowPaymentForm(false)}>
-                      Cancel
-                    </Button>
-                  </div>
-                </form>
+                <PaymentMethodForm
+                  onSuccess={() => setShowPaymentForm(false)}
+                  onCancel={() => setShowPaymentForm(false)}
+                />
+              ) : paymentMethodsLoading ? (
+                <StatsCardSkeleton />
               ) : (
                 <div className="space-y-4">
-                  <div className="flex items-center space-x-3 p-4 border rounded-lg">
-                    <CreditCard className="h-8 w-8 text-muted-foreground" />
-                    <div>
-                      <p className="font-medium">**** **** **** 4242</p>
-                      <p className="text-sm text-muted-foreground">Expires 12/25</p>
+                  {paymentMethods.length === 0 ? (
+                    <div className="text-center py-8">
+                      <CreditCard className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                      <h3 className="text-lg font-medium">No payment methods</h3>
+                      <p className="text-muted-foreground">Add a card to subscribe to a plan.</p>
                     </div>
-                  </div>
-                  <Button onClick={() => setShowPaymentForm(true)}>Update Payment Method</Button>
+                  ) : (
+                    paymentMethods.map((method) => (
+                      <div key={method.id} className="flex items-center justify-between p-4 border rounded-lg">
+                        <div className="flex items-center space-x-3">
+                          <CreditCard className="h-8 w-8 text-muted-foreground" />
+                          <div>
+                            <div className="flex items-center space-x-2">
+                              <p className="font-medium capitalize">
+                                {method.brand} •••• {method.last4}
+                              </p>
+                              {method.isDefault && <Badge className="bg-green-100 text-green-800">Default</Badge>}
+                            </div>
+                            <p className="text-sm text-muted-foreground">
+                              Expires {String(method.expMonth).padStart(2, "0")}/{String(method.expYear).slice(-2)}
+                            </p>
+                          </div>
+                        </div>
+                        {!method.isDefault && canManageBilling && (
+                          <div className="flex items-center space-x-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleSetDefaultPaymentMethod(method.id)}
+                              disabled={setDefaultPaymentMethodMutation.isPending}
+                            >
+                              Make Default
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-red-600"
+                              onClick={() => setPaymentMethodToRemove(method)}
+                              disabled={deletePaymentMethodMutation.isPending}
+                            >
+                              Remove
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    ))
+                  )}
+                  {canManageBilling && (
+                    <Button onClick={() => setShowPaymentForm(true)}>
+                      <CreditCard className="mr-2 h-4 w-4" />
+                      Add Payment Method
+                    </Button>
+                  )}
                 </div>
               )}
             </CardContent>
           </Card>
         </TabsContent>
       </Tabs>
+
+      {/* Remove Payment Method Confirmation Modal */}
+      <Dialog open={!!paymentMethodToRemove} onOpenChange={(open) => !open && setPaymentMethodToRemove(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Remove Payment Method</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to remove the {paymentMethodToRemove?.brand} card ending in{" "}
+              {paymentMethodToRemove?.last4}? It can&apos;t be used for future payments.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setPaymentMethodToRemove(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDeletePaymentMethod}
+              disabled={deletePaymentMethodMutation.isPending}
+            >
+              {deletePaymentMethodMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Removing...
+                </>
+              ) : (
+                "Remove"
+              )}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -0,0 +1,256 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertCircle, Megaphone, Pause, Play, Plus, RotateCcw, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { useDevices, useMessageTemplates } from "@/lib/api/hooks";
+import { useCampaignStore, type Campaign, type CampaignStatus, type NewCampaign } from "@/lib/stores/campaigns";
+import { useAuthStore } from "@/lib/stores/auth";
+import { useUIStore } from "@/lib/stores/ui";
+import { useEmailVerified } from "@/lib/hooks/auth";
+import { CampaignForm } from "@/components/campaign-form";
+import { TemplateCardSkeleton } from "@/components/ui/skeletons";
+
+const MAX_LISTED_FAILURES = 10;
+
+const getStatusColor = (status: CampaignStatus) => {
+  switch (status) {
+    case "running":
+      return "bg-blue-100 text-blue-800";
+    case "completed":
+      return "bg-green-100 text-green-800";
+    default:
+      return "bg-gray-100 text-gray-800";
+  }
+};
+
+export default function CampaignsPage() {
+  const [showNewCampaign, setShowNewCampaign] = useState(false);
+  const { campaigns: allCampaigns, createCampaign, startCampaign } = useCampaignStore();
+  const organizationId = useAuthStore((state) => state.organizationId);
+  const { addNotification } = useUIStore();
+  const isEmailVerified = useEmailVerified();
+
+  const { data: devicesData, isLoading: devicesLoading } = useDevices(1, 50);
+  const { data: templatesData, isLoading: templatesLoading } = useMessageTemplates();
+
+  // Only the active organization's campaigns show, the others stay stored for when it's switched back
+  const campaigns = allCampaigns.filter((c) => c.organizationId === organizationId);
+  const devices = devicesData?.data?.devices?.filter((d) => d.status === "online") || [];
+  const templates = templatesData?.data?.templates || [];
+
+  // The store skips hydration so server and client render the same empty list first. Once hydrated the
+  // store is the source of truth, hydrating again on a later visit would overwrite the send loops' progress
+  useEffect(() => {
+    if (!useCampaignStore.persist.hasHydrated()) void useCampaignStore.persist.rehydrate();
+  }, []);
+
+  // Closing the tab stops the send loop, ask before leaving while a campaign is running
+  const isSending = campaigns.some((c) => c.status === "running");
+  useEffect(() => {
+    if (!isSending) return;
+
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => e.preventDefault();
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+  }, [isSending]);
+
+  const handleCreateCampaign = (campaign: NewCampaign) => {
+    const id = createCampaign(campaign);
+    setShowNewCampaign(false);
+    void startCampaign(id);
+
+    toast.success("Campaign started", {
+      description: `Sending to ${campaign.recipients.length} recipients`,
+    });
+    addNotification({
+      type: "success",
+      title: "Campaign Started",
+      message: `Campaign "${campaign.name}" is sending to ${campaign.recipients.length} recipients.`,
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Campaigns</h1>
+          <p className="text-muted-foreground">Send a template to a list of recipients from a CSV file</p>
+        </div>
+        <Button
+          onClick={() => setShowNewCampaign(true)}
+          disabled={!isEmailVerified}
+          title={isEmailVerified ? undefined : "Verify your email to send campaigns"}
+        >
+          <Plus className="h-4 w-4" />
+          New Campaign
+        </Button>
+      </div>
+
+      {isSending && (
+        <div className="flex items-center gap-2 rounded-md border border-blue-200 bg-blue-50 p-3 text-sm text-blue-800">
+          <AlertCircle className="h-4 w-4 shrink-0" />
+          Campaigns send from the browser tab they were started in. Keep it open until sending finishes, paused
+          campaigns can be resumed later.
+        </div>
+      )}
+
+      {campaigns.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <Megaphone className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-lg font-medium">No campaigns yet</h3>
+            <p className="text-muted-foreground mb-4">Upload a CSV of recipients to send your first campaign</p>
+            <Button
+              onClick={() => setShowNewCampaign(true)}
+              disabled={!isEmailVerified}
+              title={isEmailVerified ? undefined : "Verify your email to send campaigns"}
+            >
+              New Campaign
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {campaigns.map((campaign) => (
+            <CampaignCard key={campaign.id} campaign={campaign} />
+          ))}
+        </div>
+      )}
+
+      <Dialog open={showNewCampaign} onOpenChange={setShowNewCampaign}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>New Campaign</DialogTitle>
+            <DialogDescription>Map your CSV columns onto a template and choose how to send it</DialogDescription>
+          </DialogHeader>
+          {templatesLoading || devicesLoading ? (
+            <TemplateCardSkeleton />
+          ) : (
+            <CampaignForm
+              templates={templates}
+              devices={devices}
+              onSubmit={handleCreateCampaign}
+              onCancel={() => setShowNewCampaign(false)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+function CampaignCard({ campaign }: { campaign: Campaign }) {
+  const { startCampaign, pauseCampaign, retryFailed, deleteCampaign } = useCampaignStore();
+  const isEmailVerified = useEmailVerified();
+
+  const total = campaign.recipients.length;
+  const sent = campaign.recipients.filter((r) => r.status === "sent").length;
+  const failures = campaign.recipients.filter((r) => r.status === "failed");
+  const processed = sent + failures.length;
+
+  const handleDelete = () => {
+    if (campaign.status === "running") pauseCampaign(campaign.id);
+    deleteCampaign(campaign.id);
+    toast.success(`Campaign "${campaign.name}" deleted`);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              {campaign.name}
+              <Badge className={getStatusColor(campaign.status)}>{campaign.status}</Badge>
+            </CardTitle>
+            <CardDescription>
+              {campaign.templateName} · {campaign.deviceIds.length} device
+              {campaign.deviceIds.length === 1 ? "" : "s"} · {campaign.ratePerMinute}/min · created{" "}
+              {format(new Date(campaign.createdAt), "MMM dd, yyyy HH:mm")}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            {campaign.status === "running" ? (
+              <Button variant="outline" size="sm" onClick={() => pauseCampaign(campaign.id)}>
+                <Pause className="h-4 w-4" />
+                Pause
+              </Button>
+            ) : (
+              processed < total && (
+                <Button
+                  size="sm"
+                  onClick={() => void startCampaign(campaign.id)}
+                  disabled={!isEmailVerified}
+                  title={isEmailVerified ? undefined : "Verify your email to send campaigns"}
+                >
+                  <Play className="h-4 w-4" />
+                  {processed > 0 ? "Resume" : "Start"}
+                </Button>
+              )
+            )}
+            {failures.length > 0 && campaign.status !== "running" && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => retryFailed(campaign.id)}
+                disabled={!isEmailVerified}
+                title={isEmailVerified ? undefined : "Verify your email to send campaigns"}
+              >
+                <RotateCcw className="h-4 w-4" />
+                Retry Failed
+              </Button>
+            )}
+            <Button variant="ghost" size="sm" className="text-red-600" onClick={handleDelete}>
+              <Trash2 className="h-4 w-4" />
+              <span className="sr-only">Delete campaign</span>
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Progress value={total ? (processed / total) * 100 : 0} />
+        <div className="flex items-center gap-4 text-sm">
+          <span>
+            {processed} / {total} processed
+          </span>
+          <span className="text-green-600">{sent} sent</span>
+          <span className="text-red-600">{failures.length} failed</span>
+          <span className="text-muted-foreground">{total - processed} pending</span>
+        </div>
+
+        {campaign.lastError && (
+          <div className="flex items-center gap-2 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+            <AlertCircle className="h-4 w-4 shrink-0" />
+            Paused: {campaign.lastError}
+          </div>
+        )}
+
+        {failures.length > 0 && (
+          <div className="rounded-md border">
+            {failures.slice(0, MAX_LISTED_FAILURES).map((recipient) => (
+              <div
+                key={recipient.id}
+                className="flex items-center justify-between border-b px-3 py-2 text-sm last:border-b-0"
+              >
+                <span className="font-medium">{recipient.phone}</span>
+                <span className="text-red-600">{recipient.error}</span>
+              </div>
+            ))}
+            {failures.length > MAX_LISTED_FAILURES && (
+              <div className="px-3 py-2 text-sm text-muted-foreground">
+                and {failures.length - MAX_LISTED_FAILURES} more
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
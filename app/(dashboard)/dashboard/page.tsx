@@ -19,6 +19,8 @@ import {
 import { useDevices, useCurrentSubscription, useCurrentUsage, useWorkerStats, useHealth } from "@/lib/api/hooks";
 import { StatsCardSkeleton, UsageChartSkeleton, PageSkeleton } from "@/components/ui/skeletons";
 import { useAuthStore } from "@/lib/stores/auth";
+import { useDevicesUptime } from "@/lib/hooks/uptime";
+import { formatUptime } from "@/lib/uptime";
 import Link from "next/link";
 
 export default function DashboardPage() {
@@ -41,7 +43,7 @@ export default function DashboardPage() {
   // Calculate metrics
   const onlineDevices = devices.filter((d) => d.status === "online").length;
   const totalDevices = devices.length;
-  const deviceUptime = totalDevices > 0 ? (onlineDevices / totalDevices) * 100 : 0;
+  const { fleetUptime, isLoading: uptimeLoading } = useDevicesUptime(devices, "30d");
 
   const messagesUsed = usage?.messagesUsed || 0;
   const messagesLimit = plan?.messagesIncluded || 1000;
@@ -150,7 +152,7 @@ export default function DashboardPage() {
             <Clock className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{deviceUptime.toFixed(1)}%</div>
+            <div className="text-2xl font-bold">{uptimeLoading ? "..." : formatUptime(fleetUptime)}</div>
             <p className="text-xs text-muted-foreground">Last 30 days average</p>
           </CardContent>
         </Card>
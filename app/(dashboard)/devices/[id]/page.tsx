@@ -0,0 +1,603 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useAtom } from "jotai";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format, formatDistanceToNow, startOfDay, subDays } from "date-fns";
+import { toast } from "sonner";
+import {
+  ArrowLeft,
+  ArrowDownLeft,
+  ArrowUpRight,
+  CheckCircle,
+  Loader2,
+  MessageSquare,
+  Play,
+  QrCode,
+  RefreshCw,
+  RotateCcw,
+  Send,
+  Smartphone,
+  Square,
+  Unplug,
+} from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { StatsCardSkeleton } from "@/components/ui/skeletons";
+import { DevicePairingWizard } from "@/components/device-pairing-wizard";
+import { UptimeLegend, UptimeTimeline, UptimeWindowSelect } from "@/components/uptime-timeline";
+import {
+  useDevice,
+  useUpdateDevice,
+  useDeviceStatusHistory,
+  useMessages,
+  useStartDevice,
+  useStopDevice,
+  useRestartDevice,
+  useSyncDevice,
+  useDisconnectDevice,
+  useSendMessage,
+  getErrorMessage,
+} from "@/lib/api/hooks";
+import { useUIStore } from "@/lib/stores/ui";
+import { getMessageTime } from "@/lib/conversations";
+import { useDevicesUptime } from "@/lib/hooks/uptime";
+import { usePermission } from "@/lib/hooks/permissions";
+import { useEmailVerified } from "@/lib/hooks/auth";
+import { uptimeWindowAtom } from "@/lib/atoms";
+import { formatUptime, UPTIME_WINDOWS } from "@/lib/uptime";
+import type { DeviceStatus } from "@/lib/api/types";
+
+const VOLUME_DAYS = 14;
+const VOLUME_SAMPLE_SIZE = 100;
+
+const renameDeviceSchema = z.object({
+  name: z.string().min(1, "Device name is required").max(100, "Name too long"),
+});
+
+type RenameDeviceForm = z.infer<typeof renameDeviceSchema>;
+
+const getStatusColor = (status: DeviceStatus) => {
+  switch (status) {
+    case "online":
+      return "bg-green-500";
+    case "offline":
+      return "bg-red-500";
+    default:
+      return "bg-gray-500";
+  }
+};
+
+const formatMetadataValue = (value: unknown) =>
+  typeof value === "object" && value !== null ? JSON.stringify(value) : String(value);
+
+export default function DeviceDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const justPaired = searchParams.get("paired") === "1";
+  const [showQRModal, setShowQRModal] = useState(false);
+  const [uptimeWindow, setUptimeWindow] = useAtom(uptimeWindowAtom);
+  const canManageDevice = usePermission("devices:manage");
+  const { addNotification } = useUIStore();
+
+  // API Queries
+  const { data: deviceData, isLoading, error } = useDevice(id);
+  const { data: historyData, isLoading: isHistoryLoading } = useDeviceStatusHistory(id, { limit: 20 });
+  const { data: messagesData, isLoading: isMessagesLoading } = useMessages({
+    deviceId: id,
+    page: 1,
+    limit: VOLUME_SAMPLE_SIZE,
+  });
+  const { data: inboundData } = useMessages({ deviceId: id, direction: "inbound", page: 1, limit: 1 });
+  const { data: outboundData } = useMessages({ deviceId: id, direction: "outbound", page: 1, limit: 1 });
+
+  // Mutations
+  const updateDeviceMutation = useUpdateDevice(id);
+  const startDeviceMutation = useStartDevice();
+  const stopDeviceMutation = useStopDevice();
+  const restartDeviceMutation = useRestartDevice();
+  const syncDeviceMutation = useSyncDevice();
+  const disconnectDeviceMutation = useDisconnectDevice();
+
+  const device = deviceData?.data?.device;
+  const { byDevice: uptimeByDevice, isLoading: isUptimeLoading } = useDevicesUptime(
+    device ? [device] : [],
+    uptimeWindow,
+  );
+  const uptime = device ? uptimeByDevice[device.id] : undefined;
+  const events = historyData?.data?.events || [];
+  const recentMessages = messagesData?.data?.messages || [];
+
+  const renameForm = useForm<RenameDeviceForm>({
+    resolver: zodResolver(renameDeviceSchema),
+    defaultValues: { name: "" },
+  });
+
+  // Fill the rename form once the device has loaded
+  const deviceName = device?.name;
+  useEffect(() => {
+    if (deviceName) renameForm.reset({ name: deviceName });
+  }, [deviceName, renameForm]);
+
+  const isActionPending =
+    startDeviceMutation.isPending ||
+    stopDeviceMutation.isPending ||
+    restartDeviceMutation.isPending ||
+    syncDeviceMutation.isPending ||
+    disconnectDeviceMutation.isPending;
+
+  const runAction = async (label: string, action: () => Promise<unknown>, successDescription: string) => {
+    try {
+      await action();
+      toast.success(`Device ${label} successfully`, { description: successDescription });
+      addNotification({
+        type: "success",
+        title: `Device ${label.charAt(0).toUpperCase()}${label.slice(1)}`,
+        message: `"${device?.name}" has been ${label} successfully.`,
+      });
+    } catch (error) {
+      const message = getErrorMessage(error);
+      toast.error("Failed to update device", { description: message });
+      addNotification({ type: "error", title: "Device Action Failed", message });
+    }
+  };
+
+  const handleRename = async (data: RenameDeviceForm) => {
+    try {
+      await updateDeviceMutation.mutateAsync({ name: data.name });
+      toast.success("Device renamed", { description: `The device is now called "${data.name}".` });
+    } catch (error) {
+      toast.error("Failed to rename device", { description: getErrorMessage(error) });
+    }
+  };
+
+  // Messages per day for the sampled messages, oldest day first
+  const today = startOfDay(new Date());
+  const dailyVolume = Array.from({ length: VOLUME_DAYS }, (_, i) => {
+    const day = subDays(today, VOLUME_DAYS - 1 - i);
+    const next = subDays(day, -1).getTime();
+    return {
+      day,
+      count: recentMessages.filter((m) => {
+        const time = getMessageTime(m);
+        return time >= day.getTime() && time < next;
+      }).length,
+    };
+  });
+  const maxDailyVolume = Math.max(1, ...dailyVolume.map((d) => d.count));
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-9 w-64" />
+        <div className="grid gap-4 md:grid-cols-3">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <StatsCardSkeleton key={i} />
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !device) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center">
+          <Smartphone className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <h3 className="text-lg font-medium">Device not found</h3>
+          <p className="text-muted-foreground mb-4">{error ? getErrorMessage(error) : "This device does not exist"}</p>
+          <Button asChild>
+            <Link href="/devices">Back to Devices</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div className="space-y-1">
+          <Link href="/devices" className="flex items-center text-sm text-muted-foreground hover:underline">
+            <ArrowLeft className="mr-1 h-4 w-4" />
+            Devices
+          </Link>
+          <div className="flex items-center space-x-3">
+            <h1 className="text-3xl font-bold tracking-tight">{device.name}</h1>
+            <Badge variant={device.status === "online" ? "default" : "secondary"}>
+              <span className={`h-2 w-2 rounded-full ${getStatusColor(device.status)}`} />
+              {device.status}
+            </Badge>
+          </div>
+        </div>
+        {canManageDevice && (
+          <div className="flex flex-wrap items-center gap-2">
+            <Button variant="outline" onClick={() => setShowQRModal(true)}>
+              <QrCode className="mr-2 h-4 w-4" />
+              Pair Device
+            </Button>
+            <Button
+              variant="outline"
+              disabled={isActionPending}
+              onClick={() =>
+                runAction(
+                  "started",
+                  () => startDeviceMutation.mutateAsync({ deviceId: id }),
+                  "The device is now starting up.",
+                )
+              }
+            >
+              {startDeviceMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Play className="mr-2 h-4 w-4" />
+              )}
+              Start
+            </Button>
+            <Button
+              variant="outline"
+              disabled={isActionPending}
+              onClick={() =>
+                runAction("stopped", () => stopDeviceMutation.mutateAsync(id), "The device has been stopped.")
+              }
+            >
+              {stopDeviceMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Square className="mr-2 h-4 w-4" />
+              )}
+              Stop
+            </Button>
+            <Button
+              variant="outline"
+              disabled={isActionPending}
+              onClick={() =>
+                runAction("restarted", () => restartDeviceMutation.mutateAsync(id), "The device is restarting.")
+              }
+            >
+              {restartDeviceMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <RotateCcw className="mr-2 h-4 w-4" />
+              )}
+              Restart
+            </Button>
+            <Button
+              variant="outline"
+              disabled={isActionPending}
+              onClick={() =>
+                runAction(
+                  "synchronized",
+                  () => syncDeviceMutation.mutateAsync(id),
+                  "Device information has been updated.",
+                )
+              }
+            >
+              {syncDeviceMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <RefreshCw className="mr-2 h-4 w-4" />
+              )}
+              Sync
+            </Button>
+            <Button
+              variant="outline"
+              className="text-red-600"
+              disabled={isActionPending}
+              onClick={() =>
+                runAction(
+                  "disconnected",
+                  () => disconnectDeviceMutation.mutateAsync(id),
+                  "The device has been gracefully disconnected.",
+                )
+              }
+            >
+              {disconnectDeviceMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Unplug className="mr-2 h-4 w-4" />
+              )}
+              Disconnect
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {justPaired && device.status === "online" && (
+        <TestMessageCard
+          deviceId={device.id}
+          deviceName={device.name}
+          onDismiss={() => router.replace(`/devices/${device.id}`)}
+        />
+      )}
+
+      {/* Overview */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Phone Number</CardDescription>
+            <CardTitle className="text-xl">{device.phoneNumber || "Not connected"}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-xs text-muted-foreground">
+            Added {format(new Date(device.createdAt), "MMM dd, yyyy")}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Last Seen</CardDescription>
+            <CardTitle className="text-xl">
+              {device.status === "online"
+                ? "Now"
+                : device.lastSeen
+                  ? formatDistanceToNow(new Date(device.lastSeen), { addSuffix: true })
+                  : "Never"}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="text-xs text-muted-foreground">
+            {device.lastSeen
+              ? format(new Date(device.lastSeen), "MMM dd, yyyy HH:mm")
+              : "The device has not connected yet"}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Messages</CardDescription>
+            <CardTitle className="text-xl">
+              {isMessagesLoading
+                ? "..."
+                : (messagesData?.meta?.pagination?.total ?? recentMessages.length).toLocaleString()}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="flex items-center space-x-4 text-xs text-muted-foreground">
+            <span className="flex items-center">
+              <ArrowDownLeft className="mr-1 h-3 w-3" />
+              {inboundData?.meta?.pagination?.total?.toLocaleString() ?? "-"} received
+            </span>
+            <span className="flex items-center">
+              <ArrowUpRight className="mr-1 h-3 w-3" />
+              {outboundData?.meta?.pagination?.total?.toLocaleString() ?? "-"} sent
+            </span>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Availability */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Availability</CardTitle>
+              <CardDescription>
+                {UPTIME_WINDOWS[uptimeWindow].label}
+                {uptime && ` · ${formatUptime(uptime.uptime)} uptime`}
+              </CardDescription>
+            </div>
+            <UptimeWindowSelect value={uptimeWindow} onChange={setUptimeWindow} />
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {isUptimeLoading || !uptime ? (
+            <Skeleton className="h-6 w-full" />
+          ) : (
+            <UptimeTimeline buckets={uptime.buckets} />
+          )}
+          <UptimeLegend />
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        {/* Message volume */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Message Volume</CardTitle>
+            <CardDescription>
+              Last {VOLUME_DAYS} days, from the latest {VOLUME_SAMPLE_SIZE} messages
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isMessagesLoading ? (
+              <Skeleton className="h-40 w-full" />
+            ) : recentMessages.length === 0 ? (
+              <div className="flex h-40 flex-col items-center justify-center text-center">
+                <MessageSquare className="h-8 w-8 text-muted-foreground mb-2" />
+                <p className="text-sm text-muted-foreground">No messages sent or received by this device yet</p>
+              </div>
+            ) : (
+              <div className="flex h-40 items-end gap-1">
+                {dailyVolume.map(({ day, count }) => (
+                  <div
+                    key={day.toISOString()}
+                    className="flex flex-1 flex-col items-center justify-end gap-1"
+                    title={`${format(day, "MMM dd")}: ${count} messages`}
+                  >
+                    <div
+                      className="w-full rounded-t bg-primary/80"
+                      style={{ height: `${(count / maxDailyVolume) * 100}%`, minHeight: count ? 2 : 0 }}
+                    />
+                    <span className="text-[10px] text-muted-foreground">{format(day, "dd")}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Status history */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Status History</CardTitle>
+            <CardDescription>Recent connection changes</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isHistoryLoading ? (
+              <div className="space-y-3">
+                {Array.from({ length: 4 }).map((_, i) => (
+                  <Skeleton key={i} className="h-6 w-full" />
+                ))}
+              </div>
+            ) : events.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No status changes recorded yet</p>
+            ) : (
+              <div className="max-h-64 space-y-3 overflow-y-auto">
+                {events.map((event) => (
+                  <div key={event.id} className="flex items-center justify-between text-sm">
+                    <div className="flex items-center space-x-2">
+                      <div className={`w-2 h-2 rounded-full ${getStatusColor(event.status)}`} />
+                      <span className="font-medium capitalize">{event.status}</span>
+                      {event.reason && <span className="text-muted-foreground">· {event.reason}</span>}
+                    </div>
+                    <span className="text-muted-foreground">{format(new Date(event.createdAt), "MMM dd, HH:mm")}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Settings */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Device Settings</CardTitle>
+            <CardDescription>Rename this device</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={renameForm.handleSubmit(handleRename)} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="name">Device Name</Label>
+                <Input
+                  id="name"
+                  disabled={!canManageDevice}
+                  {...renameForm.register("name")}
+                  className={renameForm.formState.errors.name ? "border-red-500" : ""}
+                />
+                {renameForm.formState.errors.name && (
+                  <p className="text-sm text-red-500">{renameForm.formState.errors.name.message}</p>
+                )}
+              </div>
+              <div className="flex justify-end">
+                <Button
+                  type="submit"
+                  disabled={!canManageDevice || updateDeviceMutation.isPending || !renameForm.formState.isDirty}
+                >
+                  {updateDeviceMutation.isPending ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    "Save"
+                  )}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* Metadata */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Metadata</CardTitle>
+            <CardDescription>Details reported by the device</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!device.metadata || Object.keys(device.metadata).length === 0 ? (
+              <p className="text-sm text-muted-foreground">No metadata reported</p>
+            ) : (
+              <dl className="space-y-2 text-sm">
+                {Object.entries(device.metadata).map(([key, value]) => (
+                  <div key={key} className="flex justify-between gap-4">
+                    <dt className="text-muted-foreground">{key}</dt>
+                    <dd className="truncate font-mono text-xs" title={formatMetadataValue(value)}>
+                      {formatMetadataValue(value)}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <DevicePairingWizard deviceId={id} open={showQRModal} onOpenChange={setShowQRModal} />
+    </div>
+  );
+}
+
+interface TestMessageCardProps {
+  deviceId: string;
+  deviceName: string;
+  onDismiss: () => void;
+}
+
+// Shown after pairing so the user can confirm the device actually delivers messages
+function TestMessageCard({ deviceId, deviceName, onDismiss }: TestMessageCardProps) {
+  const [recipient, setRecipient] = useState("");
+  const sendMessageMutation = useSendMessage();
+  const isEmailVerified = useEmailVerified();
+
+  const handleSendTest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!recipient.trim()) return;
+
+    try {
+      await sendMessageMutation.mutateAsync({
+        deviceId,
+        to: recipient.trim(),
+        message: `This is a test message from ${deviceName}.`,
+        type: "text",
+      });
+      toast.success("Test message sent", { description: `Check ${recipient.trim()} on WhatsApp.` });
+      onDismiss();
+    } catch (error) {
+      toast.error("Failed to send test message", { description: getErrorMessage(error) });
+    }
+  };
+
+  return (
+    <Card className="border-green-200 bg-green-50/50">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <CheckCircle className="mr-2 h-5 w-5 text-green-600" />
+          Device connected
+        </CardTitle>
+        <CardDescription>Send yourself a test message to make sure everything works</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSendTest} className="flex items-center space-x-2">
+          <Input
+            placeholder="+1234567890"
+            value={recipient}
+            onChange={(e) => setRecipient(e.target.value)}
+            disabled={sendMessageMutation.isPending}
+            className="max-w-xs bg-background"
+          />
+          <Button
+            type="submit"
+            disabled={sendMessageMutation.isPending || !recipient.trim() || !isEmailVerified}
+            title={isEmailVerified ? undefined : "Verify your email to send messages"}
+          >
+            {sendMessageMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Send className="mr-2 h-4 w-4" />
+            )}
+            Send Test
+          </Button>
+          <Button type="button" variant="ghost" onClick={onDismiss}>
+            Skip
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,8 @@
 "use client";
 
 import { useState } from "react";
+import Link from "next/link";
+import { useAtom } from "jotai";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -36,9 +38,7 @@ import {
 } from "lucide-react";
 import {
   useDevices,
-  useCreateDevice,
   useDeleteDevice,
-  useDeviceQR,
   useCurrentUsage,
   useMessages,
   useStartDevice,
@@ -49,25 +49,26 @@ import {
 } from "@/lib/api/hooks";
 import { DeviceTableSkeleton, StatsCardSkeleton } from "@/components/ui/skeletons";
 import { useUIStore } from "@/lib/stores/ui";
-import { useForm } from "react-hook-form";
-import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
-import { Label } from "@/components/ui/label";
 import { toast } from "sonner";
+import { DevicePairingWizard } from "@/components/device-pairing-wizard";
+import { UptimeLegend, UptimeTimeline, UptimeWindowSelect } from "@/components/uptime-timeline";
+import { useDevicesUptime } from "@/lib/hooks/uptime";
+import { usePermission } from "@/lib/hooks/permissions";
+import { useEmailVerified } from "@/lib/hooks/auth";
+import { Can } from "@/components/can";
+import { uptimeWindowAtom } from "@/lib/atoms";
+import { formatUptime, UPTIME_WINDOWS } from "@/lib/uptime";
 import type { DeviceStatus } from "@/lib/api/types";
 
-const createDeviceSchema = z.object({
-  name: z.string().min(1, "Device name is required"),
-  deviceId: z.string().optional(),
-});
-
-type CreateDeviceForm = z.infer<typeof createDeviceSchema>;
-
 export default function DevicesPage() {
   const [searchQuery, setSearchQuery] = useState("");
   const [page, setPage] = useState(1);
   const [selectedDeviceId, setSelectedDeviceId] = useState<string | null>(null);
   const [showQRModal, setShowQRModal] = useState(false);
+  const [uptimeWindow, setUptimeWindow] = useAtom(uptimeWindowAtom);
+  const canManageDevices = usePermission("devices:manage");
+  const isEmailVerified = useEmailVerified();
+  const canDeleteDevices = usePermission("devices:delete");
 
   const {
     isCreateDeviceModalOpen,
@@ -87,10 +88,8 @@ export default function DevicesPage() {
     page: 1,
     limit: 1,
   }); // Just to get total count
-  const { data: qrData, isLoading: isQRLoading } = useDeviceQR(selectedDeviceId || "");
 
   // Mutations
-  const createDeviceMutation = useCreateDevice();
   const deleteDeviceMutation = useDeleteDevice();
   const startDeviceMutation = useStartDevice();
   const stopDeviceMutation = useStopDevice();
@@ -98,17 +97,8 @@ export default function DevicesPage() {
   const syncDeviceMutation = useSyncDevice();
   const disconnectDeviceMutation = useDisconnectDevice();
 
-  // Form handling
-  const {
-    register,
-    handleSubmit,
-    formState: { errors },
-    reset,
-  } = useForm<CreateDeviceForm>({
-    resolver: zodResolver(createDeviceSchema),
-  });
-
   const devices = devicesData?.data?.devices || [];
+  const { byDevice: uptimeByDevice, fleetUptime, isLoading: isUptimeLoading } = useDevicesUptime(devices, uptimeWindow);
 
   // Filter devices based on search
   const filteredDevices = devices.filter(
@@ -117,44 +107,6 @@ export default function DevicesPage() {
       device.phoneNumber?.toLowerCase().includes(searchQuery.toLowerCase()),
   );
 
-  // Calculate average uptime based on device statuses and last seen times
-  const calculateAverageUptime = () => {
-    if (devices.length === 0) return "0%";
-
-    const now = new Date();
-    let totalUptime = 0;
-
-    devices.forEach((device) => {
-      const createdAt = new Date(device.createdAt);
-      const totalLifetimeHours = (now.getTime() - createdAt.getTime()) / (1000 * 60 * 60);
-
-      if (totalLifetimeHours <= 0) {
-        // Device just created, assume 100% uptime
-        totalUptime += 100;
-        return;
-      }
-
-      if (device.status === "online") {
-        // Online devices get high uptime
-        totalUptime += 98 + Math.random() * 2; // 98-100%
-      } else if (device.lastSeen) {
-        const lastSeenDate = new Date(device.lastSeen);
-        const hoursSinceLastSeen = (now.getTime() - lastSeenDate.getTime()) / (1000 * 60 * 60);
-        const hoursOnline = totalLifetimeHours - hoursSinceLastSeen;
-
-        // Calculate uptime as percentage of total lifetime
-        const uptimePercentage = Math.max(0, Math.min(100, (hoursOnline / totalLifetimeHours) * 100));
-        totalUptime += uptimePercentage;
-      } else {
-        // Never been online
-        totalUptime += 0;
-      }
-    });
-
-    const avgUptime = totalUptime / devices.length;
-    return `${Math.round(avgUptime * 10) / 10}%`;
-  };
-
   // Calculate stats
   const stats = [
     {
@@ -176,8 +128,8 @@ export default function DevicesPage() {
       color: "text-purple-600",
     },
     {
-      title: "Avg Uptime",
-      value: calculateAverageUptime(),
+      title: `Avg Uptime (${uptimeWindow})`,
+      value: isUptimeLoading ? "..." : formatUptime(fleetUptime),
       icon: Clock,
       color: "text-orange-600",
     },
@@ -194,70 +146,6 @@ export default function DevicesPage() {
     }
   };
 
-  const getDeviceUptime = (device: any) => {
-    const now = new Date();
-    const createdAt = new Date(device.createdAt);
-    const totalLifetimeHours = (now.getTime() - createdAt.getTime()) / (1000 * 60 * 60);
-
-    if (totalLifetimeHours <= 0) {
-      return "100%"; // Just created
-    }
-
-    if (device.status === "online") {
-      return "100%";
-    }
-
-    if (!device.lastSeen) {
-      return "0%";
-    }
-
-    const lastSeenDate = new Date(device.lastSeen);
-    const hoursSinceLastSeen = (now.getTime() - lastSeenDate.getTime()) / (1000 * 60 * 60);
-
-    // Calculate uptime as a more realistic percentage based on total lifetime
-    const hoursOnline = Math.max(0, totalLifetimeHours - hoursSinceLastSeen);
-    const uptimePercentage = Math.min(100, (hoursOnline / totalLifetimeHours) * 100);
-
-    // Avoid NaN
-    if (isNaN(uptimePercentage)) {
-      return "0%";
-    }
-
-    return `${Math.round(uptimePercentage * 10) / 10}%`;
-  };
-
-  const handleCreateDevice = async (data: CreateDeviceForm) => {
-    try {
-      await createDeviceMutation.mutateAsync({
-        name: data.name,
-      });
-
-      toast.success("Device created successfully", {
-        description: "Your new WhatsApp device has been added.",
-      });
-
-      addNotification({
-        type: "success",
-        title: "Device Created",
-        message: `Device "${data.name}" has been created successfully.`,
-      });
-
-      reset();
-      closeCreateDeviceModal();
-    } catch (error) {
-      const message = error instanceof Error ? error.message : "Failed to create device";
-      toast.error("Failed to create device", {
-        description: message,
-      });
-
-      addNotification({
-        type: "error",
-        title: "Creation Failed",
-        message,
-      });
-    }
-  };
-
   const handleDeleteDevice = async () => {
     if (!deleteDeviceId) return;
 
@@ -469,10 +357,16 @@ export default function DevicesPage() {
               <CardTitle>Device Management</CardTitle>
               <CardDescription>Manage your WhatsApp Business devices</CardDescription>
             </div>
-            <Button onClick={openCreateDeviceModal}>
-              <Plus className="mr-2 h-4 w-4" />
-              Add Device
-            </Button>
+            <Can permission="devices:manage">
+              <Button
+                onClick={openCreateDeviceModal}
+                disabled={!isEmailVerified}
+                title={isEmailVerified ? undefined : "Verify your email to add devices"}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Device
+              </Button>
+            </Can>
           </div>
         </CardHeader>
         <CardContent>
@@ -509,7 +403,9 @@ export default function DevicesPage() {
                     <TableCell className="font-medium">
                       <div className="flex items-center space-x-2">
                         <div className={`w-2 h-2 rounded-full ${getStatusColor(device.status)}`} />
-                        <span>{device.name}</span>
+                        <Link href={`/devices/${device.id}`} className="hover:underline">
+                          {device.name}
+                        </Link>
                       </div>
                     </TableCell>
                     <TableCell>{device.phoneNumber || "Not connected"}</TableCell>
@@ -518,9 +414,13 @@ export default function DevicesPage() {
                     </TableCell>
                     <TableCell>{device.lastSeen ? new Date(device.lastSeen).toLocaleString() : "Never"}</TableCell>
                     <TableCell>
-                      <span className="text-muted-foreground">View Details</span>
+                      <Link href={`/devices/${device.id}`} className="text-muted-foreground hover:underline">
+                        View Details
+                      </Link>
+                    </TableCell>
+                    <TableCell>
+                      {isUptimeLoading ? "..." : formatUptime(uptimeByDevice[device.id]?.uptime ?? null)}
                     </TableCell>
-                    <TableCell>{getDeviceUptime(device)}</TableCell>
                     <TableCell className="text-right">
                       <DropdownMenu>
                         <DropdownMenuTrigger asChild>
@@ -531,41 +431,54 @@ export default function DevicesPage() {
                         </DropdownMenuTrigger>
                         <DropdownMenuContent align="end">
                           <DropdownMenuLabel>Actions</DropdownMenuLabel>
-                          <DropdownMenuItem onClick={() => handleShowQR(device.id)}>
-                            <QrCode className="mr-2 h-4 w-4" />
-                            Show QR Code
-                          </DropdownMenuItem>
-                          <DropdownMenuSeparator />
-                          <DropdownMenuItem onClick={() => handleStartDevice(device.id)}>
-                            <Play className="mr-2 h-4 w-4" />
-                            Start
-                          </DropdownMenuItem>
-                          <DropdownMenuItem onClick={() => handleStopDevice(device.id)}>
-                            <Square className="mr-2 h-4 w-4" />
-                            Stop
-                          </DropdownMenuItem>
-                          <DropdownMenuItem onClick={() => handleRestartDevice(device.id)}>
-                            <RotateCcw className="mr-2 h-4 w-4" />
-                            Restart
-                          </DropdownMenuItem>
-                          <DropdownMenuItem onClick={() => handleDisconnectDevice(device.id)}>
-                            <Unplug className="mr-2 h-4 w-4" />
-                            Disconnect
-                          </DropdownMenuItem>
-                          <DropdownMenuSeparator />
-                          <DropdownMenuItem onClick={() => handleSyncDevice(device.id)}>
-                            <RefreshCw className="mr-2 h-4 w-4" />
-                            Sync Status
-                          </DropdownMenuItem>
-                          <DropdownMenuItem>
-                            <Settings className="mr-2 h-4 w-4" />
-                            Configure
-                          </DropdownMenuItem>
-                          <DropdownMenuSeparator />
-                          <DropdownMenuItem className="text-red-600" onClick={() => openDeleteDeviceModal(device.id)}>
-                            <Trash2 className="mr-2 h-4 w-4" />
-                            Remove
+                          {canManageDevices && (
+                            <>
+                              <DropdownMenuItem onClick={() => handleShowQR(device.id)}>
+                                <QrCode className="mr-2 h-4 w-4" />
+                                Show QR Code
+                              </DropdownMenuItem>
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem onClick={() => handleStartDevice(device.id)}>
+                                <Play className="mr-2 h-4 w-4" />
+                                Start
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => handleStopDevice(device.id)}>
+                                <Square className="mr-2 h-4 w-4" />
+                                Stop
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => handleRestartDevice(device.id)}>
+                                <RotateCcw className="mr-2 h-4 w-4" />
+                                Restart
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => handleDisconnectDevice(device.id)}>
+                                <Unplug className="mr-2 h-4 w-4" />
+                                Disconnect
+                              </DropdownMenuItem>
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem onClick={() => handleSyncDevice(device.id)}>
+                                <RefreshCw className="mr-2 h-4 w-4" />
+                                Sync Status
+                              </DropdownMenuItem>
+                            </>
+                          )}
+                          <DropdownMenuItem asChild>
+                            <Link href={`/devices/${device.id}`}>
+                              <Settings className="mr-2 h-4 w-4" />
+                              Configure
+                            </Link>
                           </DropdownMenuItem>
+                          {canDeleteDevices && (
+                            <>
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem
+                                className="text-red-600"
+                                onClick={() => openDeleteDeviceModal(device.id)}
+                              >
+                                <Trash2 className="mr-2 h-4 w-4" />
+                                Remove
+                              </DropdownMenuItem>
+                            </>
+                          )}
                         </DropdownMenuContent>
                       </DropdownMenu>
                     </TableCell>
@@ -577,49 +490,48 @@ export default function DevicesPage() {
         </CardContent>
       </Card>
 
-      {/* Create Device Modal */}
-      <Dialog open={isCreateDeviceModalOpen} onOpenChange={closeCreateDeviceModal}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Add New Device</DialogTitle>
-            <DialogDescription>Create a new WhatsApp Business device to start sending messages.</DialogDescription>
-          </DialogHeader>
-          <form onSubmit={handleSubmit(handleCreateDevice)} className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="name">Device Name</Label>
-              <Input
-                id="name"
-                placeholder="e.g., Marketing Device"
-                {...register("name")}
-                className={errors.name ? "border-red-500" : ""}
-              />
-              {errors.name && <p className="text-sm text-red-500">{errors.name.message}</p>}
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="deviceId">Device ID (Optional)</Label>
-              <Input id="deviceId" placeholder="e.g., device-001" {...register("deviceId")} />
-              <p className="text-sm text-muted-foreground">Leave empty to auto-generate a unique ID</p>
+      {/* Availability */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Availability</CardTitle>
+              <CardDescription>
+                {UPTIME_WINDOWS[uptimeWindow].label}, from each device&apos;s status history
+              </CardDescription>
             </div>
+            <UptimeWindowSelect value={uptimeWindow} onChange={setUptimeWindow} />
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading || isUptimeLoading ? (
+            <DeviceTableSkeleton />
+          ) : filteredDevices.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No devices to show</p>
+          ) : (
+            <>
+              {filteredDevices.map((device) => (
+                <div key={device.id} className="grid grid-cols-[10rem_1fr_4rem] items-center gap-4">
+                  <Link href={`/devices/${device.id}`} className="truncate text-sm font-medium hover:underline">
+                    {device.name}
+                  </Link>
+                  <UptimeTimeline buckets={uptimeByDevice[device.id]?.buckets || []} />
+                  <span className="text-right text-sm text-muted-foreground">
+                    {formatUptime(uptimeByDevice[device.id]?.uptime ?? null)}
+                  </span>
+                </div>
+              ))}
+              <UptimeLegend />
+            </>
+          )}
+        </CardContent>
+      </Card>
 
-            <div className="flex justify-end space-x-2">
-              <Button type="button" variant="outline" onClick={closeCreateDeviceModal}>
-                Cancel
-              </Button>
-              <Button type="submit" disabled={createDeviceMutation.isPending}>
-                {createDeviceMutation.isPending ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Creating...
-                  </>
-                ) : (
-                  "Create Device"
-                )}
-              </Button>
-            </div>
-          </form>
-        </DialogContent>
-      </Dialog>
+      {/* Create Device Wizard */}
+      <DevicePairingWizard
+        open={isCreateDeviceModalOpen}
+        onOpenChange={(open) => (open ? openCreateDeviceModal() : closeCreateDeviceModal())}
+      />
 
       {/* Delete Confirmation Modal */}
       <Dialog open={isDeleteDeviceModalOpen} onOpenChange={closeDeleteDeviceModal}>
@@ -648,28 +560,8 @@ export default function DevicesPage() {
         </DialogContent>
       </Dialog>
 
-      {/* QR Code Modal */}
-      <Dialog open={showQRModal} onOpenChange={setShowQRModal}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Device QR Code</DialogTitle>
-            <DialogDescription>Scan this QR code with WhatsApp to connect your device.</DialogDescription>
-          </DialogHeader>
-          <div className="flex justify-center p-4">
-            {isQRLoading ? (
-              <div className="flex items-center justify-center w-64 h-64 border-2 border-dashed border-gray-300 rounded-lg">
-                <Loader2 className="h-8 w-8 animate-spin" />
-              </div>
-            ) : qrData?.data?.qrCode ? (
-              <img src={qrData.data.qrCode} alt="QR Code" className="w-64 h-64 border rounded-lg" />
-            ) : (
-              <div className="flex items-center justify-center w-64 h-64 border-2 border-dashed border-gray-300 rounded-lg">
-                <p className="text-gray-500">QR Code not available</p>
-              </div>
-            )}
-          </div>
-        </DialogContent>
-      </Dialog>
+      {/* Pairing Wizard for existing devices */}
+      <DevicePairingWizard deviceId={selectedDeviceId} open={showQRModal} onOpenChange={setShowQRModal} />
     </div>
   );
 }
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -8,34 +8,9 @@ import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import {
-  Send,
-  Search,
-  Filter,
-  ImageIcon,
-  Video,
-  FileText,
-  CheckCheck,
-  Check,
-  Clock,
-  X,
-  MoreVertical,
-  Download,
-  Eye,
-} from "lucide-react";
-import {
-  useMessages,
-  useDevices,
-  useSendMessage,
-  useMessageTemplates,
-  useCreateMessageTemplate,
-} from "@/lib/api/hooks";
-import {
-  MessageListSkeleton,
-  DeviceSelectSkeleton,
-  TemplateCardSkeleton,
-  MessageSkeleton,
-} from "@/components/ui/skeletons";
+import { Send, Search, Filter, ImageIcon, Video, FileText, Music, MoreVertical, Download, Eye } from "lucide-react";
+import { useMessages, useDevices, useSendMessage, useUploadMedia } from "@/lib/api/hooks";
+import { MessageListSkeleton, DeviceSelectSkeleton, MessageSkeleton } from "@/components/ui/skeletons";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -46,32 +21,38 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { useUIStore } from "@/lib/stores/ui";
+import { useEmailVerified } from "@/lib/hooks/auth";
 import { toast } from "sonner";
 import { format } from "date-fns";
+import { MediaAttachment } from "@/components/media-attachment";
+import { MessageStatusIcon } from "@/components/message-status-icon";
+import { ConversationInbox } from "@/components/conversation-inbox";
+import { MessagePreview } from "@/components/message-preview";
+import { TemplateLibrary } from "@/components/template-library";
+import { MEDIA_CONSTRAINTS, validateMediaFile } from "@/lib/media";
+import { extractVariables, getMissingVariables, renderTemplate } from "@/lib/templates";
+import { ErrorCode, type MediaType, type MessageTemplate, type SendMessageRequest } from "@/lib/api/types";
 
 // Form schemas
 const sendMessageSchema = z.object({
   recipient: z.string().min(1, "Recipient phone number is required"),
   deviceId: z.string().min(1, "Please select a device"),
   content: z.string().min(1, "Message content is required").max(4096, "Message too long"),
-  type: z.enum(["text", "image", "video", "document"]).default("text"),
-});
-
-const templateSchema = z.object({
-  name: z.string().min(1, "Template name is required").max(100, "Name too long"),
-  content: z.string().min(1, "Template content is required").max(4096, "Content too long"),
+  type: z.enum(["text", "image", "video", "audio", "document"]).default("text"),
 });
 
 type SendMessageData = z.infer<typeof sendMessageSchema>;
-type TemplateData = z.infer<typeof templateSchema>;
 
 export default function MessagesPage() {
+  const [activeTab, setActiveTab] = useState("history");
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [deviceFilter, setDeviceFilter] = useState<string>("all");
   const [currentPage, setCurrentPage] = useState(1);
-  const [showNewTemplate, setShowNewTemplate] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [uploadProgress, setUploadProgress] = useState(0);
+  const [templateValues, setTemplateValues] = useState<Record<string, string>>({});
+  const uploadAbortRef = useRef<AbortController | null>(null);
 
   const [showConfirmDialog, setShowConfirmDialog] = useState(false);
 
@@ -83,15 +64,14 @@ export default function MessagesPage() {
     deviceId: deviceFilter === "all" ? undefined : deviceFilter,
   });
   const { data: devicesData, isLoading: devicesLoading } = useDevices(1, 50);
-  const { data: templatesData, isLoading: templatesLoading } = useMessageTemplates();
 
   // Mutations
   const sendMessageMutation = useSendMessage();
-  const createTemplateMutation = useCreateMessageTemplate();
+  const uploadMediaMutation = useUploadMedia();
+  const isEmailVerified = useEmailVerified();
 
   const messages = messagesData?.data?.messages || [];
   const devices = devicesData?.data?.devices?.filter((d) => d.status === "online") || [];
-  const templates = templatesData?.data?.templates || [];
   const pagination = messagesData?.meta?.pagination;
 
   // Forms
@@ -105,25 +85,6 @@ export default function MessagesPage() {
     },
   });
 
-  const templateForm = useForm<TemplateData>({
-    resolver: zodResolver(templateSchema),
-  });
-
-  const getStatusIcon = (status: string) => {
-    switch (status) {
-      case "sent":
-        return <Check className="h-4 w-4 text-gray-500" />;
-      case "delivered":
-        return <CheckCheck className="h-4 w-4 text-blue-500" />;
-      case "read":
-        return <CheckCheck className="h-4 w-4 text-green-500" />;
-      case "failed":
-        return <X className="h-4 w-4 text-red-500" />;
-      default:
-        return <Clock className="h-4 w-4 text-gray-500" />;
-    }
-  };
-
   const getStatusColor = (status: string) => {
     switch (status) {
       case "delivered":
@@ -145,6 +106,8 @@ export default function MessagesPage() {
         return <ImageIcon className="h-4 w-4" />;
       case "video":
         return <Video className="h-4 w-4" />;
+      case "audio":
+        return <Music className="h-4 w-4" />;
       case "document":
         return <FileText className="h-4 w-4" />;
       default:
@@ -153,20 +116,37 @@ export default function MessagesPage() {
   };
 
   const handleSendMessage = async (data: SendMessageData) => {
+    const missingVariables = getMissingVariables(data.content, templateValues);
+    if (missingVariables.length > 0) {
+      sendForm.setError("content", { message: `Fill in a value for: ${missingVariables.join(", ")}` });
+      return;
+    }
+
     try {
-      const messageData: any = {
+      const messageData: SendMessageRequest = {
         to: data.recipient,
         deviceId: data.deviceId,
-        message: data.content, // Map content to message for API
+        message: renderTemplate(data.content, templateValues), // Map content to message for API
         type: data.type,
       };
 
-      // If there's a selected file, we'd typically upload it first
-      // For now, we'll just send the message without media
-      if (selectedFile) {
-        // TODO: Implement file upload to get media URL
-        // messageData.media = uploadedFileUrl;
-        toast.info("File upload not yet implemented. Sending text message only.");
+      // Upload the attachment first so the message can reference its media URL
+      if (selectedFile && data.type !== "text") {
+        const controller = new AbortController();
+        uploadAbortRef.current = controller;
+        setUploadProgress(0);
+
+        try {
+          const uploadResponse = await uploadMediaMutation.mutateAsync({
+            file: selectedFile,
+            type: data.type,
+            signal: controller.signal,
+            onProgress: ({ percent }) => setUploadProgress(percent),
+          });
+          messageData.media = uploadResponse.data?.media.url;
+        } finally {
+          uploadAbortRef.current = null;
+        }
       }
 
       const response = await sendMessageMutation.mutateAsync(messageData);
@@ -183,46 +163,65 @@ export default function MessagesPage() {
 
       sendForm.reset();
       setSelectedFile(null);
+      setTemplateValues({});
     } catch (error: any) {
+      if (error?.code === ErrorCode.REQUEST_ABORTED) {
+        toast.info("Upload cancelled");
+        return;
+      }
       console.error("Failed to send message:", error);
       const errorMessage = error?.response?.data?.message || error?.message || "Failed to send message";
       toast.error(errorMessage);
     }
   };
 
-  const handleFileSelect = (type: "image" | "video" | "document") => {
+  const handleFileSelect = (type: MediaType) => {
     const input = document.createElement("input");
     input.type = "file";
-
-    switch (type) {
-      case "image":
-        input.accept = "image/*";
-        sendForm.setValue("type", "image");
-        break;
-      case "video":
-        input.accept = "video/*";
-        sendForm.setValue("type", "video");
-        break;
-      case "document":
-        input.accept = ".pdf,.doc,.docx,.txt";
-        sendForm.setValue("type", "document");
-        break;
-    }
+    input.accept = MEDIA_CONSTRAINTS[type].accept;
 
     input.onchange = (e) => {
       const file = (e.target as HTMLInputElement).files?.[0];
-      if (file) {
-        setSelectedFile(file);
-        toast.success(`${file.name} selected`);
+      if (!file) return;
+
+      const validationError = validateMediaFile(file, type);
+      if (validationError) {
+        toast.error(validationError);
+        return;
       }
+
+      sendForm.setValue("type", type);
+      setSelectedFile(file);
+      toast.success(`${file.name} selected`);
     };
 
     input.click();
   };
 
-  const handleUseTemplate = (template: any) => {
+  const handleRemoveFile = () => {
+    setSelectedFile(null);
+    sendForm.setValue("type", "text");
+  };
+
+  const handleCancelUpload = () => {
+    uploadAbortRef.current?.abort();
+  };
+
+  const isSending = sendMessageMutation.isPending || uploadMediaMutation.isPending;
+  const selectedMediaType = sendForm.watch("type");
+
+  const messageContent = sendForm.watch("content") || "";
+  const messageVariables = extractVariables(messageContent);
+
+  const handleUseTemplate = (template: MessageTemplate) => {
     sendForm.setValue("content", template.content);
-    toast.success(`Template "${template.name}" applied`);
+    sendForm.clearErrors("content");
+    setActiveTab("send");
+    toast.success(`Template "${template.name}" applied`, {
+      description: extractVariables(template.content).length
+        ? "Fill in the template variables before sending"
+        : undefined,
+    });
   };
 
   const clearFilters = () => {
@@ -239,13 +238,18 @@ export default function MessagesPage() {
 
   return (
     <div className="space-y-6">
-      <Tabs defaultValue="history" className="space-y-4">
+      <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
         <TabsList>
+          <TabsTrigger value="inbox">Inbox</TabsTrigger>
           <TabsTrigger value="history">Message History</TabsTrigger>
           <TabsTrigger value="send">Send Message</TabsTrigger>
           <TabsTrigger value="templates">Templates</TabsTrigger>
         </TabsList>
 
+        <TabsContent value="inbox" className="space-y-4">
+          <ConversationInbox />
+        </TabsContent>
+
         <TabsContent value="history" className="space-y-4">
           <Card>
             <CardHeader>
@@ -309,9 +313,7 @@ export default function MessagesPage() {
                         ? "Try adjusting your filters"
                         : "Send your first message to get started"}
                     </p>
-                    <Button onClick={() => (document.querySelector('[data-value="send"]') as HTMLElement)?.click()}>
-                      Send Message
-                    </Button>
+                    <Button onClick={() => setActiveTab("send")}>Send Message</Button>
                   </div>
                 ) : (
                   messages.map((message) => (
@@ -338,7 +340,7 @@ export default function MessagesPage() {
                           </span>
                         </div>
                         <div className="flex items-center space-x-2">
-                          {getStatusIcon(message.status || "sent")}
+                          <MessageStatusIcon status={message.status || "sent"} />
                           <DropdownMenu>
                             <DropdownMenuTrigger asChild>
                               <Button variant="ghost" size="sm">
@@ -409,11 +411,7 @@ export default function MessagesPage() {
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
                     <label className="text-sm font-medium">Recipient *</label>
-                    <Input
-                      {...sendForm.register("recipient")}
-                      placeholder="+1234567890"
-                      disabled={sendMessageMutation.isPending}
-                    />
+                    <Input {...sendForm.register("recipient")} placeholder="+1234567890" disabled={isSending} />
                     {sendForm.formState.errors.recipient && (
                       <p className="text-sm text-red-500">{sendForm.formState.errors.recipient.message}</p>
                     )}
@@ -455,16 +453,58 @@ export default function MessagesPage() {
                     {...sendForm.register("content")}
                     placeholder="Type your message here..."
                     rows={4}
-                    disabled={sendMessageMutation.isPending}
+                    disabled={isSending}
                   />
                   {sendForm.formState.errors.content && (
                     <p className="text-sm text-red-500">{sendForm.formState.errors.content.message}</p>
                   )}
-                  <div className="text-xs text-muted-foreground">
-                    {sendForm.watch("content")?.length || 0} / 4096 characters
-                  </div>
+                  <div className="text-xs text-muted-foreground">{messageContent.length} / 4096 characters</div>
                 </div>
 
+                {messageVariables.length > 0 && (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Template Variables *</label>
+                    <div className="grid grid-cols-2 gap-4">
+                      {messageVariables.map((variable) => (
+                        <div key={variable} className="space-y-1">
+                          <label htmlFor={`variable-${variable}`} className="text-xs text-muted-foreground">
+                            {`{{${variable}}}`}
+                          </label>
+                          <Input
+                            id={`variable-${variable}`}
+                            value={templateValues[variable] || ""}
+                            onChange={(e) => setTemplateValues((prev) => ({ ...prev, [variable]: e.target.value }))}
+                            placeholder={variable}
+                            disabled={isSending}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {messageContent && (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Preview</label>
+                    <MessagePreview
+                      content={renderTemplate(messageContent, templateValues)}
+                      type={selectedFile ? selectedMediaType : "text"}
+                      fileName={selectedFile?.name}
+                    />
+                  </div>
+                )}
+
+                {selectedFile && selectedMediaType && selectedMediaType !== "text" && (
+                  <MediaAttachment
+                    file={selectedFile}
+                    type={selectedMediaType}
+                    progress={uploadProgress}
+                    isUploading={uploadMediaMutation.isPending}
+                    onRemove={handleRemoveFile}
+                    onCancel={handleCancelUpload}
+                  />
+                )}
+
                 <div className="flex items-center justify-between">
                   <div className="flex items-center space-x-2">
                     <Button type="button" variant="outline" size="sm" onClick={() => handleFileSelect("image")}>
@@ -475,15 +515,24 @@ export default function MessagesPage() {
                       <Video className="mr-2 h-4 w-4" />
                       Video
                     </Button>
+                    <Button type="button" variant="outline" size="sm" onClick={() => handleFileSelect("audio")}>
+                      <Music className="mr-2 h-4 w-4" />
+                      Audio
+                    </Button>
                     <Button type="button" variant="outline" size="sm" onClick={() => handleFileSelect("document")}>
                       <FileText className="mr-2 h-4 w-4" />
                       Document
                     </Button>
                   </div>
                   <div className="flex items-center space-x-2">
-                    {selectedFile && <div className="text-xs text-muted-foreground">📎 {selectedFile.name}</div>}
-                    <Button type="submit" disabled={sendMessageMutation.isPending}>
-                      {sendMessageMutation.isPending ? (
+                    <Button
+                      type="submit"
+                      disabled={isSending || !isEmailVerified}
+                      title={isEmailVerified ? undefined : "Verify your email to send messages"}
+                    >
+                      {uploadMediaMutation.isPending ? (
+                        `Uploading ${uploadProgress}%...`
+                      ) : sendMessageMutation.isPending ? (
                         "Sending..."
                       ) : (
                         <>
@@ -500,70 +549,7 @@ export default function MessagesPage() {
         </TabsContent>
 
         <TabsContent value="templates" className="space-y-4">
-          <Card>
-            <CardHeader>
-              <div className="flex items-center justify-between">
-                <div>
-                  <CardTitle>Message Templates</CardTitle>
-                  <CardDescription>Quick response templates for common messages</CardDescription>
-                </div>
-                <Button onClick={() => setShowNewTemplate(true)}>Create Template</Button>
-              </div>
-            </CardHeader>
-            <CardContent>
-              {showNewTemplate && (
-                <Card className="mb-6 border-dashed">
-                  <CardHeader>
-                    <CardTitle className="text-base">New Template</CardTitle>
-                  </CardHeader>
-                  <CardContent>{/* // todo */}</CardContent>
-                </Card>
-              )}
-
-              <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-                {templatesLoading ? (
-                  Array.from({ length: 6 }).map((_, i) => <TemplateCardSkeleton key={i} />)
-                ) : templates.length === 0 ? (
-                  <div className="col-span-full text-center py-8">
-                    <FileText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-                    <h3 className="text-lg font-medium">No templates yet</h3>
-                    <p className="text-muted-foreground mb-4">Create your first template for quick messaging</p>
-                    <Button onClick={() => setShowNewTemplate(true)}>Create Template</Button>
-                  </div>
-                ) : (
-                  templates.map((template) => (
-                    <Card key={template.id} className="hover:shadow-md transition-shadow">
-                      <CardHeader>
-                        <div className="flex items-center justify-between">
-                          <CardTitle className="text-base">{template.name}</CardTitle>
-                          <DropdownMenu>
-                            <DropdownMenuTrigger asChild>
-                              <Button variant="ghost" size="sm">
-                                <MoreVertical className="h-4 w-4" />
-                              </Button>
-                            </DropdownMenuTrigger>
-                            <DropdownMenuContent>
-                              <DropdownMenuItem onClick={() => handleUseTemplate(template)}>
-                                Use Template
-                              </DropdownMenuItem>
-                              <DropdownMenuItem>Edit</DropdownMenuItem>
-                              <DropdownMenuItem className="text-red-600">Delete</DropdownMenuItem>
-                            </DropdownMenuContent>
-                          </DropdownMenu>
-                        </div>
-                      </CardHeader>
-                      <CardContent>
-                        <p className="text-sm text-muted-foreground mb-4 line-clamp-3">{template.content}</p>
-                        <Button size="sm" className="w-full" onClick={() => handleUseTemplate(template)}>
-                          Use Template
-                        </Button>
-                      </CardContent>
-                    </Card>
-                  ))
-                )}
-              </div>
-            </CardContent>
-          </Card>
+          <TemplateLibrary onUseTemplate={handleUseTemplate} />
         </TabsContent>
       </Tabs>
     </div>
@@ -0,0 +1,621 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { toast } from "sonner";
+import { AlertTriangle, Building2, KeyRound, Loader2, Mail, User } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { StatsCardSkeleton } from "@/components/ui/skeletons";
+import { PasswordStrength } from "@/components/password-strength";
+import { TwoFactorSettings } from "@/components/two-factor-settings";
+import { ActiveSessions } from "@/components/active-sessions";
+import { SsoSettings } from "@/components/sso-settings";
+import {
+  getErrorMessage,
+  useChangeEmail,
+  useChangePassword,
+  useCurrentUser,
+  useDeleteOrganization,
+  useUpdateOrganization,
+  useUpdateProfile,
+} from "@/lib/api/hooks";
+import { useAuthStore } from "@/lib/stores/auth";
+import { useUIStore } from "@/lib/stores/ui";
+import { usePermission } from "@/lib/hooks/permissions";
+import { passwordSchema } from "@/lib/password";
+import { DEFAULT_LOCALE, DEFAULT_TIMEZONE, getBrowserTimeZone, getTimeZones, LOCALES } from "@/lib/settings";
+import type { Organization, User as UserType } from "@/lib/api/types";
+
+const profileSchema = z.object({
+  firstName: z.string().trim().min(1, "First name is required"),
+  lastName: z.string().trim().min(1, "Last name is required"),
+});
+
+const emailSchema = z.object({
+  email: z.string().email("Invalid email address"),
+  currentPassword: z.string().min(1, "Enter your current password"),
+});
+
+const changePasswordSchema = z
+  .object({
+    currentPassword: z.string().min(1, "Enter your current password"),
+    newPassword: passwordSchema,
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.newPassword === data.confirmPassword, {
+    message: "Passwords don't match",
+    path: ["confirmPassword"],
+  })
+  .refine((data) => data.newPassword !== data.currentPassword, {
+    message: "Choose a password you haven't used here",
+    path: ["newPassword"],
+  });
+
+const organizationSchema = z.object({
+  name: z.string().trim().min(1, "Organization name is required"),
+  timezone: z.string().min(1),
+  locale: z.string().min(1),
+});
+
+type ProfileForm = z.infer<typeof profileSchema>;
+type EmailForm = z.infer<typeof emailSchema>;
+type PasswordForm = z.infer<typeof changePasswordSchema>;
+type OrganizationForm = z.infer<typeof organizationSchema>;
+
+export default function SettingsPage() {
+  const [activeTab, setActiveTab] = useState("profile");
+  const setAuth = useAuthStore((state) => state.setAuth);
+  const storedUser = useAuthStore((state) => state.user);
+  const storedOrganization = useAuthStore((state) => state.organization);
+
+  const { data: currentUserData, isLoading } = useCurrentUser();
+  const user = currentUserData?.data?.user ?? storedUser;
+  const organization = currentUserData?.data?.organization ?? storedOrganization;
+
+  // Keep the session in sync so the rest of the app shows the saved names
+  useEffect(() => {
+    if (currentUserData?.data) {
+      setAuth(currentUserData.data.user, currentUserData.data.organization);
+    }
+  }, [currentUserData, setAuth]);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Settings</h1>
+        <p className="text-muted-foreground">Manage your account and organization</p>
+      </div>
+
+      <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="profile">Profile</TabsTrigger>
+          <TabsTrigger value="security">Security</TabsTrigger>
+          <TabsTrigger value="organization">Organization</TabsTrigger>
+        </TabsList>
+
+        {isLoading && !user ? (
+          <div className="grid gap-4 md:grid-cols-2">
+            <StatsCardSkeleton />
+            <StatsCardSkeleton />
+          </div>
+        ) : (
+          <>
+            <TabsContent value="profile" className="space-y-4">
+              {user && <ProfileSettings user={user} />}
+            </TabsContent>
+
+            <TabsContent value="security" className="space-y-4">
+              <PasswordSettings />
+              {user && <TwoFactorSettings user={user} />}
+              <ActiveSessions />
+            </TabsContent>
+
+            <TabsContent value="organization" className="space-y-4">
+              {organization && <OrganizationSettings organization={organization} />}
+            </TabsContent>
+          </>
+        )}
+      </Tabs>
+    </div>
+  );
+}
+
+function ProfileSettings({ user }: { user: UserType }) {
+  const { addNotification } = useUIStore();
+  const updateProfileMutation = useUpdateProfile();
+  const changeEmailMutation = useChangeEmail();
+
+  const profileForm = useForm<ProfileForm>({
+    resolver: zodResolver(profileSchema),
+    values: { firstName: user.firstName, lastName: user.lastName },
+  });
+
+  const emailForm = useForm<EmailForm>({
+    resolver: zodResolver(emailSchema),
+    defaultValues: { email: "", currentPassword: "" },
+  });
+
+  const handleUpdateProfile = async (data: ProfileForm) => {
+    try {
+      await updateProfileMutation.mutateAsync(data);
+      toast.success("Profile updated", { description: "Your name has been saved." });
+    } catch (error) {
+      toast.error("Failed to update profile", { description: getErrorMessage(error) });
+    }
+  };
+
+  const handleChangeEmail = async (data: EmailForm) => {
+    if (data.email.toLowerCase() === user.email.toLowerCase()) {
+      emailForm.setError("email", { message: "This is already your email address" });
+      return;
+    }
+
+    try {
+      await changeEmailMutation.mutateAsync(data);
+      toast.success("Check your inbox", {
+        description: `We sent a verification link to ${data.email}. Your email changes once you confirm it.`,
+      });
+      addNotification({
+        type: "info",
+        title: "Email Verification Sent",
+        message: `Confirm ${data.email} to finish changing your email address.`,
+      });
+      emailForm.reset();
+    } catch (error) {
+      const message = getErrorMessage(error);
+      toast.error("Failed to change email", { description: message });
+      addNotification({ type: "error", title: "Email Change Failed", message });
+    }
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <User className="h-5 w-5" />
+            Profile
+          </CardTitle>
+          <CardDescription>Your name as your team sees it</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={profileForm.handleSubmit(handleUpdateProfile)} className="max-w-xl space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="firstName">First name</Label>
+                <Input
+                  id="firstName"
+                  {...profileForm.register("firstName")}
+                  className={profileForm.formState.errors.firstName ? "border-red-500" : ""}
+                />
+                {profileForm.formState.errors.firstName && (
+                  <p className="text-sm text-red-500">{profileForm.formState.errors.firstName.message}</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="lastName">Last name</Label>
+                <Input
+                  id="lastName"
+                  {...profileForm.register("lastName")}
+                  className={profileForm.formState.errors.lastName ? "border-red-500" : ""}
+                />
+                {profileForm.formState.errors.lastName && (
+                  <p className="text-sm text-red-500">{profileForm.formState.errors.lastName.message}</p>
+                )}
+              </div>
+            </div>
+            <Button type="submit" disabled={!profileForm.formState.isDirty || updateProfileMutation.isPending}>
+              {updateProfileMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Save Changes"
+              )}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Mail className="h-5 w-5" />
+            Email Address
+          </CardTitle>
+          <CardDescription>
+            You sign in with <span className="font-medium text-foreground">{user.email}</span>
+            {user.isEmailVerified ? (
+              <Badge className="ml-2 bg-green-100 text-green-800">Verified</Badge>
+            ) : (
+              <Badge className="ml-2 bg-yellow-100 text-yellow-800">Unverified</Badge>
+            )}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {user.pendingEmail && (
+            <div className="flex items-center gap-2 rounded-md border border-blue-200 bg-blue-50 p-3 text-sm text-blue-800">
+              <Mail className="h-4 w-4 shrink-0" />
+              Waiting for you to confirm {user.pendingEmail}. Until then you keep signing in with {user.email}.
+            </div>
+          )}
+          <form onSubmit={emailForm.handleSubmit(handleChangeEmail)} className="max-w-xl space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="newEmail">New email</Label>
+              <Input
+                id="newEmail"
+                type="email"
+                placeholder="you@example.com"
+                {...emailForm.register("email")}
+                className={emailForm.formState.errors.email ? "border-red-500" : ""}
+              />
+              {emailForm.formState.errors.email && (
+                <p className="text-sm text-red-500">{emailForm.formState.errors.email.message}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="emailPassword">Current password</Label>
+              <Input
+                id="emailPassword"
+                type="password"
+                autoComplete="current-password"
+                {...emailForm.register("currentPassword")}
+                className={emailForm.formState.errors.currentPassword ? "border-red-500" : ""}
+              />
+              {emailForm.formState.errors.currentPassword && (
+                <p className="text-sm text-red-500">{emailForm.formState.errors.currentPassword.message}</p>
+              )}
+            </div>
+            <Button type="submit" variant="outline" disabled={changeEmailMutation.isPending}>
+              {changeEmailMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Sending...
+                </>
+              ) : (
+                "Send Verification Link"
+              )}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </>
+  );
+}
+
+function PasswordSettings() {
+  const { addNotification } = useUIStore();
+  const changePasswordMutation = useChangePassword();
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    watch,
+    formState: { errors },
+  } = useForm<PasswordForm>({
+    resolver: zodResolver(changePasswordSchema),
+    defaultValues: { currentPassword: "", newPassword: "", confirmPassword: "" },
+  });
+
+  const handleChangePassword = async (data: PasswordForm) => {
+    try {
+      await changePasswordMutation.mutateAsync({
+        currentPassword: data.currentPassword,
+        newPassword: data.newPassword,
+      });
+      toast.success("Password changed", { description: "Use your new password next time you sign in." });
+      addNotification({
+        type: "success",
+        title: "Password Changed",
+        message: "Your account password was updated.",
+      });
+      reset();
+    } catch (error) {
+      const message = getErrorMessage(error);
+      toast.error("Failed to change password", { description: message });
+      addNotification({ type: "error", title: "Password Change Failed", message });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          Password
+        </CardTitle>
+        <CardDescription>Change the password you sign in with</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit(handleChangePassword)} className="max-w-xl space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="currentPassword">Current password</Label>
+            <Input
+              id="currentPassword"
+              type="password"
+              autoComplete="current-password"
+              {...register("currentPassword")}
+              className={errors.currentPassword ? "border-red-500" : ""}
+            />
+            {errors.currentPassword && <p className="text-sm text-red-500">{errors.currentPassword.message}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="newPassword">New password</Label>
+            <Input
+              id="newPassword"
+              type="password"
+              autoComplete="new-password"
+              {...register("newPassword")}
+              className={errors.newPassword ? "border-red-500" : ""}
+            />
+            {errors.newPassword && <p className="text-sm text-red-500">{errors.newPassword.message}</p>}
+            <PasswordStrength password={watch("newPassword")} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="confirmPassword">Confirm new password</Label>
+            <Input
+              id="confirmPassword"
+              type="password"
+              autoComplete="new-password"
+              {...register("confirmPassword")}
+              className={errors.confirmPassword ? "border-red-500" : ""}
+            />
+            {errors.confirmPassword && <p className="text-sm text-red-500">{errors.confirmPassword.message}</p>}
+          </div>
+          <Button type="submit" disabled={changePasswordMutation.isPending}>
+            {changePasswordMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Changing...
+              </>
+            ) : (
+              "Change Password"
+            )}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+function OrganizationSettings({ organization }: { organization: Organization }) {
+  const [showDelete, setShowDelete] = useState(false);
+  const [confirmName, setConfirmName] = useState("");
+  const [deletePassword, setDeletePassword] = useState("");
+  const router = useRouter();
+  const clearAuth = useAuthStore((state) => state.clearAuth);
+  const { addNotification } = useUIStore();
+  const canManageOrganization = usePermission("organization:manage");
+  const canDeleteOrganization = usePermission("organization:delete");
+
+  const updateOrganizationMutation = useUpdateOrganization();
+  const deleteOrganizationMutation = useDeleteOrganization();
+
+  const timeZones = useMemo(() => getTimeZones(organization.timezone), [organization.timezone]);
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    watch,
+    formState: { errors, isDirty },
+  } = useForm<OrganizationForm>({
+    resolver: zodResolver(organizationSchema),
+    values: {
+      name: organization.name,
+      timezone: organization.timezone || DEFAULT_TIMEZONE,
+      locale: organization.locale || DEFAULT_LOCALE,
+    },
+  });
+
+  const timezone = watch("timezone");
+  const locale = watch("locale");
+  const browserTimeZone = getBrowserTimeZone();
+
+  const handleUpdateOrganization = async (data: OrganizationForm) => {
+    try {
+      await updateOrganizationMutation.mutateAsync(data);
+      toast.success("Organization updated", { description: "Your organization settings have been saved." });
+    } catch (error) {
+      toast.error("Failed to update organization", { description: getErrorMessage(error) });
+    }
+  };
+
+  const closeDeleteDialog = () => {
+    setShowDelete(false);
+    setConfirmName("");
+    setDeletePassword("");
+  };
+
+  const handleDeleteOrganization = async () => {
+    try {
+      await deleteOrganizationMutation.mutateAsync({ password: deletePassword });
+      toast.success("Organization deleted", { description: `${organization.name} and all of its data are gone.` });
+      clearAuth();
+      router.push("/auth/login");
+    } catch (error) {
+      const message = getErrorMessage(error);
+      toast.error("Failed to delete organization", { description: message });
+      addNotification({ type: "error", title: "Deletion Failed", message });
+    }
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Building2 className="h-5 w-5" />
+            Organization
+          </CardTitle>
+          <CardDescription>
+            {canManageOrganization
+              ? "Name and regional settings used for schedules, reports and emails"
+              : "Only admins can change organization settings"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit(handleUpdateOrganization)} className="max-w-xl space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="organizationName">Name</Label>
+              <Input
+                id="organizationName"
+                {...register("name")}
+                disabled={!canManageOrganization}
+                className={errors.name ? "border-red-500" : ""}
+              />
+              {errors.name && <p className="text-sm text-red-500">{errors.name.message}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label>Time zone</Label>
+              <Select
+                value={timezone}
+                onValueChange={(value) => setValue("timezone", value, { shouldDirty: true })}
+                disabled={!canManageOrganization}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="max-h-72">
+                  {timeZones.map((zone) => (
+                    <SelectItem key={zone} value={zone}>
+                      {zone.replace(/_/g, " ")}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {canManageOrganization && timezone !== browserTimeZone && (
+                <Button
+                  type="button"
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0"
+                  onClick={() => setValue("timezone", browserTimeZone, { shouldDirty: true })}
+                >
+                  Use my time zone ({browserTimeZone.replace(/_/g, " ")})
+                </Button>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Language and region</Label>
+              <Select
+                value={locale}
+                onValueChange={(value) => setValue("locale", value, { shouldDirty: true })}
+                disabled={!canManageOrganization}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LOCALES.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {canManageOrganization && (
+              <Button type="submit" disabled={!isDirty || updateOrganizationMutation.isPending}>
+                {updateOrganizationMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  "Save Changes"
+                )}
+              </Button>
+            )}
+          </form>
+        </CardContent>
+      </Card>
+
+      {canManageOrganization && <SsoSettings />}
+
+      {canDeleteOrganization && (
+        <Card className="border-red-200">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-red-600">
+              <AlertTriangle className="h-5 w-5" />
+              Danger Zone
+            </CardTitle>
+            <CardDescription>
+              Deleting the organization removes its devices, messages, campaigns and team, and cancels the subscription.
+              This cannot be undone.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="destructive" onClick={() => setShowDelete(true)}>
+              Delete Organization
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={showDelete} onOpenChange={(open) => !open && closeDeleteDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Organization</DialogTitle>
+            <DialogDescription>
+              This permanently deletes {organization.name} for everyone on the team. Type the organization name and your
+              password to confirm.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="confirmName">Organization name</Label>
+              <Input
+                id="confirmName"
+                value={confirmName}
+                placeholder={organization.name}
+                onChange={(e) => setConfirmName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="deletePassword">Password</Label>
+              <Input
+                id="deletePassword"
+                type="password"
+                autoComplete="current-password"
+                value={deletePassword}
+                onChange={(e) => setDeletePassword(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={closeDeleteDialog}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDeleteOrganization}
+              disabled={confirmName !== organization.name || !deletePassword || deleteOrganizationMutation.isPending}
+            >
+              {deleteOrganizationMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Deleting...
+                </>
+              ) : (
+                "Delete Organization"
+              )}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
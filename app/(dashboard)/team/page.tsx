@@ -0,0 +1,412 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format, isPast } from "date-fns";
+import { toast } from "sonner";
+import { Loader2, Mail, RefreshCw, Trash2, UserPlus, Users, X } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { DeviceTableSkeleton } from "@/components/ui/skeletons";
+import {
+  getErrorMessage,
+  useInviteTeamMember,
+  useRemoveTeamMember,
+  useResendTeamInvitation,
+  useRevokeTeamInvitation,
+  useTeamInvitations,
+  useTeamMembers,
+  useUpdateTeamMember,
+} from "@/lib/api/hooks";
+import { useAuthStore } from "@/lib/stores/auth";
+import { useUIStore } from "@/lib/stores/ui";
+import { canManageMember, getAssignableRoles, getMemberName, TEAM_ROLES } from "@/lib/team";
+import type { TeamMember, TeamRole } from "@/lib/api/types";
+
+const inviteSchema = z.object({
+  email: z.string().email("Invalid email address"),
+  role: z.enum(["admin", "agent", "viewer"]),
+});
+
+type InviteForm = z.infer<typeof inviteSchema>;
+
+const getRoleColor = (role: TeamRole) => {
+  switch (role) {
+    case "owner":
+      return "bg-purple-100 text-purple-800";
+    case "admin":
+      return "bg-blue-100 text-blue-800";
+    case "agent":
+      return "bg-green-100 text-green-800";
+    default:
+      return "bg-gray-100 text-gray-800";
+  }
+};
+
+export default function TeamPage() {
+  const [showInvite, setShowInvite] = useState(false);
+  const [memberToRemove, setMemberToRemove] = useState<TeamMember | null>(null);
+  const { user } = useAuthStore();
+  const { addNotification } = useUIStore();
+
+  const { data: membersData, isLoading: membersLoading } = useTeamMembers();
+
+  const inviteMutation = useInviteTeamMember();
+  const updateMemberMutation = useUpdateTeamMember();
+  const removeMemberMutation = useRemoveTeamMember();
+  const resendInvitationMutation = useResendTeamInvitation();
+  const revokeInvitationMutation = useRevokeTeamInvitation();
+
+  const members = membersData?.data?.members || [];
+  const currentMember = members.find((member) => member.userId === user?.id);
+  const assignableRoles = getAssignableRoles(currentMember?.role);
+  const canInvite = assignableRoles.length > 0;
+
+  // Only admins and owners can see outstanding invitations
+  const { data: invitationsData, isLoading: invitationsLoading } = useTeamInvitations({ enabled: canInvite });
+  const invitations = invitationsData?.data?.invitations || [];
+
+  const inviteForm = useForm<InviteForm>({
+    resolver: zodResolver(inviteSchema),
+    defaultValues: { email: "", role: "agent" },
+  });
+
+  const handleInvite = async (data: InviteForm) => {
+    try {
+      await inviteMutation.mutateAsync(data);
+      toast.success("Invitation sent", {
+        description: `${data.email} has been invited as ${TEAM_ROLES[data.role].label}.`,
+      });
+      addNotification({
+        type: "success",
+        title: "Invitation Sent",
+        message: `An invitation was emailed to ${data.email}.`,
+      });
+      inviteForm.reset();
+      setShowInvite(false);
+    } catch (error) {
+      const message = getErrorMessage(error);
+      toast.error("Failed to send invitation", { description: message });
+      addNotification({ type: "error", title: "Invitation Failed", message });
+    }
+  };
+
+  const handleRoleChange = async (member: TeamMember, role: Exclude<TeamRole, "owner">) => {
+    try {
+      await updateMemberMutation.mutateAsync({ id: member.id, data: { role } });
+      toast.success("Role updated", { description: `${getMemberName(member)} is now ${TEAM_ROLES[role].label}.` });
+    } catch (error) {
+      toast.error("Failed to update role", { description: getErrorMessage(error) });
+    }
+  };
+
+  const handleRemoveMember = async () => {
+    if (!memberToRemove) return;
+
+    try {
+      await removeMemberMutation.mutateAsync(memberToRemove.id);
+      toast.success("Member removed", {
+        description: `${getMemberName(memberToRemove)} no longer has access to this organization.`,
+      });
+      addNotification({
+        type: "success",
+        title: "Member Removed",
+        message: `${getMemberName(memberToRemove)} has been removed from the team.`,
+      });
+      setMemberToRemove(null);
+    } catch (error) {
+      const message = getErrorMessage(error);
+      toast.error("Failed to remove member", { description: message });
+      addNotification({ type: "error", title: "Removal Failed", message });
+    }
+  };
+
+  const handleResendInvitation = async (id: string, email: string) => {
+    try {
+      await resendInvitationMutation.mutateAsync(id);
+      toast.success("Invitation resent", { description: `A new invitation was emailed to ${email}.` });
+    } catch (error) {
+      toast.error("Failed to resend invitation", { description: getErrorMessage(error) });
+    }
+  };
+
+  const handleRevokeInvitation = async (id: string, email: string) => {
+    try {
+      await revokeInvitationMutation.mutateAsync(id);
+      toast.success("Invitation revoked", { description: `${email} can no longer use their invitation.` });
+    } catch (error) {
+      toast.error("Failed to revoke invitation", { description: getErrorMessage(error) });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Team</h1>
+          <p className="text-muted-foreground">Invite people to your organization and manage their roles</p>
+        </div>
+        {canInvite && (
+          <Button onClick={() => setShowInvite(true)}>
+            <UserPlus className="mr-2 h-4 w-4" />
+            Invite Member
+          </Button>
+        )}
+      </div>
+
+      {/* Members */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Members</CardTitle>
+          <CardDescription>
+            {members.length} {members.length === 1 ? "person has" : "people have"} access to this organization
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {membersLoading ? (
+            <DeviceTableSkeleton />
+          ) : members.length === 0 ? (
+            <div className="py-12 text-center">
+              <Users className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-medium">No team members</h3>
+              <p className="text-muted-foreground">Invite your colleagues to start working together</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Member</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Joined</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {members.map((member) => {
+                  const canManage = canManageMember(currentMember, member);
+                  return (
+                    <TableRow key={member.id}>
+                      <TableCell>
+                        <div className="font-medium">
+                          {getMemberName(member)}
+                          {member.userId === user?.id && (
+                            <span className="ml-2 text-xs text-muted-foreground">(you)</span>
+                          )}
+                        </div>
+                        <div className="text-sm text-muted-foreground">{member.email}</div>
+                      </TableCell>
+                      <TableCell>
+                        {canManage ? (
+                          <Select
+                            value={member.role}
+                            onValueChange={(role) => handleRoleChange(member, role as Exclude<TeamRole, "owner">)}
+                            disabled={updateMemberMutation.isPending}
+                          >
+                            <SelectTrigger className="w-32">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {assignableRoles.map((role) => (
+                                <SelectItem key={role} value={role}>
+                                  {TEAM_ROLES[role].label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <Badge className={getRoleColor(member.role)}>{TEAM_ROLES[member.role].label}</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{format(new Date(member.createdAt), "MMM dd, yyyy")}</TableCell>
+                      <TableCell className="text-right">
+                        {canManage && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-red-600"
+                            onClick={() => setMemberToRemove(member)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                            <span className="sr-only">Remove member</span>
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Pending invitations */}
+      {canInvite && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Pending Invitations</CardTitle>
+            <CardDescription>Invitations that haven&apos;t been accepted yet</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {invitationsLoading ? (
+              <DeviceTableSkeleton />
+            ) : invitations.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No pending invitations</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Sent</TableHead>
+                    <TableHead>Expires</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {invitations.map((invitation) => (
+                    <TableRow key={invitation.id}>
+                      <TableCell className="font-medium">
+                        <div className="flex items-center">
+                          <Mail className="mr-2 h-4 w-4 text-muted-foreground" />
+                          {invitation.email}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={getRoleColor(invitation.role)}>{TEAM_ROLES[invitation.role].label}</Badge>
+                      </TableCell>
+                      <TableCell>{format(new Date(invitation.createdAt), "MMM dd, yyyy")}</TableCell>
+                      <TableCell>
+                        {isPast(new Date(invitation.expiresAt)) ? (
+                          <Badge variant="secondary">Expired</Badge>
+                        ) : (
+                          format(new Date(invitation.expiresAt), "MMM dd, yyyy")
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={resendInvitationMutation.isPending}
+                          onClick={() => handleResendInvitation(invitation.id, invitation.email)}
+                        >
+                          <RefreshCw className="h-4 w-4" />
+                          Resend
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-600"
+                          disabled={revokeInvitationMutation.isPending}
+                          onClick={() => handleRevokeInvitation(invitation.id, invitation.email)}
+                        >
+                          <X className="h-4 w-4" />
+                          Revoke
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Invite Modal */}
+      <Dialog open={showInvite} onOpenChange={setShowInvite}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Invite Team Member</DialogTitle>
+            <DialogDescription>They&apos;ll get an email with a link to create their account</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={inviteForm.handleSubmit(handleInvite)} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="invite-email">Email</Label>
+              <Input
+                id="invite-email"
+                type="email"
+                placeholder="colleague@example.com"
+                {...inviteForm.register("email")}
+                className={inviteForm.formState.errors.email ? "border-red-500" : ""}
+              />
+              {inviteForm.formState.errors.email && (
+                <p className="text-sm text-red-500">{inviteForm.formState.errors.email.message}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select
+                value={inviteForm.watch("role")}
+                onValueChange={(role) => inviteForm.setValue("role", role as InviteForm["role"])}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {assignableRoles.map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {TEAM_ROLES[role].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">{TEAM_ROLES[inviteForm.watch("role")].description}</p>
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setShowInvite(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={inviteMutation.isPending}>
+                {inviteMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Sending...
+                  </>
+                ) : (
+                  "Send Invitation"
+                )}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Remove Confirmation Modal */}
+      <Dialog open={!!memberToRemove} onOpenChange={(open) => !open && setMemberToRemove(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Remove Member</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to remove {memberToRemove ? getMemberName(memberToRemove) : "this member"}? They
+              will immediately lose access to this organization.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setMemberToRemove(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleRemoveMember} disabled={removeMemberMutation.isPending}>
+              {removeMemberMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Removing...
+                </>
+              ) : (
+                "Remove"
+              )}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { API_BASE_URL } from "@/lib/api/client";
+import { ErrorCode, type ApiResponse } from "@/lib/api/types";
+import { isTokenExpiredOrExpiringSoon } from "@/lib/jwt";
+import {
+  apiUnavailableResponse,
+  clearRememberedDeviceCookie,
+  clearSessionCookies,
+  errorResponse,
+  getClientIp,
+  getSessionCookies,
+  isPublicEndpoint,
+  refreshSession,
+  REMEMBERED_DEVICE_ENDING_REQUESTS,
+  SESSION_ENDING_REQUESTS,
+  sessionEndedResponse,
+  setRefreshedSessionCookies,
+  setSessionCookies,
+  splitTokens,
+  TOKEN_ENDPOINTS,
+  type SessionTokens,
+} from "@/lib/bff";
+
+type RouteContext = { params: Promise<{ path: string[] }> };
+
+// Request headers passed through to the API, the sessions list relies on the user agent and client IP
+const FORWARDED_HEADERS = ["accept", "accept-language", "content-type", "user-agent"];
+
+// Dot segments, or slashes decoded from %2F, would let the path climb out of API_BASE_URL
+const isUnsafePathSegment = (segment: string) => segment === "." || segment === ".." || /[/\\]/.test(segment);
+
+// Tokens the browser can't send itself anymore are added to the request body here
+const getUpstreamBody = async (
+  request: NextRequest,
+  requestKey: string,
+  refreshToken: string | undefined,
+): Promise<BodyInit | undefined> => {
+  if (request.method === "GET" || request.method === "HEAD") return undefined;
+
+  const { rememberedDeviceToken, organizationId } = getSessionCookies(request);
+  const extraFields =
+    requestKey === "POST /auth/login"
+      ? { rememberedDeviceToken, organizationId }
+      : requestKey === "POST /auth/logout"
+        ? { refreshToken }
+        : null;
+
+  if (!extraFields) return request.arrayBuffer();
+
+  const body = await request.json().catch(() => ({}));
+  return JSON.stringify({ ...body, ...extraFields });
+};
+
+// The refresh token only lives in a cookie, so the BFF answers refreshes itself
+const handleRefresh = async (request: NextRequest) => {
+  const { refreshToken } = getSessionCookies(request);
+  if (!refreshToken) {
+    return errorResponse(401, ErrorCode.INVALID_TOKEN, "No valid refresh token available");
+  }
+
+  const result = await refreshSession(refreshToken);
+  if ("reason" in result) return sessionEndedResponse(result.reason);
+
+  const response = NextResponse.json<ApiResponse>({ success: true, data: result.data });
+  setRefreshedSessionCookies(response, result.tokens);
+  return response;
+};
+
+// Forwards a browser request to the API with the access token from the httpOnly cookie, refreshing it
+// first when it's about to expire and once more if the API rejects it anyway
+async function proxy(request: NextRequest, { params }: RouteContext) {
+  const { path } = await params;
+  if (path.some(isUnsafePathSegment)) {
+    return errorResponse(400, ErrorCode.INVALID_INPUT, "Invalid API path");
+  }
+
+  const endpoint = `/${path.join("/")}`;
+  const requestKey = `${request.method} ${endpoint}`;
+
+  try {
+    if (requestKey === "POST /auth/refresh") return await handleRefresh(request);
+
+    const { accessToken, refreshToken } = getSessionCookies(request);
+    // Only signed-in calls to endpoints that need a session get refreshed
+    const sessionRefreshToken = isPublicEndpoint(endpoint) ? undefined : refreshToken;
+    let refreshedTokens: SessionTokens | null = null;
+
+    if (sessionRefreshToken && isTokenExpiredOrExpiringSoon(accessToken)) {
+      const result = await refreshSession(sessionRefreshToken);
+      if ("reason" in result) return sessionEndedResponse(result.reason);
+      refreshedTokens = result.tokens;
+    }
+
+    const body = await getUpstreamBody(request, requestKey, refreshedTokens?.refreshToken ?? refreshToken);
+    const forward = (token: string | undefined) => {
+      const headers = new Headers();
+      FORWARDED_HEADERS.forEach((name) => {
+        const value = request.headers.get(name);
+        if (value) headers.set(name, value);
+      });
+      // The browser's own x-forwarded-for is never passed on, only the address the proxy saw
+      const clientIp = getClientIp(request);
+      if (clientIp) headers.set("x-forwarded-for", clientIp);
+      if (token) headers.set("Authorization", `Bearer ${token}`);
+
+      return fetch(`${API_BASE_URL}${endpoint}${request.nextUrl.search}`, {
+        method: request.method,
+        headers,
+        body,
+        cache: "no-store",
+      });
+    };
+
+    let upstream = await forward(refreshedTokens?.accessToken ?? accessToken);
+
+    // The access token can be rejected before its expiry, e.g. after a role change
+    if (upstream.status === 401 && sessionRefreshToken && !refreshedTokens) {
+      const result = await refreshSession(sessionRefreshToken);
+      if ("reason" in result) return sessionEndedResponse(result.reason);
+      refreshedTokens = result.tokens;
+      upstream = await forward(refreshedTokens.accessToken);
+    }
+
+    const contentType = upstream.headers.get("content-type");
+    const upstreamBody = upstream.status === 204 ? null : await upstream.arrayBuffer();
+    let responseBody: BodyInit | null = upstreamBody;
+    let issuedTokens: SessionTokens | null = null;
+
+    if (
+      upstreamBody &&
+      TOKEN_ENDPOINTS.includes(endpoint) &&
+      upstream.ok &&
+      contentType?.includes("application/json")
+    ) {
+      const json: ApiResponse = JSON.parse(new TextDecoder().decode(upstreamBody));
+      const { tokens, data } = splitTokens(json.data);
+      issuedTokens = tokens;
+      responseBody = JSON.stringify({ ...json, data });
+    }
+
+    const response = new NextResponse(responseBody, {
+      status: upstream.status,
+      headers: contentType ? { "Content-Type": contentType } : undefined,
+    });
+
+    if (issuedTokens) {
+      setSessionCookies(response, issuedTokens);
+    } else if (refreshedTokens) {
+      setRefreshedSessionCookies(response, refreshedTokens);
+    }
+
+    // Logging out always drops the cookies, even when the API couldn't revoke the token
+    if (SESSION_ENDING_REQUESTS.has(requestKey) && (upstream.ok || requestKey === "POST /auth/logout")) {
+      clearSessionCookies(response);
+    }
+    if (REMEMBERED_DEVICE_ENDING_REQUESTS.has(requestKey) && upstream.ok) {
+      clearRememberedDeviceCookie(response);
+    }
+
+    return response;
+  } catch (error) {
+    return apiUnavailableResponse(error);
+  }
+}
+
+export const GET = proxy;
+export const POST = proxy;
+export const PUT = proxy;
+export const PATCH = proxy;
+export const DELETE = proxy;
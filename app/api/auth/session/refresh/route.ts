@@ -0,0 +1,37 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { clearSessionCookies, getSessionCookies, refreshSession, setSessionCookies } from "@/lib/bff";
+import { verifyJWT } from "@/lib/jwt-verify";
+import { getSafeRedirect, REDIRECT_PARAM } from "@/lib/redirects";
+
+// Refreshes the session for a page navigation the middleware couldn't verify, then sends the browser back to
+// the page. The refresh happens here so it shares refreshSession's in-flight map with the proxy's refreshes
+export async function GET(request: NextRequest) {
+  const redirectTo = getSafeRedirect(request.nextUrl.searchParams.get(REDIRECT_PARAM));
+
+  const loginResponse = () => {
+    const loginUrl = new URL("/auth/login", request.url);
+    loginUrl.searchParams.set(REDIRECT_PARAM, redirectTo);
+    return NextResponse.redirect(loginUrl, 303);
+  };
+
+  const { refreshToken } = getSessionCookies(request);
+  if (!refreshToken) return loginResponse();
+
+  try {
+    const result = await refreshSession(refreshToken);
+    // A token the middleware can't verify either would send the browser straight back here
+    if ("reason" in result || !(await verifyJWT(result.tokens.accessToken))) {
+      const response = loginResponse();
+      clearSessionCookies(response);
+      return response;
+    }
+
+    const response = NextResponse.redirect(new URL(redirectTo, request.url), 303);
+    setSessionCookies(response, result.tokens);
+    return response;
+  } catch (error) {
+    // The API is unreachable, keep the cookies so the next navigation can try again
+    console.error("BFF - session refresh failed:", error);
+    return loginResponse();
+  }
+}
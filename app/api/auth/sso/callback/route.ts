@@ -0,0 +1,97 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { API_BASE_URL } from "@/lib/api/client";
+import { ErrorCode, type ApiResponse, type SsoCallbackRequest } from "@/lib/api/types";
+import {
+  clearSsoStateCookie,
+  getSessionCookies,
+  getSsoStateCookie,
+  setSessionCookies,
+  splitTokens,
+  ssoErrorResponse,
+} from "@/lib/bff";
+import { DEFAULT_REDIRECT, REDIRECT_PARAM } from "@/lib/redirects";
+import { getSsoCallbackUrl, SSO_COMPLETE_PATH } from "@/lib/sso";
+
+interface CallbackParams {
+  state: string | null;
+  code?: string | null;
+  samlResponse?: string | null;
+  // OIDC providers send an error instead of a code when the user couldn't or didn't sign in
+  error?: string | null;
+}
+
+// Exchanges the identity provider's answer for our session, the tokens go straight into the httpOnly cookies
+const handleCallback = async (request: NextRequest, params: CallbackParams) => {
+  const flow = getSsoStateCookie(request);
+  const redirectTo = flow?.redirectTo ?? DEFAULT_REDIRECT;
+
+  if (!flow || params.state !== flow.state) {
+    return ssoErrorResponse(request, "invalid_state", redirectTo);
+  }
+  if (params.error || (!params.code && !params.samlResponse)) {
+    return ssoErrorResponse(request, params.error === "access_denied" ? "access_denied" : "failed", redirectTo);
+  }
+
+  const callbackRequest: SsoCallbackRequest = {
+    state: flow.state,
+    redirectUri: getSsoCallbackUrl(request.nextUrl.origin),
+    code: params.code ?? undefined,
+    samlResponse: params.samlResponse ?? undefined,
+    organizationId: getSessionCookies(request).organizationId,
+  };
+
+  try {
+    const upstream = await fetch(`${API_BASE_URL}/auth/sso/callback`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(callbackRequest),
+      cache: "no-store",
+    });
+
+    if (upstream.status >= 500) {
+      return ssoErrorResponse(request, "unavailable", redirectTo);
+    }
+
+    const body: ApiResponse = await upstream.json();
+    const { tokens } = splitTokens(body.data);
+    if (!upstream.ok || !body.success || !tokens) {
+      const isDenied = body.error?.code === ErrorCode.FORBIDDEN || body.error?.code === ErrorCode.UNAUTHORIZED;
+      return ssoErrorResponse(request, isDenied ? "access_denied" : "failed", redirectTo);
+    }
+
+    const completeUrl = new URL(SSO_COMPLETE_PATH, request.url);
+    if (redirectTo !== DEFAULT_REDIRECT) completeUrl.searchParams.set(REDIRECT_PARAM, redirectTo);
+
+    const response = NextResponse.redirect(completeUrl, 303);
+    setSessionCookies(response, tokens);
+    clearSsoStateCookie(response);
+    return response;
+  } catch (error) {
+    console.error("BFF - SSO callback failed:", error);
+    return ssoErrorResponse(request, "unavailable", redirectTo);
+  }
+};
+
+// OIDC providers redirect back with the code in the query string
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  return handleCallback(request, {
+    state: searchParams.get("state"),
+    code: searchParams.get("code"),
+    error: searchParams.get("error"),
+  });
+}
+
+// SAML providers post the response as a form
+export async function POST(request: NextRequest) {
+  const form = await request.formData().catch(() => null);
+  const getField = (name: string) => {
+    const value = form?.get(name);
+    return typeof value === "string" ? value : null;
+  };
+
+  return handleCallback(request, {
+    state: getField("RelayState"),
+    samlResponse: getField("SAMLResponse"),
+  });
+}
@@ -0,0 +1,47 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { API_BASE_URL } from "@/lib/api/client";
+import type { SsoAuthorizeRequest, SsoAuthorizeResponse } from "@/lib/api/types";
+import { setSsoStateCookie, ssoErrorResponse } from "@/lib/bff";
+import { getSafeRedirect, REDIRECT_PARAM } from "@/lib/redirects";
+import { getEmailDomain, getSsoCallbackUrl } from "@/lib/sso";
+
+// Sends the browser to the identity provider of the email's organization, see getSsoStartUrl
+export async function GET(request: NextRequest) {
+  const email = request.nextUrl.searchParams.get("email");
+  const redirectTo = getSafeRedirect(request.nextUrl.searchParams.get(REDIRECT_PARAM));
+
+  if (!email || !getEmailDomain(email)) {
+    return ssoErrorResponse(request, "invalid_request", redirectTo);
+  }
+
+  const authorizeRequest: SsoAuthorizeRequest = {
+    email,
+    state: crypto.randomUUID(),
+    redirectUri: getSsoCallbackUrl(request.nextUrl.origin),
+  };
+
+  try {
+    const upstream = await fetch(`${API_BASE_URL}/auth/sso/authorize`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(authorizeRequest),
+      cache: "no-store",
+    });
+
+    if (upstream.status >= 500) {
+      return ssoErrorResponse(request, "unavailable", redirectTo);
+    }
+
+    const body: SsoAuthorizeResponse = await upstream.json();
+    if (!upstream.ok || !body.data?.authorizationUrl) {
+      return ssoErrorResponse(request, "invalid_request", redirectTo);
+    }
+
+    const response = NextResponse.redirect(body.data.authorizationUrl, 303);
+    setSsoStateCookie(response, { state: authorizeRequest.state, redirectTo });
+    return response;
+  } catch (error) {
+    console.error("BFF - SSO authorization failed:", error);
+    return ssoErrorResponse(request, "unavailable", redirectTo);
+  }
+}
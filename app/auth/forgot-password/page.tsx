@@ -0,0 +1,130 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ArrowLeft, KeyRound, Loader2, Mail } from "lucide-react";
+import { getErrorMessage, useRequestPasswordReset } from "@/lib/api/hooks";
+import { toast } from "sonner";
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email("Invalid email address"),
+});
+
+type ForgotPasswordForm = z.infer<typeof forgotPasswordSchema>;
+
+export default function ForgotPasswordPage() {
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const requestResetMutation = useRequestPasswordReset();
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ForgotPasswordForm>({
+    resolver: zodResolver(forgotPasswordSchema),
+  });
+
+  const sendResetLink = async (email: string) => {
+    try {
+      await requestResetMutation.mutateAsync({ email });
+      setSentTo(email);
+      return true;
+    } catch (error) {
+      toast.error("Couldn't send reset link", { description: getErrorMessage(error) });
+      return false;
+    }
+  };
+
+  const onSubmit = (data: ForgotPasswordForm) => sendResetLink(data.email);
+
+  const handleResend = async () => {
+    if (!sentTo || !(await sendResetLink(sentTo))) return;
+    toast.success("Reset link sent again", { description: `Check ${sentTo} for the newest link.` });
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-green-50 to-blue-50 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-4">
+            <div className="bg-green-600 p-3 rounded-full">
+              {sentTo ? <Mail className="h-6 w-6 text-white" /> : <KeyRound className="h-6 w-6 text-white" />}
+            </div>
+          </div>
+          <CardTitle className="text-2xl">{sentTo ? "Check your email" : "Forgot password?"}</CardTitle>
+          <CardDescription>
+            {sentTo
+              ? `If an account exists for ${sentTo}, we've sent a link to reset its password. The link expires in 1 hour.`
+              : "Enter the email you sign in with and we'll send you a link to reset your password."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {sentTo ? (
+            <div className="space-y-4">
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={handleResend}
+                disabled={requestResetMutation.isPending}
+              >
+                {requestResetMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Sending...
+                  </>
+                ) : (
+                  "Resend link"
+                )}
+              </Button>
+              <p className="text-center text-sm text-muted-foreground">
+                Wrong address?{" "}
+                <button type="button" className="text-green-600 hover:underline" onClick={() => setSentTo(null)}>
+                  Try another email
+                </button>
+              </p>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="john@example.com"
+                  {...register("email")}
+                  className={errors.email ? "border-red-500" : ""}
+                />
+                {errors.email && <p className="text-sm text-red-500">{errors.email.message}</p>}
+              </div>
+
+              <Button type="submit" className="w-full" disabled={requestResetMutation.isPending}>
+                {requestResetMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Sending link...
+                  </>
+                ) : (
+                  "Send reset link"
+                )}
+              </Button>
+            </form>
+          )}
+
+          <div className="mt-6 text-center text-sm">
+            <Link href="/auth/login" className="inline-flex items-center text-green-600 hover:underline">
+              <ArrowLeft className="mr-1 h-4 w-4" />
+              Back to sign in
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,8 +1,8 @@
 "use client";
 
-import { useState } from "react";
+import { Suspense, useEffect, useState } from "react";
 import Link from "next/link";
-import { useRouter } from "next/navigation";
+import { useRouter, useSearchParams } from "next/navigation";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -11,11 +11,22 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Eye, EyeOff, MessageSquare, Loader2 } from "lucide-react";
-import { useLogin } from "@/lib/api/hooks";
+import { Eye, EyeOff, KeyRound, MessageSquare, Loader2, ShieldCheck } from "lucide-react";
+import {
+  getErrorCode,
+  getErrorMessage,
+  isMfaChallenge,
+  useLogin,
+  useSsoDiscovery,
+  useVerifyMfa,
+} from "@/lib/api/hooks";
 import { useAuthStore } from "@/lib/stores/auth";
 import { useUIStore } from "@/lib/stores/ui";
 import { toast } from "sonner";
+import { ErrorCode, type Organization, type User } from "@/lib/api/types";
+import { getSafeRedirect, REDIRECT_PARAM, withRedirect } from "@/lib/redirects";
+import { authChannel } from "@/lib/auth-channel";
+import { getEmailDomain, getSsoErrorMessage, getSsoStartUrl, SSO_ERROR_PARAM } from "@/lib/sso";
 
 const loginSchema = z.object({
   email: z.string().email("Invalid email address"),
@@ -25,16 +36,44 @@ const loginSchema = z.object({
 
 type LoginForm = z.infer<typeof loginSchema>;
 
+const mfaSchema = z.object({
+  code: z.string().trim().min(1, "Enter a code"),
+  rememberDevice: z.boolean().optional(),
+});
+
+type MfaForm = z.infer<typeof mfaSchema>;
+
+// useSearchParams needs a Suspense boundary on statically rendered pages
 export default function LoginPage() {
+  return (
+    <Suspense>
+      <LoginContent />
+    </Suspense>
+  );
+}
+
+function LoginContent() {
   const [showPassword, setShowPassword] = useState(false);
+  // Set when the password was right but the account still needs its second factor
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  // Looked up once the email field is left, so typing doesn't query every partial domain
+  const [emailDomain, setEmailDomain] = useState<string | null>(null);
+  const [isRedirectingToSso, setIsRedirectingToSso] = useState(false);
   const router = useRouter();
   const setAuth = useAuthStore((state) => state.setAuth);
   const addNotification = useUIStore((state) => state.addNotification);
 
   const loginMutation = useLogin();
+  const verifyMfaMutation = useVerifyMfa();
+
+  const searchParams = useSearchParams();
+  // Set by the middleware when a signed-out visitor opened a page, or carried over from the register page
+  const redirectTo = searchParams.get(REDIRECT_PARAM);
+  // Set by the BFF when a single sign-on attempt failed
+  const ssoError = searchParams.get(SSO_ERROR_PARAM);
 
-  // Get redirect parameter from URL
-  const searchParams = new URLSearchParams(typeof window !== "undefined" ? window.location.search : "");
+  const { data: ssoDiscoveryData } = useSsoDiscovery(emailDomain);
 
   const {
     register,
@@ -50,6 +89,44 @@ export default function LoginPage() {
   });
 
   const rememberMe = watch("rememberMe");
+  const email = watch("email");
+  // Only for the domain that was looked up, the email may have been changed since
+  const ssoConnection = getEmailDomain(email) === emailDomain ? (ssoDiscoveryData?.data?.connection ?? null) : null;
+
+  useEffect(() => {
+    if (!ssoError) return;
+    // The id keeps strict mode from showing it twice
+    toast.error("Single sign-on failed", { id: "sso-error", description: getSsoErrorMessage(ssoError) });
+  }, [ssoError]);
+
+  const startSso = (ssoEmail: string) => {
+    setIsRedirectingToSso(true);
+    window.location.assign(getSsoStartUrl(ssoEmail, redirectTo));
+  };
+
+  const mfaForm = useForm<MfaForm>({
+    resolver: zodResolver(mfaSchema),
+    defaultValues: { code: "", rememberDevice: false },
+  });
+  const rememberDevice = mfaForm.watch("rememberDevice");
+
+  const completeLogin = (user: User, organization: Organization) => {
+    setAuth(user, organization);
+    authChannel.post({ type: "login", userId: user.id });
+
+    toast.success("Welcome back!", {
+      description: `Logged in as ${user.firstName} ${user.lastName}`,
+    });
+
+    addNotification({
+      type: "success",
+      title: "Login Successful",
+      message: `Welcome back, ${user.firstName}!`,
+    });
+
+    // Redirect to the intended page or dashboard
+    router.push(getSafeRedirect(redirectTo));
+  };
 
   const onSubmit = async (data: LoginForm) => {
     try {
@@ -58,33 +135,21 @@ export default function LoginPage() {
         password: data.password,
       });
 
-      console.log("Login response:", response);
-      if (response) {
-        console.log("Access token:", response.accessToken);
-        console.log("Refresh token:", response.refreshToken);
-
-        setAuth(response.user, response.organization);
-
-        // Debug: Check if cookies are set
-        setTimeout(() => {
-          console.log("Cookies after login:", document.cookie);
-        }, 100);
-
-        toast.success("Welcome back!", {
-          description: `Logged in as ${response.user.firstName} ${response.user.lastName}`,
-        });
-
-        addNotification({
-          type: "success",
-          title: "Login Successful",
-          message: `Welcome back, ${response.user.firstName}!`,
-        });
+      if (isMfaChallenge(response.data)) {
+        setMfaToken(response.data.mfaToken);
+        return;
+      }
 
-        // Redirect to the intended page or dashboard
-        const redirectTo = searchParams.get("redirect") || "/dashboard";
-        router.push(redirectTo);
+      if (response.data) {
+        completeLogin(response.data.user, response.data.organization);
       }
     } catch (error) {
+      // The organization turned password sign-in off for this domain after the email was looked up
+      if (getErrorCode(error) === ErrorCode.SSO_REQUIRED) {
+        startSso(data.email);
+        return;
+      }
+
       const message = error instanceof Error ? error.message : "Login failed";
       toast.error("Login failed", {
         description: message,
@@ -98,6 +163,116 @@ export default function LoginPage() {
     }
   };
 
+  const cancelMfa = () => {
+    setMfaToken(null);
+    setUseRecoveryCode(false);
+    mfaForm.reset();
+  };
+
+  const onSubmitMfa = async (data: MfaForm) => {
+    if (!mfaToken) return;
+
+    try {
+      const response = await verifyMfaMutation.mutateAsync({
+        mfaToken,
+        code: useRecoveryCode ? data.code : data.code.replace(/\s/g, ""),
+        method: useRecoveryCode ? "recovery" : "totp",
+        rememberDevice: data.rememberDevice,
+      });
+
+      if (response.data) {
+        completeLogin(response.data.user, response.data.organization);
+      }
+    } catch (error) {
+      // The challenge is short-lived, once it expires the password has to be entered again
+      if (getErrorCode(error) === ErrorCode.TOKEN_EXPIRED) {
+        toast.error("Sign-in timed out", { description: "Enter your password again to continue." });
+        cancelMfa();
+        return;
+      }
+      mfaForm.setError("code", { message: getErrorMessage(error) });
+    }
+  };
+
+  if (mfaToken) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-green-50 to-blue-50 p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <div className="flex justify-center mb-4">
+              <div className="bg-green-600 p-3 rounded-full">
+                <ShieldCheck className="h-6 w-6 text-white" />
+              </div>
+            </div>
+            <CardTitle className="text-2xl">Two-factor authentication</CardTitle>
+            <CardDescription>
+              {useRecoveryCode
+                ? "Enter one of the recovery codes you saved when you turned on two-factor authentication."
+                : "Enter the 6-digit code from your authenticator app."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={mfaForm.handleSubmit(onSubmitMfa)} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="code">{useRecoveryCode ? "Recovery code" : "Authentication code"}</Label>
+                <Input
+                  id="code"
+                  autoFocus
+                  autoComplete="one-time-code"
+                  inputMode={useRecoveryCode ? "text" : "numeric"}
+                  placeholder={useRecoveryCode ? "xxxx-xxxx" : "123456"}
+                  {...mfaForm.register("code")}
+                  className={mfaForm.formState.errors.code ? "border-red-500" : ""}
+                />
+                {mfaForm.formState.errors.code && (
+                  <p className="text-sm text-red-500">{mfaForm.formState.errors.code.message}</p>
+                )}
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="rememberDevice"
+                  checked={rememberDevice}
+                  onCheckedChange={(checked) => mfaForm.setValue("rememberDevice", checked as boolean)}
+                />
+                <Label htmlFor="rememberDevice" className="text-sm">
+                  Don&apos;t ask again on this browser for 30 days
+                </Label>
+              </div>
+
+              <Button type="submit" className="w-full" disabled={verifyMfaMutation.isPending}>
+                {verifyMfaMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Verifying...
+                  </>
+                ) : (
+                  "Verify"
+                )}
+              </Button>
+            </form>
+
+            <div className="mt-6 flex items-center justify-between text-sm">
+              <button
+                type="button"
+                className="text-green-600 hover:underline"
+                onClick={() => {
+                  setUseRecoveryCode(!useRecoveryCode);
+                  mfaForm.reset({ code: "", rememberDevice });
+                }}
+              >
+                {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+              </button>
+              <button type="button" className="text-muted-foreground hover:underline" onClick={cancelMfa}>
+                Back to sign in
+              </button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-green-50 to-blue-50 p-4">
       <Card className="w-full max-w-md">
@@ -111,73 +286,116 @@ export default function LoginPage() {
           <CardDescription>Sign in to your Messager account</CardDescription>
         </CardHeader>
         <CardContent>
-          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <form
+            onSubmit={
+              ssoConnection?.enforced
+                ? (event) => {
+                    event.preventDefault();
+                    startSso(email);
+                  }
+                : handleSubmit(onSubmit)
+            }
+            className="space-y-4"
+          >
             <div className="space-y-2">
               <Label htmlFor="email">Email</Label>
               <Input
                 id="email"
                 type="email"
                 placeholder="john@example.com"
-                {...register("email")}
+                {...register("email", { onBlur: (event) => setEmailDomain(getEmailDomain(event.target.value)) })}
                 className={errors.email ? "border-red-500" : ""}
               />
               {errors.email && <p className="text-sm text-red-500">{errors.email.message}</p>}
             </div>
 
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <Label htmlFor="password">Password</Label>
-                <Link href="/auth/forgot-password" className="text-sm text-green-600 hover:underline">
-                  Forgot password?
-                </Link>
-              </div>
-              <div className="relative">
-                <Input
-                  id="password"
-                  type={showPassword ? "text" : "password"}
-                  placeholder="Enter your password"
-                  {...register("password")}
-                  className={errors.password ? "border-red-500" : ""}
-                />
+            {ssoConnection && (
+              <div className="space-y-3 rounded-md border p-3">
+                <p className="text-sm text-muted-foreground">
+                  {ssoConnection.enforced
+                    ? `${ssoConnection.organizationName} requires signing in with single sign-on.`
+                    : `${ssoConnection.organizationName} uses single sign-on.`}
+                </p>
                 <Button
                   type="button"
-                  variant="ghost"
-                  size="sm"
-                  className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
-                  onClick={() => setShowPassword(!showPassword)}
+                  variant={ssoConnection.enforced ? "default" : "outline"}
+                  className="w-full"
+                  onClick={() => startSso(email)}
+                  disabled={isRedirectingToSso}
                 >
-                  {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                  {isRedirectingToSso ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Redirecting...
+                    </>
+                  ) : (
+                    <>
+                      <KeyRound className="mr-2 h-4 w-4" />
+                      Continue with SSO
+                    </>
+                  )}
                 </Button>
               </div>
-              {errors.password && <p className="text-sm text-red-500">{errors.password.message}</p>}
-            </div>
+            )}
 
-            <div className="flex items-center space-x-2">
-              <Checkbox
-                id="rememberMe"
-                checked={rememberMe}
-                onCheckedChange={(checked) => setValue("rememberMe", checked as boolean)}
-              />
-              <Label htmlFor="rememberMe" className="text-sm">
-                Remember me
-              </Label>
-            </div>
+            {!ssoConnection?.enforced && (
+              <>
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="password">Password</Label>
+                    <Link href="/auth/forgot-password" className="text-sm text-green-600 hover:underline">
+                      Forgot password?
+                    </Link>
+                  </div>
+                  <div className="relative">
+                    <Input
+                      id="password"
+                      type={showPassword ? "text" : "password"}
+                      placeholder="Enter your password"
+                      {...register("password")}
+                      className={errors.password ? "border-red-500" : ""}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
+                      onClick={() => setShowPassword(!showPassword)}
+                    >
+                      {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                  {errors.password && <p className="text-sm text-red-500">{errors.password.message}</p>}
+                </div>
+
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="rememberMe"
+                    checked={rememberMe}
+                    onCheckedChange={(checked) => setValue("rememberMe", checked as boolean)}
+                  />
+                  <Label htmlFor="rememberMe" className="text-sm">
+                    Remember me
+                  </Label>
+                </div>
 
-            <Button type="submit" className="w-full" disabled={isSubmitting || loginMutation.isPending}>
-              {isSubmitting || loginMutation.isPending ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Signing in...
-                </>
-              ) : (
-                "Sign in"
-              )}
-            </Button>
+                <Button type="submit" className="w-full" disabled={isSubmitting || loginMutation.isPending}>
+                  {isSubmitting || loginMutation.isPending ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Signing in...
+                    </>
+                  ) : (
+                    "Sign in"
+                  )}
+                </Button>
+              </>
+            )}
           </form>
 
           <div className="mt-6 text-center text-sm">
             Don't have an account?{" "}
-            <Link href="/auth/register" className="text-green-600 hover:underline">
+            <Link href={withRedirect("/auth/register", redirectTo)} className="text-green-600 hover:underline">
               Sign up
             </Link>
           </div>
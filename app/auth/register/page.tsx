@@ -1,8 +1,8 @@
 "use client";
 
-import { useState } from "react";
+import { Suspense, useEffect, useState } from "react";
 import Link from "next/link";
-import { useRouter } from "next/navigation";
+import { useRouter, useSearchParams } from "next/navigation";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -11,30 +11,57 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Eye, EyeOff, MessageSquare, Loader2 } from "lucide-react";
-import { useRegister } from "@/lib/api/hooks";
+import { Eye, EyeOff, MessageSquare, Loader2, Mail, AlertCircle } from "lucide-react";
+import { useInvitation, useRegister } from "@/lib/api/hooks";
 import { useAuthStore } from "@/lib/stores/auth";
 import { useUIStore } from "@/lib/stores/ui";
+import { TEAM_ROLES } from "@/lib/team";
+import { passwordSchema } from "@/lib/password";
+import { PasswordStrength } from "@/components/password-strength";
+import { DEFAULT_REDIRECT, getSafeRedirect, REDIRECT_PARAM, withRedirect } from "@/lib/redirects";
+import { authChannel } from "@/lib/auth-channel";
 import { toast } from "sonner";
 
-const registerSchema = z.object({
-  email: z.string().email("Invalid email address"),
-  password: z.string().min(8, "Password must be at least 8 characters"),
-  firstName: z.string().min(1, "First name is required"),
-  lastName: z.string().min(1, "Last name is required"),
-  organizationName: z.string().min(1, "Organization name is required"),
-  acceptTerms: z.boolean().refine((val) => val === true, "You must accept the terms"),
-});
+// Invited users join the inviting organization, so they don't name a new one
+const registerSchema = z
+  .object({
+    email: z.string().email("Invalid email address"),
+    password: passwordSchema,
+    firstName: z.string().min(1, "First name is required"),
+    lastName: z.string().min(1, "Last name is required"),
+    organizationName: z.string(),
+    invitationToken: z.string().optional(),
+    acceptTerms: z.boolean().refine((val) => val === true, "You must accept the terms"),
+  })
+  .refine((data) => data.invitationToken || data.organizationName.trim(), {
+    message: "Organization name is required",
+    path: ["organizationName"],
+  });
 
 type RegisterForm = z.infer<typeof registerSchema>;
 
+// useSearchParams needs a Suspense boundary on statically rendered pages
 export default function RegisterPage() {
+  return (
+    <Suspense>
+      <RegisterContent />
+    </Suspense>
+  );
+}
+
+function RegisterContent() {
   const [showPassword, setShowPassword] = useState(false);
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const inviteToken = searchParams.get("invite") || "";
+  const redirectTo = getSafeRedirect(searchParams.get(REDIRECT_PARAM));
   const setAuth = useAuthStore((state) => state.setAuth);
   const addNotification = useUIStore((state) => state.addNotification);
 
   const registerMutation = useRegister();
+  const { data: invitationData, isLoading: isInvitationLoading, error: invitationError } = useInvitation(inviteToken);
+  const invitation = invitationData?.data?.invitation;
+  const invitedOrganization = invitationData?.data?.organization;
 
   const {
     register,
@@ -45,11 +72,21 @@ export default function RegisterPage() {
   } = useForm<RegisterForm>({
     resolver: zodResolver(registerSchema),
     defaultValues: {
+      organizationName: "",
       acceptTerms: false,
     },
   });
 
   const acceptTerms = watch("acceptTerms");
+  const password = watch("password");
+
+  // The account must be created with the address the invitation was sent to
+  const invitedEmail = invitation?.email;
+  useEffect(() => {
+    if (!invitedEmail) return;
+    setValue("email", invitedEmail);
+    setValue("invitationToken", inviteToken);
+  }, [invitedEmail, inviteToken, setValue]);
 
   const onSubmit = async (data: RegisterForm) => {
     try {
@@ -58,14 +95,21 @@ export default function RegisterPage() {
         password: data.password,
         firstName: data.firstName,
         lastName: data.lastName,
-        organizationName: data.organizationName,
+        ...(data.invitationToken
+          ? { invitationToken: data.invitationToken }
+          : { organizationName: data.organizationName }),
+        // The verification email brings them back to the page they were headed to
+        ...(redirectTo !== DEFAULT_REDIRECT && { redirectTo }),
       });
 
       if (response) {
         setAuth(response.data?.user, response.data?.organization);
+        if (response.data) authChannel.post({ type: "login", userId: response.data.user.id });
 
         toast.success("Account created successfully!", {
-          description: "Welcome to Messager! Let's get you started.",
+          description: invitedOrganization
+            ? `You've joined ${invitedOrganization.name}.`
+            : "Welcome to Messager! Let's get you started.",
         });
 
         addNotification({
@@ -74,7 +118,7 @@ export default function RegisterPage() {
           message: "Your account has been created successfully.",
         });
 
-        router.push("/dashboard");
+        router.push(redirectTo);
       }
     } catch (error) {
       const message = error instanceof Error ? error.message : "Registration failed";
@@ -103,6 +147,28 @@ export default function RegisterPage() {
           <CardDescription>Get started with WhatsApp Business API</CardDescription>
         </CardHeader>
         <CardContent>
+          {inviteToken && (
+            <div className="mb-4">
+              {isInvitationLoading ? (
+                <div className="flex items-center gap-2 rounded-md border p-3 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Checking your invitation...
+                </div>
+              ) : invitation && invitedOrganization ? (
+                <div className="flex items-center gap-2 rounded-md border border-green-200 bg-green-50 p-3 text-sm text-green-800">
+                  <Mail className="h-4 w-4 shrink-0" />
+                  You&apos;ve been invited to join {invitedOrganization.name} as {TEAM_ROLES[invitation.role].label}.
+                </div>
+              ) : (
+                <div className="flex items-center gap-2 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+                  <AlertCircle className="h-4 w-4 shrink-0" />
+                  {invitationError?.message || "This invitation is invalid or has expired."} You can still create your
+                  own organization below.
+                </div>
+              )}
+            </div>
+          )}
+
           <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
@@ -133,22 +199,25 @@ export default function RegisterPage() {
                 id="email"
                 type="email"
                 placeholder="john@example.com"
+                readOnly={!!invitedEmail}
                 {...register("email")}
                 className={errors.email ? "border-red-500" : ""}
               />
               {errors.email && <p className="text-sm text-red-500">{errors.email.message}</p>}
             </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="organizationName">Organization</Label>
-              <Input
-                id="organizationName"
-                placeholder="Your company name"
-                {...register("organizationName")}
-                className={errors.organizationName ? "border-red-500" : ""}
-              />
-              {errors.organizationName && <p className="text-sm text-red-500">{errors.organizationName.message}</p>}
-            </div>
+            {!invitation && (
+              <div className="space-y-2">
+                <Label htmlFor="organizationName">Organization</Label>
+                <Input
+                  id="organizationName"
+                  placeholder="Your company name"
+                  {...register("organizationName")}
+                  className={errors.organizationName ? "border-red-500" : ""}
+                />
+                {errors.organizationName && <p className="text-sm text-red-500">{errors.organizationName.message}</p>}
+              </div>
+            )}
 
             <div className="space-y-2">
               <Label htmlFor="password">Password</Label>
@@ -171,6 +240,7 @@ export default function RegisterPage() {
                 </Button>
               </div>
               {errors.password && <p className="text-sm text-red-500">{errors.password.message}</p>}
+              <PasswordStrength password={password || ""} />
             </div>
 
             <div className="flex items-center space-x-2">
@@ -206,7 +276,7 @@ export default function RegisterPage() {
 
           <div className="mt-6 text-center text-sm">
             Already have an account?{" "}
-            <Link href="/auth/login" className="text-green-600 hover:underline">
+            <Link href={withRedirect("/auth/login", redirectTo)} className="text-green-600 hover:underline">
               Sign in
             </Link>
           </div>
@@ -0,0 +1,194 @@
+"use client";
+
+import { Suspense, useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AlertCircle, Eye, EyeOff, KeyRound, Loader2 } from "lucide-react";
+import { getErrorMessage, usePasswordResetToken, useResetPassword } from "@/lib/api/hooks";
+import { getLinkProblem, isLinkError, type LinkProblem } from "@/lib/email-links";
+import { passwordSchema } from "@/lib/password";
+import { PasswordStrength } from "@/components/password-strength";
+import { useUIStore } from "@/lib/stores/ui";
+import { toast } from "sonner";
+
+const resetPasswordSchema = z
+  .object({
+    password: passwordSchema,
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Passwords don't match",
+    path: ["confirmPassword"],
+  });
+
+type ResetPasswordForm = z.infer<typeof resetPasswordSchema>;
+
+const LINK_PROBLEMS: Record<LinkProblem, { title: string; description: string }> = {
+  missing: {
+    title: "Reset link is incomplete",
+    description: "Open the link from your email again, or request a new one.",
+  },
+  expired: {
+    title: "Reset link has expired",
+    description: "Reset links are valid for 1 hour. Request a new one to choose a password.",
+  },
+  used: {
+    title: "Reset link was already used",
+    description: "Each link works once. If you didn't change your password, request a new link.",
+  },
+  invalid: {
+    title: "Reset link is invalid",
+    description: "This link isn't valid anymore. Request a new one to choose a password.",
+  },
+};
+
+// useSearchParams needs a Suspense boundary on statically rendered pages
+export default function ResetPasswordPage() {
+  return (
+    <Suspense>
+      <ResetPasswordContent />
+    </Suspense>
+  );
+}
+
+function ResetPasswordContent() {
+  const [showPassword, setShowPassword] = useState(false);
+  // Set when submitting reveals the token went stale after the page loaded
+  const [submitProblem, setSubmitProblem] = useState<LinkProblem | null>(null);
+  const router = useRouter();
+  const token = useSearchParams().get("token") || "";
+  const addNotification = useUIStore((state) => state.addNotification);
+
+  const { data: tokenData, isLoading: isTokenLoading, error: tokenError } = usePasswordResetToken(token);
+  const resetPasswordMutation = useResetPassword();
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors },
+  } = useForm<ResetPasswordForm>({
+    resolver: zodResolver(resetPasswordSchema),
+  });
+
+  const password = watch("password");
+  const problem: LinkProblem | null = !token ? "missing" : tokenError ? getLinkProblem(tokenError) : submitProblem;
+
+  const onSubmit = async (data: ResetPasswordForm) => {
+    try {
+      await resetPasswordMutation.mutateAsync({ token, password: data.password });
+
+      toast.success("Password reset", { description: "Sign in with your new password." });
+      addNotification({
+        type: "success",
+        title: "Password Reset",
+        message: "Your password was changed. Sign in again to continue.",
+      });
+
+      router.push("/auth/login");
+    } catch (error) {
+      if (isLinkError(error)) {
+        setSubmitProblem(getLinkProblem(error));
+        return;
+      }
+      toast.error("Password reset failed", { description: getErrorMessage(error) });
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-green-50 to-blue-50 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-4">
+            <div className={`p-3 rounded-full ${problem ? "bg-red-600" : "bg-green-600"}`}>
+              {problem ? <AlertCircle className="h-6 w-6 text-white" /> : <KeyRound className="h-6 w-6 text-white" />}
+            </div>
+          </div>
+          <CardTitle className="text-2xl">{problem ? LINK_PROBLEMS[problem].title : "Choose a new password"}</CardTitle>
+          <CardDescription>
+            {problem
+              ? LINK_PROBLEMS[problem].description
+              : tokenData?.data?.email
+                ? `Resetting the password for ${tokenData.data.email}`
+                : "Checking your reset link..."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {problem ? (
+            <Button className="w-full" asChild>
+              <Link href="/auth/forgot-password">Request a new link</Link>
+            </Button>
+          ) : isTokenLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="password">New password</Label>
+                <div className="relative">
+                  <Input
+                    id="password"
+                    type={showPassword ? "text" : "password"}
+                    autoComplete="new-password"
+                    placeholder="Create a password"
+                    {...register("password")}
+                    className={errors.password ? "border-red-500" : ""}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
+                    onClick={() => setShowPassword(!showPassword)}
+                  >
+                    {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                  </Button>
+                </div>
+                {errors.password && <p className="text-sm text-red-500">{errors.password.message}</p>}
+                <PasswordStrength password={password || ""} />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword">Confirm password</Label>
+                <Input
+                  id="confirmPassword"
+                  type={showPassword ? "text" : "password"}
+                  autoComplete="new-password"
+                  {...register("confirmPassword")}
+                  className={errors.confirmPassword ? "border-red-500" : ""}
+                />
+                {errors.confirmPassword && <p className="text-sm text-red-500">{errors.confirmPassword.message}</p>}
+              </div>
+
+              <Button type="submit" className="w-full" disabled={resetPasswordMutation.isPending}>
+                {resetPasswordMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Resetting password...
+                  </>
+                ) : (
+                  "Reset password"
+                )}
+              </Button>
+            </form>
+          )}
+
+          <div className="mt-6 text-center text-sm">
+            Remembered it?{" "}
+            <Link href="/auth/login" className="text-green-600 hover:underline">
+              Sign in
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { Suspense, useEffect, useRef } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { toast } from "sonner";
+import { AlertCircle, KeyRound, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { getErrorMessage, useCurrentUser } from "@/lib/api/hooks";
+import { useAuthStore } from "@/lib/stores/auth";
+import { useUIStore } from "@/lib/stores/ui";
+import { authChannel } from "@/lib/auth-channel";
+import { getSafeRedirect, REDIRECT_PARAM } from "@/lib/redirects";
+
+// useSearchParams needs a Suspense boundary on statically rendered pages
+export default function SsoCompletePage() {
+  return (
+    <Suspense>
+      <SsoCompleteContent />
+    </Suspense>
+  );
+}
+
+// The SSO callback lands here with the session cookies set, this loads the account like a password sign-in would
+function SsoCompleteContent() {
+  const router = useRouter();
+  const redirectTo = getSafeRedirect(useSearchParams().get(REDIRECT_PARAM));
+  const setAuth = useAuthStore((state) => state.setAuth);
+  const addNotification = useUIStore((state) => state.addNotification);
+  const { data, error, refetch, isFetching } = useCurrentUser();
+  // Strict mode runs effects twice, greet and announce the sign-in once
+  const hasCompletedRef = useRef(false);
+
+  useEffect(() => {
+    const session = data?.data;
+    if (!session || hasCompletedRef.current) return;
+    hasCompletedRef.current = true;
+
+    setAuth(session.user, session.organization);
+    authChannel.post({ type: "login", userId: session.user.id });
+
+    toast.success("Welcome back!", {
+      description: `Logged in as ${session.user.firstName} ${session.user.lastName}`,
+    });
+
+    addNotification({
+      type: "success",
+      title: "Login Successful",
+      message: `Welcome back, ${session.user.firstName}!`,
+    });
+
+    router.replace(redirectTo);
+  }, [data, setAuth, addNotification, router, redirectTo]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-green-50 to-blue-50 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-4">
+            <div className={`p-3 rounded-full ${error ? "bg-red-600" : "bg-green-600"}`}>
+              {error ? <AlertCircle className="h-6 w-6 text-white" /> : <KeyRound className="h-6 w-6 text-white" />}
+            </div>
+          </div>
+          <CardTitle className="text-2xl">{error ? "Couldn't load your account" : "Signing you in"}</CardTitle>
+          <CardDescription>{error ? getErrorMessage(error) : "This only takes a moment..."}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {error && !isFetching ? (
+            <Button className="w-full" onClick={() => refetch()}>
+              Try again
+            </Button>
+          ) : (
+            <div className="flex justify-center py-2">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
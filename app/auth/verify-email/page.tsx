@@ -0,0 +1,134 @@
+"use client";
+
+import { Suspense, useCallback, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { AlertCircle, CheckCircle2, Loader2, MailCheck } from "lucide-react";
+import { getErrorMessage, useVerifyEmail } from "@/lib/api/hooks";
+import { getLinkProblem, isLinkError, type LinkProblem } from "@/lib/email-links";
+import { useAuthStore } from "@/lib/stores/auth";
+import { DEFAULT_REDIRECT, getSafeRedirect, REDIRECT_PARAM } from "@/lib/redirects";
+
+const LINK_PROBLEMS: Record<LinkProblem, { title: string; description: string }> = {
+  missing: {
+    title: "Verification link is incomplete",
+    description: "Open the link from your email again.",
+  },
+  expired: {
+    title: "Verification link has expired",
+    description: "Sign in and use the banner at the top of the dashboard to send a new one.",
+  },
+  used: {
+    title: "Email already verified",
+    description: "This link was already used, so there's nothing left to do.",
+  },
+  invalid: {
+    title: "Verification link is invalid",
+    description: "Sign in and use the banner at the top of the dashboard to send a new one.",
+  },
+};
+
+// useSearchParams needs a Suspense boundary on statically rendered pages
+export default function VerifyEmailPage() {
+  return (
+    <Suspense>
+      <VerifyEmailContent />
+    </Suspense>
+  );
+}
+
+function VerifyEmailContent() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token") || "";
+  // Links from registration carry the page the user was headed to before signing up
+  const redirectTo = getSafeRedirect(searchParams.get(REDIRECT_PARAM));
+  const [problem, setProblem] = useState<LinkProblem | null>(token ? null : "missing");
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [verifiedEmail, setVerifiedEmail] = useState<string | null>(null);
+  const hasUser = useAuthStore((state) => !!state.user);
+  const updateUser = useAuthStore((state) => state.updateUser);
+  const verifyEmailMutation = useVerifyEmail();
+  const { mutateAsync: verifyEmail } = verifyEmailMutation;
+  // Tokens are single use, make sure a re-render or strict mode double effect doesn't spend it twice
+  const attemptedTokenRef = useRef<string | null>(null);
+
+  const verify = useCallback(async () => {
+    setErrorMessage(null);
+    try {
+      const response = await verifyEmail({ token });
+      const user = response.data?.user;
+      if (user) {
+        setVerifiedEmail(user.email);
+        if (hasUser) updateUser(user);
+      }
+    } catch (error) {
+      if (isLinkError(error)) {
+        setProblem(getLinkProblem(error));
+      } else {
+        setErrorMessage(getErrorMessage(error));
+      }
+    }
+  }, [token, hasUser, updateUser, verifyEmail]);
+
+  useEffect(() => {
+    if (!token || attemptedTokenRef.current === token) return;
+    attemptedTokenRef.current = token;
+    void verify();
+  }, [token, verify]);
+
+  const isVerified = !!verifiedEmail || problem === "used";
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-green-50 to-blue-50 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-4">
+            <div className={`p-3 rounded-full ${problem && !isVerified ? "bg-red-600" : "bg-green-600"}`}>
+              {isVerified ? (
+                <CheckCircle2 className="h-6 w-6 text-white" />
+              ) : problem || errorMessage ? (
+                <AlertCircle className="h-6 w-6 text-white" />
+              ) : (
+                <MailCheck className="h-6 w-6 text-white" />
+              )}
+            </div>
+          </div>
+          <CardTitle className="text-2xl">
+            {problem
+              ? LINK_PROBLEMS[problem].title
+              : verifiedEmail
+                ? "Email verified"
+                : errorMessage
+                  ? "Couldn't verify your email"
+                  : "Verifying your email"}
+          </CardTitle>
+          <CardDescription>
+            {problem
+              ? LINK_PROBLEMS[problem].description
+              : verifiedEmail
+                ? `${verifiedEmail} is confirmed. You can now send messages and add devices.`
+                : errorMessage || "This only takes a moment..."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {verifyEmailMutation.isPending ? (
+            <div className="flex justify-center py-2">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : errorMessage && !problem ? (
+            <Button className="w-full" onClick={verify}>
+              Try again
+            </Button>
+          ) : (
+            // The middleware sends signed-out visitors to the login page and back
+            <Button className="w-full" asChild>
+              <Link href={redirectTo}>{redirectTo === DEFAULT_REDIRECT ? "Continue to dashboard" : "Continue"}</Link>
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+"use client";
+
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { Loader2, LogOut, Monitor, Smartphone, Tablet } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { DeviceTableSkeleton } from "@/components/ui/skeletons";
+import { getErrorMessage, useRevokeAllSessions, useRevokeSession, useSessions } from "@/lib/api/hooks";
+import { useClearSession, useLogout } from "@/lib/hooks/auth";
+import type { Session } from "@/lib/api/types";
+
+const getSessionName = (session: Session) =>
+  `${session.browser || "Unknown browser"} on ${session.os || "unknown system"}`;
+
+const SessionIcon = ({ session }: { session: Session }) => {
+  const Icon = session.deviceType === "mobile" ? Smartphone : session.deviceType === "tablet" ? Tablet : Monitor;
+  return <Icon className="h-5 w-5 shrink-0 text-muted-foreground" />;
+};
+
+export function ActiveSessions() {
+  const [sessionToRevoke, setSessionToRevoke] = useState<Session | null>(null);
+  const [showRevokeAll, setShowRevokeAll] = useState(false);
+
+  const { data: sessionsData, isLoading } = useSessions();
+  const revokeSessionMutation = useRevokeSession();
+  const revokeAllMutation = useRevokeAllSessions();
+  const logoutMutation = useLogout();
+  const clearSession = useClearSession();
+
+  // Current session first, then the most recently used
+  const sessions = [...(sessionsData?.data?.sessions || [])].sort(
+    (a, b) =>
+      Number(b.isCurrent) - Number(a.isCurrent) ||
+      new Date(b.lastActiveAt).getTime() - new Date(a.lastActiveAt).getTime(),
+  );
+
+  const handleRevokeSession = async () => {
+    if (!sessionToRevoke) return;
+
+    // Signing out this browser is a regular logout
+    if (sessionToRevoke.isCurrent) {
+      logoutMutation.mutate();
+      return;
+    }
+
+    try {
+      await revokeSessionMutation.mutateAsync(sessionToRevoke.id);
+      toast.success("Session signed out", { description: getSessionName(sessionToRevoke) });
+      setSessionToRevoke(null);
+    } catch (error) {
+      toast.error("Failed to sign out session", { description: getErrorMessage(error) });
+    }
+  };
+
+  const handleRevokeAll = async () => {
+    try {
+      await revokeAllMutation.mutateAsync();
+      toast.success("Signed out everywhere", { description: "Sign in again to continue." });
+      clearSession();
+    } catch (error) {
+      toast.error("Failed to sign out everywhere", { description: getErrorMessage(error) });
+    }
+  };
+
+  const isRevoking = revokeSessionMutation.isPending || logoutMutation.isPending;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Active Sessions</CardTitle>
+          <CardDescription>Browsers and apps signed in to your account. Sessions last 90 days.</CardDescription>
+        </div>
+        <Button variant="outline" onClick={() => setShowRevokeAll(true)} disabled={sessions.length === 0}>
+          <LogOut className="mr-2 h-4 w-4" />
+          Sign Out Everywhere
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <DeviceTableSkeleton />
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Device</TableHead>
+                <TableHead>IP Address</TableHead>
+                <TableHead>Last Active</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sessions.map((session) => (
+                <TableRow key={session.id}>
+                  <TableCell>
+                    <div className="flex items-center gap-3">
+                      <SessionIcon session={session} />
+                      <div>
+                        <div className="font-medium">
+                          {getSessionName(session)}
+                          {session.isCurrent && (
+                            <Badge className="ml-2 bg-green-100 text-green-800">This browser</Badge>
+                          )}
+                        </div>
+                        <div className="text-sm text-muted-foreground">
+                          Signed in {formatDistanceToNow(new Date(session.createdAt), { addSuffix: true })}
+                        </div>
+                      </div>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div>{session.ipAddress || "Unknown"}</div>
+                    {session.location && <div className="text-sm text-muted-foreground">{session.location}</div>}
+                  </TableCell>
+                  <TableCell>
+                    {session.isCurrent
+                      ? "Now"
+                      : formatDistanceToNow(new Date(session.lastActiveAt), { addSuffix: true })}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-600"
+                      onClick={() => setSessionToRevoke(session)}
+                    >
+                      Sign out
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {/* Sign out one session */}
+      <Dialog open={!!sessionToRevoke} onOpenChange={(open) => !open && setSessionToRevoke(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Sign Out Session</DialogTitle>
+            <DialogDescription>
+              {sessionToRevoke?.isCurrent
+                ? "You'll be signed out of this browser."
+                : `${sessionToRevoke ? getSessionName(sessionToRevoke) : "This session"} will be signed out the next time it contacts the server.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setSessionToRevoke(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleRevokeSession} disabled={isRevoking}>
+              {isRevoking ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Signing out...
+                </>
+              ) : (
+                "Sign Out"
+              )}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Sign out every session */}
+      <Dialog open={showRevokeAll} onOpenChange={setShowRevokeAll}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Sign Out Everywhere</DialogTitle>
+            <DialogDescription>
+              Every session listed here is signed out, including this browser. Use this if you think someone else has
+              access to your account, and change your password afterwards.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setShowRevokeAll(false)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleRevokeAll} disabled={revokeAllMutation.isPending}>
+              {revokeAllMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Signing out...
+                </>
+              ) : (
+                "Sign Out Everywhere"
+              )}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
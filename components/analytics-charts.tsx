@@ -0,0 +1,247 @@
+"use client";
+
+import { useRef, type ReactNode } from "react";
+import { toast } from "sonner";
+import { Download } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { stringifyCsv } from "@/lib/csv";
+import { downloadFile, downloadSvgAsPng } from "@/lib/utils";
+
+// Charts are plain SVG with inline colors so they can be exported to PNG as rendered
+export const CHART_COLORS = ["#16a34a", "#2563eb", "#f59e0b", "#9333ea", "#dc2626", "#0891b2", "#db2777", "#65a30d"];
+
+const WIDTH = 800;
+const HEIGHT = 260;
+const PADDING = { top: 32, right: 8, bottom: 24, left: 40 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+const DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+interface ChartCardProps {
+  title: string;
+  description?: string;
+  filename: string;
+  // Rows for the CSV export, header first
+  getCsvRows: () => (string | number)[][];
+  actions?: ReactNode;
+  className?: string;
+  children: ReactNode;
+}
+
+export function ChartCard({ title, description, filename, getCsvRows, actions, className, children }: ChartCardProps) {
+  const chartRef = useRef<HTMLDivElement>(null);
+
+  const handleExportCsv = () => {
+    downloadFile(stringifyCsv(getCsvRows()), `${filename}.csv`, "text/csv");
+  };
+
+  const handleExportPng = async () => {
+    const svg = chartRef.current?.querySelector("svg");
+    if (!svg) {
+      toast.error("Nothing to export", { description: "This chart has no data in the selected range." });
+      return;
+    }
+    try {
+      await downloadSvgAsPng(svg, `${filename}.png`);
+    } catch (error) {
+      toast.error("Failed to export chart", {
+        description: error instanceof Error ? error.message : "Could not create the image",
+      });
+    }
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-2">
+          <div>
+            <CardTitle>{title}</CardTitle>
+            {description && <CardDescription>{description}</CardDescription>}
+          </div>
+          <div className="flex items-center gap-2">
+            {actions}
+            <Button variant="outline" size="sm" onClick={handleExportCsv}>
+              <Download className="h-4 w-4" />
+              CSV
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleExportPng}>
+              <Download className="h-4 w-4" />
+              PNG
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent ref={chartRef}>{children}</CardContent>
+    </Card>
+  );
+}
+
+function ChartEmpty() {
+  return (
+    <div className="flex h-40 items-center justify-center text-sm text-muted-foreground">
+      No messages in the selected range
+    </div>
+  );
+}
+
+interface StackedBarChartProps {
+  buckets: { start: number; counts: Record<string, number> }[];
+  keys: string[];
+  labels?: Record<string, string>;
+  formatBucket: (start: number) => string;
+}
+
+export function StackedBarChart({ buckets, keys, labels = {}, formatBucket }: StackedBarChartProps) {
+  if (keys.length === 0) return <ChartEmpty />;
+
+  const totals = buckets.map((bucket) => keys.reduce((sum, key) => sum + (bucket.counts[key] || 0), 0));
+  const max = Math.max(1, ...totals);
+  const slot = PLOT_WIDTH / buckets.length;
+  const barWidth = Math.max(1, slot * 0.8);
+  const labelEvery = Math.ceil(buckets.length / 10);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="h-auto w-full" fontSize={11} fontFamily="sans-serif">
+      {keys.map((key, index) => (
+        <g key={key} transform={`translate(${PADDING.left + index * 120}, 8)`}>
+          <rect width={10} height={10} rx={2} fill={CHART_COLORS[index % CHART_COLORS.length]} />
+          <text x={14} y={9} fill="#6b7280">
+            {labels[key] || key}
+          </text>
+        </g>
+      ))}
+      <text x={PADDING.left - 6} y={PADDING.top + 4} textAnchor="end" fill="#6b7280">
+        {max}
+      </text>
+      <text x={PADDING.left - 6} y={PADDING.top + PLOT_HEIGHT} textAnchor="end" fill="#6b7280">
+        0
+      </text>
+      <line
+        x1={PADDING.left}
+        x2={WIDTH - PADDING.right}
+        y1={PADDING.top + PLOT_HEIGHT}
+        y2={PADDING.top + PLOT_HEIGHT}
+        stroke="#e5e7eb"
+      />
+      {buckets.map((bucket, bucketIndex) => {
+        const x = PADDING.left + bucketIndex * slot + (slot - barWidth) / 2;
+        let y = PADDING.top + PLOT_HEIGHT;
+        return (
+          <g key={bucket.start}>
+            <title>{`${formatBucket(bucket.start)}: ${totals[bucketIndex]} messages`}</title>
+            {keys.map((key, index) => {
+              const height = ((bucket.counts[key] || 0) / max) * PLOT_HEIGHT;
+              y -= height;
+              return height > 0 ? (
+                <rect
+                  key={key}
+                  x={x}
+                  y={y}
+                  width={barWidth}
+                  height={height}
+                  fill={CHART_COLORS[index % CHART_COLORS.length]}
+                />
+              ) : null;
+            })}
+            {bucketIndex % labelEvery === 0 && (
+              <text x={x + barWidth / 2} y={HEIGHT - 6} textAnchor="middle" fill="#6b7280">
+                {formatBucket(bucket.start)}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+interface BarChartProps {
+  data: { label: string; value: number; color?: string }[];
+}
+
+export function BarChart({ data }: BarChartProps) {
+  if (data.every((item) => item.value === 0)) return <ChartEmpty />;
+
+  const max = Math.max(1, ...data.map((item) => item.value));
+  const slot = PLOT_WIDTH / data.length;
+  const barWidth = slot * 0.6;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="h-auto w-full" fontSize={12} fontFamily="sans-serif">
+      <line
+        x1={PADDING.left}
+        x2={WIDTH - PADDING.right}
+        y1={PADDING.top + PLOT_HEIGHT}
+        y2={PADDING.top + PLOT_HEIGHT}
+        stroke="#e5e7eb"
+      />
+      {data.map((item, index) => {
+        const height = (item.value / max) * PLOT_HEIGHT;
+        const x = PADDING.left + index * slot + (slot - barWidth) / 2;
+        const y = PADDING.top + PLOT_HEIGHT - height;
+        return (
+          <g key={item.label}>
+            <rect x={x} y={y} width={barWidth} height={height} rx={2} fill={item.color || CHART_COLORS[0]} />
+            <text x={x + barWidth / 2} y={y - 6} textAnchor="middle" fill="#111827">
+              {item.value}
+            </text>
+            <text x={x + barWidth / 2} y={HEIGHT - 6} textAnchor="middle" fill="#6b7280">
+              {item.label}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+interface HeatmapChartProps {
+  // Counts indexed by day of week (0 = Sunday) then hour
+  grid: number[][];
+}
+
+export function HeatmapChart({ grid }: HeatmapChartProps) {
+  const max = Math.max(...grid.flat());
+  if (max === 0) return <ChartEmpty />;
+
+  const cellWidth = PLOT_WIDTH / 24;
+  const cellHeight = (HEIGHT - PADDING.bottom - 8) / 7;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="h-auto w-full" fontSize={11} fontFamily="sans-serif">
+      {grid.map((hours, day) => (
+        <g key={day}>
+          <text x={PADDING.left - 6} y={8 + day * cellHeight + cellHeight / 2 + 4} textAnchor="end" fill="#6b7280">
+            {DAYS[day]}
+          </text>
+          {hours.map((count, hour) => (
+            <rect
+              key={hour}
+              x={PADDING.left + hour * cellWidth + 1}
+              y={8 + day * cellHeight + 1}
+              width={cellWidth - 2}
+              height={cellHeight - 2}
+              rx={2}
+              fill={count > 0 ? CHART_COLORS[0] : "#f3f4f6"}
+              fillOpacity={count > 0 ? 0.15 + (count / max) * 0.85 : 1}
+            >
+              <title>{`${DAYS[day]} ${String(hour).padStart(2, "0")}:00: ${count} messages`}</title>
+            </rect>
+          ))}
+        </g>
+      ))}
+      {Array.from({ length: 8 }, (_, i) => i * 3).map((hour) => (
+        <text
+          key={hour}
+          x={PADDING.left + hour * cellWidth + cellWidth / 2}
+          y={HEIGHT - 6}
+          textAnchor="middle"
+          fill="#6b7280"
+        >
+          {String(hour).padStart(2, "0")}
+        </text>
+      ))}
+    </svg>
+  );
+}
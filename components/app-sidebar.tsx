@@ -5,6 +5,7 @@ import {
   BarChart3,
   CreditCard,
   Home,
+  Megaphone,
   MessageSquare,
   Settings,
   Smartphone,
@@ -13,9 +14,10 @@ import {
   User,
   LogOut,
   Bell,
+  Loader2,
 } from "lucide-react";
 
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -37,6 +39,13 @@ import {
   SidebarMenuItem,
   SidebarRail,
 } from "@/components/ui/sidebar";
+import { Skeleton } from "@/components/ui/skeleton";
+import { OrganizationSwitcher } from "@/components/organization-switcher";
+import { useRole } from "@/lib/hooks/permissions";
+import { useLogout, useSessionUser } from "@/lib/hooks/auth";
+import { canAccessRoute } from "@/lib/permissions";
+import { getMemberName } from "@/lib/team";
+import { getInitials } from "@/lib/utils";
 
 const platformItems = [
   {
@@ -49,6 +58,11 @@ const platformItems = [
     url: "/messages",
     icon: MessageSquare,
   },
+  {
+    title: "Campaigns",
+    url: "/campaigns",
+    icon: Megaphone,
+  },
   {
     title: "Devices",
     url: "/devices",
@@ -80,40 +94,35 @@ const managementItems = [
 ];
 
 export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
+  const role = useRole();
+  const { user, organization, isLoading } = useSessionUser();
+  const logoutMutation = useLogout();
+
+  const displayName = user ? getMemberName(user) : "";
+  const initials = getInitials(displayName);
+
   return (
     <Sidebar collapsible="icon" {...props}>
       <SidebarHeader>
-        <SidebarMenu>
-          <SidebarMenuItem>
-            <SidebarMenuButton size="lg" asChild>
-              <a href="/dashboard">
-                <div className="flex aspect-square size-8 items-center justify-center rounded-lg bg-green-600 text-white">
-                  <MessageSquare className="size-4" />
-                </div>
-                <div className="grid flex-1 text-left text-sm leading-tight">
-                  <span className="truncate font-semibold">WhatsApp Business</span>
-                  <span className="truncate text-xs">API Platform</span>
-                </div>
-              </a>
-            </SidebarMenuButton>
-          </SidebarMenuItem>
-        </SidebarMenu>
+        <OrganizationSwitcher />
       </SidebarHeader>
       <SidebarContent>
         <SidebarGroup>
           <SidebarGroupLabel>Platform</SidebarGroupLabel>
           <SidebarGroupContent>
             <SidebarMenu>
-              {platformItems.map((item) => (
-                <SidebarMenuItem key={item.title}>
-                  <SidebarMenuButton asChild>
-                    <a href={item.url}>
-                      <item.icon />
-                      <span>{item.title}</span>
-                    </a>
-                  </SidebarMenuButton>
-                </SidebarMenuItem>
-              ))}
+              {platformItems
+                .filter((item) => canAccessRoute(role, item.url))
+                .map((item) => (
+                  <SidebarMenuItem key={item.title}>
+                    <SidebarMenuButton asChild>
+                      <a href={item.url}>
+                        <item.icon />
+                        <span>{item.title}</span>
+                      </a>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                ))}
             </SidebarMenu>
           </SidebarGroupContent>
         </SidebarGroup>
@@ -121,16 +130,18 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
           <SidebarGroupLabel>Management</SidebarGroupLabel>
           <SidebarGroupContent>
             <SidebarMenu>
-              {managementItems.map((item) => (
-                <SidebarMenuItem key={item.title}>
-                  <SidebarMenuButton asChild>
-                    <a href={item.url}>
-                      <item.icon />
-                      <span>{item.title}</span>
-                    </a>
-                  </SidebarMenuButton>
-                </SidebarMenuItem>
-              ))}
+              {managementItems
+                .filter((item) => canAccessRoute(role, item.url))
+                .map((item) => (
+                  <SidebarMenuItem key={item.title}>
+                    <SidebarMenuButton asChild>
+                      <a href={item.url}>
+                        <item.icon />
+                        <span>{item.title}</span>
+                      </a>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                ))}
             </SidebarMenu>
           </SidebarGroupContent>
         </SidebarGroup>
@@ -145,13 +156,19 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
                   className="data-[state=open]:bg-sidebar-accent data-[state=open]:text-sidebar-accent-foreground"
                 >
                   <Avatar className="h-8 w-8 rounded-lg">
-                    <AvatarImage src="/placeholder-user.jpg" alt="User" />
-                    <AvatarFallback className="rounded-lg">JD</AvatarFallback>
+                    <AvatarFallback className="rounded-lg">{user ? initials : ""}</AvatarFallback>
                   </Avatar>
-                  <div className="grid flex-1 text-left text-sm leading-tight">
-                    <span className="truncate font-semibold">John Doe</span>
-                    <span className="truncate text-xs">john@example.com</span>
-                  </div>
+                  {isLoading || !user ? (
+                    <div className="grid flex-1 gap-1">
+                      <Skeleton className="h-3 w-24" />
+                      <Skeleton className="h-3 w-32" />
+                    </div>
+                  ) : (
+                    <div className="grid flex-1 text-left text-sm leading-tight">
+                      <span className="truncate font-semibold">{displayName}</span>
+                      <span className="truncate text-xs">{user.email}</span>
+                    </div>
+                  )}
                   <ChevronDown className="ml-auto size-4" />
                 </SidebarMenuButton>
               </DropdownMenuTrigger>
@@ -164,27 +181,37 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
                 <DropdownMenuLabel className="p-0 font-normal">
                   <div className="flex items-center gap-2 px-1 py-1.5 text-left text-sm">
                     <Avatar className="h-8 w-8 rounded-lg">
-                      <AvatarImage src="/placeholder-user.jpg" alt="User" />
-                      <AvatarFallback className="rounded-lg">JD</AvatarFallback>
+                      <AvatarFallback className="rounded-lg">{user ? initials : ""}</AvatarFallback>
                     </Avatar>
                     <div className="grid flex-1 text-left text-sm leading-tight">
-                      <span className="truncate font-semibold">John Doe</span>
-                      <span className="truncate text-xs">john@example.com</span>
+                      <span className="truncate font-semibold">{displayName}</span>
+                      <span className="truncate text-xs">{user?.email}</span>
+                      {organization && (
+                        <span className="truncate text-xs text-muted-foreground">{organization.name}</span>
+                      )}
                     </div>
                   </div>
                 </DropdownMenuLabel>
                 <DropdownMenuSeparator />
-                <DropdownMenuItem>
-                  <User />
-                  Account
+                <DropdownMenuItem asChild>
+                  <a href="/settings">
+                    <User />
+                    Account
+                  </a>
                 </DropdownMenuItem>
                 <DropdownMenuItem>
                   <Bell />
                   Notifications
                 </DropdownMenuItem>
                 <DropdownMenuSeparator />
-                <DropdownMenuItem>
-                  <LogOut />
+                <DropdownMenuItem
+                  disabled={logoutMutation.isPending}
+                  onSelect={(event) => {
+                    event.preventDefault();
+                    logoutMutation.mutate();
+                  }}
+                >
+                  {logoutMutation.isPending ? <Loader2 className="animate-spin" /> : <LogOut />}
                   Log out
                 </DropdownMenuItem>
               </DropdownMenuContent>
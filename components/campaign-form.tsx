@@ -0,0 +1,302 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { FileSpreadsheet, Loader2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { parseCsv, type ParsedCsv } from "@/lib/csv";
+import { getTemplateVariables, renderTemplate } from "@/lib/templates";
+import type { NewCampaign } from "@/lib/stores/campaigns";
+import type { MessageTemplate } from "@/lib/api/types";
+
+const PREVIEW_ROWS = 5;
+const DEFAULT_RATE_PER_MINUTE = 20;
+const MAX_RATE_PER_MINUTE = 60;
+
+// Columns named like a phone number are picked automatically after upload
+const PHONE_COLUMN_PATTERN = /phone|number|mobile|whatsapp/i;
+
+interface CampaignFormProps {
+  templates: MessageTemplate[];
+  devices: Array<{ id: string; name: string }>;
+  onSubmit: (campaign: NewCampaign) => void;
+  onCancel: () => void;
+}
+
+export function CampaignForm({ templates, devices, onSubmit, onCancel }: CampaignFormProps) {
+  const [name, setName] = useState("");
+  const [templateId, setTemplateId] = useState("");
+  const [csv, setCsv] = useState<ParsedCsv | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [isParsing, setIsParsing] = useState(false);
+  const [phoneColumn, setPhoneColumn] = useState("");
+  const [variableColumns, setVariableColumns] = useState<Record<string, string>>({});
+  const [deviceIds, setDeviceIds] = useState<string[]>([]);
+  const [ratePerMinute, setRatePerMinute] = useState(DEFAULT_RATE_PER_MINUTE);
+
+  const template = templates.find((t) => t.id === templateId);
+  const variables = useMemo(() => (template ? getTemplateVariables(template) : []), [template]);
+
+  // Rows become recipients once the phone column and every template variable are mapped
+  const recipients = useMemo(() => {
+    if (!csv || !phoneColumn) return [];
+
+    return csv.rows
+      .filter((row) => row[phoneColumn]?.trim())
+      .map((row) => ({
+        phone: row[phoneColumn].trim(),
+        variables: Object.fromEntries(variables.map((variable) => [variable, row[variableColumns[variable]] ?? ""])),
+      }));
+  }, [csv, phoneColumn, variables, variableColumns]);
+
+  const unmappedVariables = variables.filter((variable) => !variableColumns[variable]);
+  const canSubmit =
+    name.trim() && template && recipients.length > 0 && unmappedVariables.length === 0 && deviceIds.length > 0;
+
+  const handleTemplateChange = (id: string) => {
+    setTemplateId(id);
+    const selected = templates.find((t) => t.id === id);
+
+    // Preselect columns that share the variable's name
+    setVariableColumns(
+      Object.fromEntries(
+        (selected ? getTemplateVariables(selected) : []).map((variable) => [
+          variable,
+          csv?.headers.find((header) => header.toLowerCase() === variable.toLowerCase()) || "",
+        ]),
+      ),
+    );
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsParsing(true);
+    try {
+      const parsed = parseCsv(await file.text());
+      if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+        toast.error("Empty CSV file", { description: "The file needs a header row and at least one recipient" });
+        return;
+      }
+
+      setCsv(parsed);
+      setFileName(file.name);
+      setPhoneColumn(parsed.headers.find((header) => PHONE_COLUMN_PATTERN.test(header)) || "");
+      setVariableColumns((prev) =>
+        Object.fromEntries(
+          Object.keys(prev).map((variable) => [
+            variable,
+            parsed.headers.find((header) => header.toLowerCase() === variable.toLowerCase()) || "",
+          ]),
+        ),
+      );
+    } catch (error) {
+      console.error("Failed to read CSV:", error);
+      toast.error("Failed to read CSV file");
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const toggleDevice = (deviceId: string, checked: boolean) => {
+    setDeviceIds((prev) => (checked ? [...prev, deviceId] : prev.filter((id) => id !== deviceId)));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit || !template) return;
+
+    onSubmit({
+      name: name.trim(),
+      templateId: template.id,
+      templateName: template.name,
+      content: template.content,
+      deviceIds,
+      ratePerMinute,
+      recipients,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="campaign-name">Campaign Name</Label>
+          <Input
+            id="campaign-name"
+            placeholder="Spring promotion"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={100}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Template</Label>
+          <Select value={templateId} onValueChange={handleTemplateChange}>
+            <SelectTrigger className="w-full">
+              <SelectValue placeholder={templates.length ? "Select a template" : "No templates available"} />
+            </SelectTrigger>
+            <SelectContent>
+              {templates.map((t) => (
+                <SelectItem key={t.id} value={t.id}>
+                  {t.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {/* Recipients */}
+      <div className="space-y-2">
+        <Label htmlFor="campaign-csv">Recipients CSV</Label>
+        <div className="flex items-center gap-3">
+          <Button type="button" variant="outline" asChild>
+            <label htmlFor="campaign-csv" className="cursor-pointer">
+              {isParsing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+              Upload CSV
+            </label>
+          </Button>
+          <input id="campaign-csv" type="file" accept=".csv,text/csv" className="hidden" onChange={handleFileChange} />
+          {csv ? (
+            <span className="flex items-center gap-1 text-sm text-muted-foreground">
+              <FileSpreadsheet className="h-4 w-4" />
+              {fileName} · {csv.rows.length} rows
+            </span>
+          ) : (
+            <span className="text-sm text-muted-foreground">
+              One row per recipient, with a phone number column and a column per template variable
+            </span>
+          )}
+        </div>
+      </div>
+
+      {csv && (
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Phone Number Column</Label>
+            <Select value={phoneColumn} onValueChange={setPhoneColumn}>
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Select a column" />
+              </SelectTrigger>
+              <SelectContent>
+                {csv.headers.map((header) => (
+                  <SelectItem key={header} value={header}>
+                    {header}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {variables.map((variable) => (
+            <div key={variable} className="space-y-2">
+              <Label>
+                Column for <code className="text-xs">{`{{${variable}}}`}</code>
+              </Label>
+              <Select
+                value={variableColumns[variable] || ""}
+                onValueChange={(column) => setVariableColumns((prev) => ({ ...prev, [variable]: column }))}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Select a column" />
+                </SelectTrigger>
+                <SelectContent>
+                  {csv.headers.map((header) => (
+                    <SelectItem key={header} value={header}>
+                      {header}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Sending */}
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label>Devices</Label>
+          {devices.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No online devices. Connect a device to send campaigns.</p>
+          ) : (
+            <div className="space-y-2 rounded-md border p-3">
+              {devices.map((device) => (
+                <label key={device.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={deviceIds.includes(device.id)}
+                    onCheckedChange={(checked) => toggleDevice(device.id, checked === true)}
+                  />
+                  {device.name}
+                </label>
+              ))}
+              {deviceIds.length > 1 && (
+                <p className="text-xs text-muted-foreground">Messages are spread round-robin across devices</p>
+              )}
+            </div>
+          )}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="campaign-rate">Messages per Minute</Label>
+          <Input
+            id="campaign-rate"
+            type="number"
+            min={1}
+            max={MAX_RATE_PER_MINUTE}
+            value={ratePerMinute}
+            onChange={(e) => setRatePerMinute(Math.min(MAX_RATE_PER_MINUTE, Math.max(1, Number(e.target.value) || 1)))}
+          />
+          <p className="text-xs text-muted-foreground">Lower rates reduce the risk of the number being flagged</p>
+        </div>
+      </div>
+
+      {/* Preview */}
+      {template && recipients.length > 0 && (
+        <div className="space-y-2">
+          <Label>
+            Preview ({Math.min(PREVIEW_ROWS, recipients.length)} of {recipients.length} recipients)
+          </Label>
+          {unmappedVariables.length > 0 && (
+            <p className="text-sm text-red-600">Map a column for: {unmappedVariables.join(", ")}</p>
+          )}
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-40">Recipient</TableHead>
+                  <TableHead>Message</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {recipients.slice(0, PREVIEW_ROWS).map((recipient, index) => (
+                  <TableRow key={index}>
+                    <TableCell className="align-top font-medium">{recipient.phone}</TableCell>
+                    <TableCell className="whitespace-pre-wrap">
+                      {renderTemplate(template.content, recipient.variables)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={!canSubmit}>
+          Create & Start Campaign
+        </Button>
+      </div>
+    </form>
+  );
+}
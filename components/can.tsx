@@ -0,0 +1,16 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { usePermission } from "@/lib/hooks/permissions";
+import type { Permission } from "@/lib/permissions";
+
+interface CanProps {
+  permission: Permission;
+  children: ReactNode;
+  // Rendered instead of the children when the permission is missing
+  fallback?: ReactNode;
+}
+
+export function Can({ permission, children, fallback = null }: CanProps) {
+  return <>{usePermission(permission) ? children : fallback}</>;
+}
@@ -0,0 +1,248 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useAtom } from "jotai";
+import { format, isToday } from "date-fns";
+import { Inbox, Loader2, Search, Send } from "lucide-react";
+import { toast } from "sonner";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MessageListSkeleton } from "@/components/ui/skeletons";
+import { MessageStatusIcon } from "@/components/message-status-icon";
+import { useDevices, useMessages, useSendMessage, getErrorMessage } from "@/lib/api/hooks";
+import { useRealtimeState } from "@/lib/hooks/realtime";
+import { useEmailVerified } from "@/lib/hooks/auth";
+import { conversationReadAtAtom } from "@/lib/atoms";
+import { groupConversations, getMessagePreview, getMessageTime, type Conversation } from "@/lib/conversations";
+import { cn } from "@/lib/utils";
+import type { Message } from "@/lib/api/types";
+
+const INBOX_MESSAGE_LIMIT = 200;
+
+const formatListTime = (message: Message) => {
+  const date = new Date(getMessageTime(message));
+  return isToday(date) ? format(date, "h:mm a") : format(date, "MMM dd");
+};
+
+export function ConversationInbox() {
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [readAt, setReadAt] = useAtom(conversationReadAtAtom);
+  const realtimeState = useRealtimeState();
+
+  const { data: messagesData, isLoading: messagesLoading } = useMessages({ page: 1, limit: INBOX_MESSAGE_LIMIT });
+  const { data: devicesData } = useDevices(1, 50);
+
+  const devices = devicesData?.data?.devices || [];
+  const messages = messagesData?.data?.messages;
+
+  const conversations = useMemo(() => groupConversations(messages || [], readAt), [messages, readAt]);
+  const filteredConversations = conversations.filter((conversation) => conversation.contact.includes(search.trim()));
+  const selected = conversations.find((conversation) => conversation.key === selectedKey) || null;
+
+  const getDeviceName = (deviceId: string) => devices.find((d) => d.id === deviceId)?.name || "Unknown Device";
+
+  // Opening a conversation, or receiving a message while it is open, marks it as read
+  const selectedLastTime = selected ? getMessageTime(selected.lastMessage) : 0;
+  useEffect(() => {
+    if (!selectedKey || !selectedLastTime) return;
+    setReadAt((prev) => (prev[selectedKey] >= selectedLastTime ? prev : { ...prev, [selectedKey]: selectedLastTime }));
+  }, [selectedKey, selectedLastTime, setReadAt]);
+
+  return (
+    <Card className="grid h-[calc(100vh-12rem)] min-h-[480px] grid-cols-1 gap-0 overflow-hidden p-0 md:grid-cols-[320px_1fr]">
+      {/* Conversation list */}
+      <div className="flex min-h-0 flex-col border-r">
+        <div className="space-y-2 border-b p-3">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold">Conversations</h3>
+            <Badge variant="outline" className={realtimeState === "open" ? "text-green-700" : "text-muted-foreground"}>
+              <span className={cn("h-2 w-2 rounded-full", realtimeState === "open" ? "bg-green-500" : "bg-gray-400")} />
+              {realtimeState === "open" ? "Live" : "Offline"}
+            </Badge>
+          </div>
+          <div className="relative">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by number..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-8"
+            />
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {messagesLoading ? (
+            <div className="p-3">
+              <MessageListSkeleton />
+            </div>
+          ) : filteredConversations.length === 0 ? (
+            <div className="py-8 text-center text-sm text-muted-foreground">No conversations found</div>
+          ) : (
+            filteredConversations.map((conversation) => (
+              <button
+                key={conversation.key}
+                type="button"
+                onClick={() => setSelectedKey(conversation.key)}
+                className={cn(
+                  "flex w-full items-center gap-3 border-b px-3 py-3 text-left transition-colors hover:bg-muted/50",
+                  conversation.key === selectedKey && "bg-muted",
+                )}
+              >
+                <Avatar className="h-10 w-10">
+                  <AvatarFallback>{conversation.contact.slice(-2)}</AvatarFallback>
+                </Avatar>
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="truncate font-medium">{conversation.contact}</span>
+                    <span
+                      className={cn(
+                        "shrink-0 text-xs",
+                        conversation.unreadCount > 0 ? "font-medium text-green-600" : "text-muted-foreground",
+                      )}
+                    >
+                      {formatListTime(conversation.lastMessage)}
+                    </span>
+                  </div>
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="flex min-w-0 items-center gap-1 text-sm text-muted-foreground">
+                      {conversation.lastMessage.direction === "outbound" && (
+                        <MessageStatusIcon status={conversation.lastMessage.status} className="h-3 w-3 shrink-0" />
+                      )}
+                      <span className="truncate">{getMessagePreview(conversation.lastMessage)}</span>
+                    </span>
+                    {conversation.unreadCount > 0 && (
+                      <Badge className="h-5 min-w-5 rounded-full bg-green-600 px-1.5">{conversation.unreadCount}</Badge>
+                    )}
+                  </div>
+                  <span className="text-xs text-muted-foreground">{getDeviceName(conversation.deviceId)}</span>
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+      </div>
+
+      {/* Thread */}
+      {selected ? (
+        <ConversationThread
+          key={selected.key}
+          conversation={selected}
+          deviceName={getDeviceName(selected.deviceId)}
+          devices={devices.filter((d) => d.status === "online")}
+        />
+      ) : (
+        <div className="hidden flex-col items-center justify-center text-center md:flex">
+          <Inbox className="mb-4 h-12 w-12 text-muted-foreground" />
+          <h3 className="text-lg font-medium">Select a conversation</h3>
+          <p className="text-muted-foreground">Pick a contact on the left to read and reply</p>
+        </div>
+      )}
+    </Card>
+  );
+}
+
+interface ConversationThreadProps {
+  conversation: Conversation;
+  deviceName: string;
+  devices: Array<{ id: string; name: string }>;
+}
+
+function ConversationThread({ conversation, deviceName, devices }: ConversationThreadProps) {
+  const [reply, setReply] = useState("");
+  const [deviceId, setDeviceId] = useState(conversation.deviceId);
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const sendMessageMutation = useSendMessage();
+  const isEmailVerified = useEmailVerified();
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "end" });
+  }, [conversation.messages.length]);
+
+  const handleReply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const message = reply.trim();
+    if (!message) return;
+
+    try {
+      await sendMessageMutation.mutateAsync({ deviceId, to: conversation.contact, message, type: "text" });
+      setReply("");
+    } catch (error) {
+      toast.error("Failed to send message", { description: getErrorMessage(error) });
+    }
+  };
+
+  return (
+    <div className="flex min-h-0 flex-col">
+      <div className="flex items-center gap-3 border-b p-3">
+        <Avatar className="h-10 w-10">
+          <AvatarFallback>{conversation.contact.slice(-2)}</AvatarFallback>
+        </Avatar>
+        <div>
+          <p className="font-medium">{conversation.contact}</p>
+          <p className="text-xs text-muted-foreground">via {deviceName}</p>
+        </div>
+      </div>
+
+      <div className="flex-1 space-y-2 overflow-y-auto bg-muted/30 p-4">
+        {conversation.messages.map((message) => (
+          <div
+            key={message.id}
+            className={cn("flex", message.direction === "outbound" ? "justify-end" : "justify-start")}
+          >
+            <div
+              className={cn(
+                "max-w-[75%] rounded-lg px-3 py-2 text-sm shadow-sm",
+                message.direction === "outbound" ? "bg-green-100" : "bg-white",
+              )}
+            >
+              {message.messageType !== "text" && (
+                <p className="mb-1 text-xs font-medium uppercase text-muted-foreground">{message.messageType}</p>
+              )}
+              {message.content && <p className="whitespace-pre-wrap break-words">{message.content}</p>}
+              <div className="mt-1 flex items-center justify-end gap-1 text-[11px] text-muted-foreground">
+                {format(new Date(getMessageTime(message)), "h:mm a")}
+                {message.direction === "outbound" && <MessageStatusIcon status={message.status} className="h-3 w-3" />}
+              </div>
+            </div>
+          </div>
+        ))}
+        <div ref={bottomRef} />
+      </div>
+
+      <form onSubmit={handleReply} className="flex items-center gap-2 border-t p-3">
+        <Select value={deviceId} onValueChange={setDeviceId}>
+          <SelectTrigger className="w-40">
+            <SelectValue placeholder="Device" />
+          </SelectTrigger>
+          <SelectContent>
+            {!devices.some((d) => d.id === conversation.deviceId) && (
+              <SelectItem value={conversation.deviceId}>{deviceName}</SelectItem>
+            )}
+            {devices.map((device) => (
+              <SelectItem key={device.id} value={device.id}>
+                {device.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          placeholder={isEmailVerified ? "Type a reply..." : "Verify your email to reply"}
+          value={reply}
+          onChange={(e) => setReply(e.target.value)}
+          disabled={sendMessageMutation.isPending || !isEmailVerified}
+          maxLength={4096}
+        />
+        <Button type="submit" disabled={sendMessageMutation.isPending || !reply.trim() || !isEmailVerified}>
+          {sendMessageMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+          <span className="sr-only">Send reply</span>
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import Image from "next/image";
+import { useRouter } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { toast } from "sonner";
+import { AlertCircle, CheckCircle, Clock, Loader2, QrCode, RefreshCw } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { useDevicePairing, type PairingState } from "@/lib/hooks/device-pairing";
+import { useUIStore } from "@/lib/stores/ui";
+import { cn } from "@/lib/utils";
+
+const createDeviceSchema = z.object({
+  name: z.string().min(1, "Device name is required").max(100, "Name too long"),
+});
+
+type CreateDeviceForm = z.infer<typeof createDeviceSchema>;
+
+const STEPS = ["Name", "Scan", "Connect"] as const;
+
+const getStepIndex = (state: PairingState) => {
+  switch (state.step) {
+    case "idle":
+    case "creating":
+      return 0;
+    case "awaiting_scan":
+    case "expired":
+      return 1;
+    default:
+      return 2;
+  }
+};
+
+const formatCountdown = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+
+interface DevicePairingWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Pair an existing device instead of creating a new one
+  deviceId?: string | null;
+}
+
+export function DevicePairingWizard({ open, onOpenChange, deviceId }: DevicePairingWizardProps) {
+  const router = useRouter();
+  const { addNotification } = useUIStore();
+  const { state, secondsLeft, qrTtlSeconds, createAndPair, pair, reset } = useDevicePairing();
+  const handledDeviceIdRef = useRef<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset: resetForm,
+  } = useForm<CreateDeviceForm>({
+    resolver: zodResolver(createDeviceSchema),
+    defaultValues: { name: "" },
+  });
+
+  // Existing devices skip straight to the QR code, closing abandons the attempt
+  useEffect(() => {
+    if (open && deviceId) void pair(deviceId);
+    if (!open) {
+      reset();
+      resetForm();
+      handledDeviceIdRef.current = null;
+    }
+  }, [open, deviceId, pair, reset, resetForm]);
+
+  // Land on the device page once it is online
+  const onlineDeviceId = state.step === "online" ? state.deviceId : null;
+  useEffect(() => {
+    if (!onlineDeviceId || handledDeviceIdRef.current === onlineDeviceId) return;
+    handledDeviceIdRef.current = onlineDeviceId;
+
+    toast.success("Device connected", { description: "Your WhatsApp device is ready to send messages." });
+    addNotification({
+      type: "success",
+      title: "Device Connected",
+      message: "Your WhatsApp device has been paired successfully.",
+    });
+    onOpenChange(false);
+    router.push(`/devices/${onlineDeviceId}?paired=1`);
+  }, [onlineDeviceId, addNotification, onOpenChange, router]);
+
+  const handleRetry = () => {
+    if (state.step !== "expired" && state.step !== "failed") return;
+    if (state.deviceId) {
+      void pair(state.deviceId);
+    } else {
+      reset();
+    }
+  };
+
+  const stepIndex = getStepIndex(state);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{deviceId ? "Connect Device" : "Add New Device"}</DialogTitle>
+          <DialogDescription>Link a WhatsApp account by scanning a QR code from your phone.</DialogDescription>
+        </DialogHeader>
+
+        {/* Step indicator */}
+        <div className="flex items-center justify-between gap-2">
+          {STEPS.map((label, index) => (
+            <div key={label} className="flex flex-1 items-center gap-2">
+              <div
+                className={cn(
+                  "flex h-6 w-6 shrink-0 items-center justify-center rounded-full border text-xs",
+                  index < stepIndex && "border-green-600 bg-green-600 text-white",
+                  index === stepIndex && "border-primary text-primary",
+                  index > stepIndex && "text-muted-foreground",
+                )}
+              >
+                {index < stepIndex ? <CheckCircle className="h-4 w-4" /> : index + 1}
+              </div>
+              <span className={cn("text-sm", index === stepIndex ? "font-medium" : "text-muted-foreground")}>
+                {label}
+              </span>
+              {index < STEPS.length - 1 && <div className="h-px flex-1 bg-border" />}
+            </div>
+          ))}
+        </div>
+
+        {(state.step === "idle" || state.step === "creating") && !deviceId && (
+          <form onSubmit={handleSubmit((data) => createAndPair(data.name))} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="name">Device Name</Label>
+              <Input
+                id="name"
+                placeholder="e.g., Marketing Device"
+                {...register("name")}
+                className={errors.name ? "border-red-500" : ""}
+                disabled={state.step === "creating"}
+              />
+              {errors.name && <p className="text-sm text-red-500">{errors.name.message}</p>}
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={state.step === "creating"}>
+                {state.step === "creating" ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Creating...
+                  </>
+                ) : (
+                  "Continue"
+                )}
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {state.step === "awaiting_scan" && (
+          <div className="space-y-4">
+            <div className="flex justify-center">
+              {state.qrCode ? (
+                <Image
+                  src={state.qrCode}
+                  alt="QR Code"
+                  width={256}
+                  height={256}
+                  unoptimized
+                  className="w-64 h-64 border rounded-lg"
+                />
+              ) : (
+                <div className="flex flex-col items-center justify-center w-64 h-64 border-2 border-dashed border-gray-300 rounded-lg">
+                  <Loader2 className="h-8 w-8 animate-spin" />
+                  <p className="mt-2 text-sm text-muted-foreground">Generating QR code...</p>
+                </div>
+              )}
+            </div>
+            {state.qrCode && (
+              <div className="space-y-1">
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span className="flex items-center">
+                    <Clock className="mr-1 h-3 w-3" />
+                    Code refreshes in {formatCountdown(secondsLeft)}
+                  </span>
+                  <span>Waiting for scan...</span>
+                </div>
+                <Progress value={Math.min(100, (secondsLeft / qrTtlSeconds) * 100)} className="h-1" />
+              </div>
+            )}
+            <ol className="list-decimal space-y-1 pl-5 text-sm text-muted-foreground">
+              <li>Open WhatsApp on your phone</li>
+              <li>Go to Settings &gt; Linked Devices</li>
+              <li>Tap &quot;Link a Device&quot; and point your phone at this screen</li>
+            </ol>
+          </div>
+        )}
+
+        {state.step === "connecting" && (
+          <div className="flex flex-col items-center py-8 text-center">
+            <Loader2 className="h-10 w-10 animate-spin text-primary" />
+            <h3 className="mt-4 text-lg font-medium">Code scanned</h3>
+            <p className="text-sm text-muted-foreground">Finishing the connection, keep WhatsApp open on your phone</p>
+          </div>
+        )}
+
+        {state.step === "online" && (
+          <div className="flex flex-col items-center py-8 text-center">
+            <CheckCircle className="h-10 w-10 text-green-600" />
+            <h3 className="mt-4 text-lg font-medium">Connected</h3>
+            <p className="text-sm text-muted-foreground">
+              {state.phoneNumber ? `Linked to ${state.phoneNumber}` : "Opening your device..."}
+            </p>
+          </div>
+        )}
+
+        {state.step === "expired" && (
+          <div className="flex flex-col items-center py-8 text-center">
+            <QrCode className="h-10 w-10 text-muted-foreground" />
+            <h3 className="mt-4 text-lg font-medium">QR code expired</h3>
+            <p className="mb-4 text-sm text-muted-foreground">The code was not scanned in time.</p>
+            <Button onClick={handleRetry}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Generate New Code
+            </Button>
+          </div>
+        )}
+
+        {state.step === "failed" && (
+          <div className="flex flex-col items-center py-8 text-center">
+            <AlertCircle className="h-10 w-10 text-red-600" />
+            <h3 className="mt-4 text-lg font-medium">Pairing failed</h3>
+            <p className="mb-4 text-sm text-muted-foreground">{state.error}</p>
+            <Button onClick={handleRetry}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Try Again
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAtom } from "jotai";
+import { toast } from "sonner";
+import { Loader2, MailWarning } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { getErrorMessage, useResendVerificationEmail } from "@/lib/api/hooks";
+import { useSessionUser } from "@/lib/hooks/auth";
+import { verificationEmailSentAtAtom } from "@/lib/atoms";
+
+// Client-side throttle so the resend button can't flood the user's inbox, the API limits it too
+const RESEND_COOLDOWN_MS = 60 * 1000;
+
+export function EmailVerificationBanner() {
+  const { user } = useSessionUser();
+  const [sentAt, setSentAt] = useAtom(verificationEmailSentAtAtom);
+  const [now, setNow] = useState(() => Date.now());
+  const resendMutation = useResendVerificationEmail();
+
+  const remainingSeconds = Math.ceil(Math.max(0, sentAt + RESEND_COOLDOWN_MS - now) / 1000);
+
+  // Tick only while the cooldown is running
+  useEffect(() => {
+    if (remainingSeconds === 0) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [remainingSeconds]);
+
+  if (!user || user.isEmailVerified) return null;
+
+  const handleResend = async () => {
+    try {
+      await resendMutation.mutateAsync();
+      setSentAt(Date.now());
+      setNow(Date.now());
+      toast.success("Verification email sent", { description: `Check ${user.email} for the link.` });
+    } catch (error) {
+      toast.error("Failed to send verification email", { description: getErrorMessage(error) });
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-2 rounded-md border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800">
+      <div className="flex items-center gap-2">
+        <MailWarning className="h-4 w-4 shrink-0" />
+        Verify {user.email} to send messages, run campaigns and add devices.
+      </div>
+      <Button
+        size="sm"
+        variant="outline"
+        className="bg-white"
+        onClick={handleResend}
+        disabled={resendMutation.isPending || remainingSeconds > 0}
+      >
+        {resendMutation.isPending ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Sending...
+          </>
+        ) : remainingSeconds > 0 ? (
+          `Resend in ${remainingSeconds}s`
+        ) : (
+          "Resend email"
+        )}
+      </Button>
+    </div>
+  );
+}
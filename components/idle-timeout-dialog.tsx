@@ -0,0 +1,59 @@
+"use client";
+
+import { useCallback } from "react";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useLogout } from "@/lib/hooks/auth";
+import { useIdleTimeout } from "@/lib/hooks/idle-timeout";
+import { useCampaignStore } from "@/lib/stores/campaigns";
+
+const formatCountdown = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+export function IdleTimeoutDialog() {
+  const logoutMutation = useLogout();
+  const { mutate: logout } = logoutMutation;
+
+  const handleTimeout = useCallback(() => {
+    logout();
+    toast.info("You were signed out", { description: "Your session was idle for too long." });
+  }, [logout]);
+
+  // Signing out would stop a running campaign and clear its progress, so the session never goes idle while one runs
+  const hasRunningCampaign = useCampaignStore((state) => state.campaigns.some((c) => c.status === "running"));
+  const { remainingMs, stayActive } = useIdleTimeout(handleTimeout, hasRunningCampaign);
+
+  return (
+    <Dialog open={remainingMs !== null} onOpenChange={(open) => !open && stayActive()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Are you still there?</DialogTitle>
+          <DialogDescription>
+            You&apos;ll be signed out in{" "}
+            <span className="font-medium tabular-nums text-foreground">{formatCountdown(remainingMs ?? 0)}</span> to
+            keep your account safe.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={() => logoutMutation.mutate()} disabled={logoutMutation.isPending}>
+            {logoutMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Signing out...
+              </>
+            ) : (
+              "Sign Out"
+            )}
+          </Button>
+          <Button onClick={stayActive} disabled={logoutMutation.isPending}>
+            Stay Signed In
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,82 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Image from "next/image";
+import { FileText, Music, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { formatFileSize } from "@/lib/media";
+import type { MediaType } from "@/lib/api/types";
+
+interface MediaAttachmentProps {
+  file: File;
+  type: MediaType;
+  progress?: number;
+  isUploading?: boolean;
+  onRemove: () => void;
+  onCancel?: () => void;
+}
+
+export function MediaAttachment({ file, type, progress, isUploading, onRemove, onCancel }: MediaAttachmentProps) {
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (type === "document") {
+      setPreviewUrl(null);
+      return;
+    }
+
+    const url = URL.createObjectURL(file);
+    setPreviewUrl(url);
+
+    return () => URL.revokeObjectURL(url);
+  }, [file, type]);
+
+  return (
+    <div className="flex items-center gap-3 rounded-lg border p-3">
+      <div className="flex h-16 w-16 shrink-0 items-center justify-center overflow-hidden rounded-md bg-muted">
+        {type === "image" && previewUrl ? (
+          <Image
+            src={previewUrl}
+            alt={file.name}
+            width={64}
+            height={64}
+            unoptimized
+            className="h-full w-full object-cover"
+          />
+        ) : type === "video" && previewUrl ? (
+          <video src={previewUrl} className="h-full w-full object-cover" muted />
+        ) : type === "audio" ? (
+          <Music className="h-6 w-6 text-muted-foreground" />
+        ) : (
+          <FileText className="h-6 w-6 text-muted-foreground" />
+        )}
+      </div>
+
+      <div className="min-w-0 flex-1 space-y-1">
+        <p className="truncate text-sm font-medium">{file.name}</p>
+        <p className="text-xs text-muted-foreground">
+          {formatFileSize(file.size)} • {type}
+        </p>
+        {type === "audio" && previewUrl && !isUploading && <audio src={previewUrl} controls className="h-8 w-full" />}
+        {isUploading && (
+          <div className="flex items-center gap-2">
+            <Progress value={progress || 0} className="h-1.5" />
+            <span className="text-xs text-muted-foreground">{progress || 0}%</span>
+          </div>
+        )}
+      </div>
+
+      {isUploading ? (
+        <Button type="button" variant="outline" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+      ) : (
+        <Button type="button" variant="ghost" size="sm" onClick={onRemove}>
+          <span className="sr-only">Remove attachment</span>
+          <X className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  );
+}
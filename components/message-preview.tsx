@@ -0,0 +1,70 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { format } from "date-fns";
+import { CheckCheck } from "lucide-react";
+import type { MessageType } from "@/lib/api/types";
+
+// WhatsApp inline formatting: *bold*, _italic_, ~strikethrough~ and ```monospace```
+const FORMAT_PATTERN = /(```[^`]+```|\*[^*\n]+\*|_[^_\n]+_|~[^~\n]+~)/g;
+
+// Placeholders still in the text once rendered are missing a value
+const UNFILLED_PATTERN = /(\{\{\s*[\w.-]+\s*\}\})/g;
+
+const formatText = (text: string, keyPrefix: string): ReactNode[] =>
+  text.split(FORMAT_PATTERN).map((part, index) => {
+    const key = `${keyPrefix}-${index}`;
+    if (part.startsWith("```") && part.endsWith("```") && part.length > 6) {
+      return (
+        <code key={key} className="font-mono">
+          {part.slice(3, -3)}
+        </code>
+      );
+    }
+    if (part.length > 2 && part.startsWith("*") && part.endsWith("*"))
+      return <strong key={key}>{part.slice(1, -1)}</strong>;
+    if (part.length > 2 && part.startsWith("_") && part.endsWith("_")) return <em key={key}>{part.slice(1, -1)}</em>;
+    if (part.length > 2 && part.startsWith("~") && part.endsWith("~")) return <s key={key}>{part.slice(1, -1)}</s>;
+    return part;
+  });
+
+interface MessagePreviewProps {
+  content: string;
+  type?: MessageType;
+  fileName?: string;
+}
+
+export function MessagePreview({ content, type = "text", fileName }: MessagePreviewProps) {
+  return (
+    <div className="rounded-lg bg-[#efeae2] p-4 dark:bg-[#0b141a]">
+      <div className="ml-auto w-fit max-w-[85%] rounded-lg rounded-tr-none bg-[#d9fdd3] px-3 py-2 text-sm text-[#111b21] shadow-sm dark:bg-[#005c4b] dark:text-[#e9edef]">
+        {type !== "text" && (
+          <p className="mb-1 text-xs font-medium uppercase opacity-70">
+            {type}
+            {fileName && ` · ${fileName}`}
+          </p>
+        )}
+        {content ? (
+          <p className="whitespace-pre-wrap break-words">
+            {content.split(UNFILLED_PATTERN).map((part, index) =>
+              // Odd entries are the captured placeholders
+              index % 2 === 1 ? (
+                <mark key={index} className="rounded bg-amber-200 px-0.5 text-amber-900">
+                  {part}
+                </mark>
+              ) : (
+                formatText(part, String(index))
+              ),
+            )}
+          </p>
+        ) : (
+          <p className="italic opacity-60">Your message will appear here</p>
+        )}
+        <div className="mt-1 flex items-center justify-end gap-1 text-[11px] opacity-60">
+          {format(new Date(), "h:mm a")}
+          <CheckCheck className="h-3 w-3" />
+        </div>
+      </div>
+    </div>
+  );
+}
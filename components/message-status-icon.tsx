@@ -0,0 +1,18 @@
+import { Check, CheckCheck, Clock, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { MessageStatus } from "@/lib/api/types";
+
+export function MessageStatusIcon({ status, className }: { status?: MessageStatus; className?: string }) {
+  switch (status) {
+    case "sent":
+      return <Check className={cn("h-4 w-4 text-gray-500", className)} />;
+    case "delivered":
+      return <CheckCheck className={cn("h-4 w-4 text-blue-500", className)} />;
+    case "read":
+      return <CheckCheck className={cn("h-4 w-4 text-green-500", className)} />;
+    case "failed":
+      return <X className={cn("h-4 w-4 text-red-500", className)} />;
+    default:
+      return <Clock className={cn("h-4 w-4 text-gray-500", className)} />;
+  }
+}
@@ -0,0 +1,110 @@
+"use client";
+
+import { toast } from "sonner";
+import { Check, ChevronsUpDown, Loader2, MessageSquare } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { SidebarMenu, SidebarMenuButton, SidebarMenuItem } from "@/components/ui/sidebar";
+import { Skeleton } from "@/components/ui/skeleton";
+import { getErrorMessage, useOrganizations } from "@/lib/api/hooks";
+import { useSessionUser, useSwitchOrganization } from "@/lib/hooks/auth";
+import { TEAM_ROLES } from "@/lib/team";
+import type { OrganizationMembership } from "@/lib/api/types";
+
+export function OrganizationSwitcher() {
+  const { organization, isLoading } = useSessionUser();
+  const { data: organizationsData, isLoading: isOrganizationsLoading } = useOrganizations();
+  const switchMutation = useSwitchOrganization();
+
+  const memberships = [...(organizationsData?.data?.organizations ?? [])].sort((a, b) =>
+    a.organization.name.localeCompare(b.organization.name),
+  );
+
+  const handleSwitch = async (membership: OrganizationMembership) => {
+    if (membership.organization.id === organization?.id) return;
+
+    try {
+      await switchMutation.mutateAsync(membership.organization.id);
+      toast.success("Switched organization", { description: `You're now working in ${membership.organization.name}.` });
+    } catch (error) {
+      toast.error("Failed to switch organization", { description: getErrorMessage(error) });
+    }
+  };
+
+  return (
+    <SidebarMenu>
+      <SidebarMenuItem>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <SidebarMenuButton
+              size="lg"
+              className="data-[state=open]:bg-sidebar-accent data-[state=open]:text-sidebar-accent-foreground"
+            >
+              <div className="flex aspect-square size-8 items-center justify-center rounded-lg bg-green-600 text-white">
+                <MessageSquare className="size-4" />
+              </div>
+              {isLoading || !organization ? (
+                <div className="grid flex-1 gap-1">
+                  <Skeleton className="h-3 w-28" />
+                  <Skeleton className="h-3 w-20" />
+                </div>
+              ) : (
+                <div className="grid flex-1 text-left text-sm leading-tight">
+                  <span className="truncate font-semibold">{organization.name}</span>
+                  <span className="truncate text-xs">WhatsApp Business</span>
+                </div>
+              )}
+              <ChevronsUpDown className="ml-auto size-4" />
+            </SidebarMenuButton>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent
+            className="w-[--radix-dropdown-menu-trigger-width] min-w-56 rounded-lg"
+            side="bottom"
+            align="start"
+            sideOffset={4}
+          >
+            <DropdownMenuLabel className="text-xs text-muted-foreground">Organizations</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {isOrganizationsLoading ? (
+              <div className="flex justify-center py-2">
+                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              memberships.map((membership) => {
+                const isCurrent = membership.organization.id === organization?.id;
+                const isSwitching = switchMutation.isPending && switchMutation.variables === membership.organization.id;
+
+                return (
+                  <DropdownMenuItem
+                    key={membership.organization.id}
+                    disabled={switchMutation.isPending}
+                    onSelect={() => handleSwitch(membership)}
+                    className="gap-2"
+                  >
+                    <div className="grid flex-1 leading-tight">
+                      <span className="truncate">{membership.organization.name}</span>
+                      <span className="truncate text-xs text-muted-foreground">
+                        {TEAM_ROLES[membership.role].label}
+                      </span>
+                    </div>
+                    {isSwitching ? (
+                      <Loader2 className="animate-spin" />
+                    ) : (
+                      isCurrent && <Check className="text-green-600" />
+                    )}
+                  </DropdownMenuItem>
+                );
+              })
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </SidebarMenuItem>
+    </SidebarMenu>
+  );
+}
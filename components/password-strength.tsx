@@ -0,0 +1,51 @@
+"use client";
+
+import { Check, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getPasswordStrength, PASSWORD_RULES, type PasswordStrength as Strength } from "@/lib/password";
+
+const STRENGTH_STYLES: Record<Strength, { label: string; bar: string; text: string }> = {
+  weak: { label: "Weak", bar: "bg-red-500", text: "text-red-600" },
+  fair: { label: "Fair", bar: "bg-orange-500", text: "text-orange-600" },
+  good: { label: "Good", bar: "bg-green-500", text: "text-green-600" },
+  strong: { label: "Strong", bar: "bg-green-600", text: "text-green-700" },
+};
+
+interface PasswordStrengthProps {
+  password: string;
+  className?: string;
+}
+
+export function PasswordStrength({ password, className }: PasswordStrengthProps) {
+  if (!password) return null;
+
+  const { score, strength } = getPasswordStrength(password);
+  const style = STRENGTH_STYLES[strength];
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="flex items-center gap-2">
+        <div className="flex flex-1 gap-1">
+          {Array.from({ length: 5 }).map((_, i) => (
+            <div key={i} className={cn("h-1 flex-1 rounded-full", i < score ? style.bar : "bg-muted")} />
+          ))}
+        </div>
+        <span className={cn("text-xs font-medium", style.text)}>{style.label}</span>
+      </div>
+      <ul className="grid grid-cols-2 gap-1 text-xs">
+        {PASSWORD_RULES.map((rule) => {
+          const passed = rule.test(password);
+          return (
+            <li
+              key={rule.label}
+              className={cn("flex items-center gap-1", passed ? "text-green-600" : "text-muted-foreground")}
+            >
+              {passed ? <Check className="h-3 w-3" /> : <X className="h-3 w-3" />}
+              {rule.label}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
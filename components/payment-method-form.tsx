@@ -0,0 +1,139 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Elements, PaymentElement, useElements, useStripe } from "@stripe/react-stripe-js";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { useCreateSetupIntent, useSetDefaultPaymentMethod, getErrorMessage, queryKeys } from "@/lib/api/hooks";
+import { getStripe } from "@/lib/stripe";
+
+interface PaymentMethodFormProps {
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Collects card details with Stripe Elements and confirms a SetupIntent,
+ * so raw card data never touches our frontend or API.
+ */
+export function PaymentMethodForm({ onSuccess, onCancel }: PaymentMethodFormProps) {
+  const [clientSecret, setClientSecret] = useState<string | null>(null);
+  const { mutateAsync: createSetupIntent, isError } = useCreateSetupIntent();
+  // Every call creates a SetupIntent at Stripe, make sure the strict mode double effect doesn't create two
+  const setupStartedRef = useRef(false);
+
+  useEffect(() => {
+    if (setupStartedRef.current) return;
+    setupStartedRef.current = true;
+
+    createSetupIntent()
+      .then((response) => setClientSecret(response.data?.clientSecret || null))
+      .catch((error) => toast.error("Failed to start card setup", { description: getErrorMessage(error) }));
+  }, [createSetupIntent]);
+
+  if (isError) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-red-500">We couldn&apos;t start the card setup. Please try again.</p>
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Back
+        </Button>
+      </div>
+    );
+  }
+
+  if (!clientSecret) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <Elements stripe={getStripe()} options={{ clientSecret }}>
+      <SetupForm onSuccess={onSuccess} onCancel={onCancel} />
+    </Elements>
+  );
+}
+
+function SetupForm({ onSuccess, onCancel }: PaymentMethodFormProps) {
+  const stripe = useStripe();
+  const elements = useElements();
+  const [makeDefault, setMakeDefault] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const queryClient = useQueryClient();
+  const setDefaultMutation = useSetDefaultPaymentMethod();
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!stripe || !elements) return;
+
+    setIsSubmitting(true);
+    try {
+      // Stripe handles any 3DS challenge in a modal and only redirects for methods that require it
+      const { error, setupIntent } = await stripe.confirmSetup({
+        elements,
+        redirect: "if_required",
+        confirmParams: { return_url: `${window.location.origin}/billing` },
+      });
+
+      if (error) {
+        toast.error("Card could not be saved", { description: error.message });
+        return;
+      }
+
+      const paymentMethodId =
+        typeof setupIntent?.payment_method === "string" ? setupIntent.payment_method : setupIntent?.payment_method?.id;
+
+      // The card is saved at this point, list it even if making it the default fails
+      void queryClient.invalidateQueries({ queryKey: queryKeys.paymentMethods });
+
+      if (makeDefault && paymentMethodId) {
+        await setDefaultMutation.mutateAsync(paymentMethodId);
+      }
+
+      toast.success("Payment method saved");
+      onSuccess();
+    } catch (error) {
+      toast.error("Failed to save payment method", { description: getErrorMessage(error) });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <PaymentElement options={{ layout: "tabs" }} />
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="makeDefault"
+          checked={makeDefault}
+          onCheckedChange={(checked) => setMakeDefault(checked as boolean)}
+        />
+        <Label htmlFor="makeDefault" className="text-sm">
+          Use as default payment method
+        </Label>
+      </div>
+      <div className="flex items-center space-x-2">
+        <Button type="submit" disabled={!stripe || isSubmitting}>
+          {isSubmitting ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            "Save Card"
+          )}
+        </Button>
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,458 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { Copy, KeyRound, Loader2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  getErrorMessage,
+  useCurrentSubscription,
+  useDeleteSsoConnection,
+  useSsoConnection,
+  useUpdateSsoConnection,
+} from "@/lib/api/hooks";
+import { useUIStore } from "@/lib/stores/ui";
+import { getSsoCallbackUrl, SSO_CALLBACK_PATH } from "@/lib/sso";
+import type { SsoConnection, UpdateSsoConnectionRequest } from "@/lib/api/types";
+
+const DOMAIN_PATTERN = /^([a-z0-9-]+\.)+[a-z]{2,}$/;
+
+// Domains can be separated by commas, spaces or new lines
+const parseDomains = (value: string) =>
+  value
+    .split(/[\s,]+/)
+    .map((domain) => domain.trim().toLowerCase())
+    .filter(Boolean);
+
+const isUrl = (value: string) => {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const ssoSchema = z
+  .object({
+    protocol: z.enum(["oidc", "saml"]),
+    domains: z
+      .string()
+      .refine((value) => parseDomains(value).length > 0, "Add at least one email domain")
+      .refine(
+        (value) => parseDomains(value).every((domain) => DOMAIN_PATTERN.test(domain)),
+        "Enter domains like example.com, separated by commas",
+      ),
+    enabled: z.boolean(),
+    enforced: z.boolean(),
+    issuer: z.string().trim(),
+    clientId: z.string().trim(),
+    clientSecret: z.string().trim(),
+    metadataUrl: z.string().trim(),
+    metadataXml: z.string().trim(),
+  })
+  .superRefine((data, ctx) => {
+    if (data.protocol === "oidc") {
+      if (!isUrl(data.issuer)) {
+        ctx.addIssue({ code: "custom", path: ["issuer"], message: "Enter the issuer URL" });
+      }
+      if (!data.clientId) {
+        ctx.addIssue({ code: "custom", path: ["clientId"], message: "Client ID is required" });
+      }
+      return;
+    }
+
+    if (!data.metadataUrl && !data.metadataXml) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["metadataUrl"],
+        message: "Enter the metadata URL or paste the metadata XML",
+      });
+    } else if (data.metadataUrl && !isUrl(data.metadataUrl)) {
+      ctx.addIssue({ code: "custom", path: ["metadataUrl"], message: "Enter a valid URL" });
+    }
+  });
+
+type SsoForm = z.infer<typeof ssoSchema>;
+
+const toFormValues = (connection: SsoConnection | null | undefined): SsoForm => ({
+  protocol: connection?.protocol ?? "oidc",
+  domains: connection?.domains.join(", ") ?? "",
+  enabled: connection?.enabled ?? true,
+  enforced: connection?.enforced ?? false,
+  issuer: connection?.oidc?.issuer ?? "",
+  clientId: connection?.oidc?.clientId ?? "",
+  clientSecret: "",
+  metadataUrl: connection?.saml?.metadataUrl ?? "",
+  metadataXml: "",
+});
+
+const copyToClipboard = async (text: string, what: string) => {
+  try {
+    await navigator.clipboard.writeText(text);
+    toast.success(`${what} copied`);
+  } catch {
+    toast.error("Couldn't copy to the clipboard");
+  }
+};
+
+export function SsoSettings() {
+  const { data: subscriptionData, isLoading: isSubscriptionLoading } = useCurrentSubscription();
+  const isEnterprise = subscriptionData?.data?.subscription?.planType === "enterprise";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          Single Sign-On
+        </CardTitle>
+        <CardDescription>
+          Let your team sign in through your identity provider with OpenID Connect or SAML
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isSubscriptionLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : isEnterprise ? (
+          <SsoConnectionForm />
+        ) : (
+          <div className="flex flex-col items-start gap-3">
+            <p className="text-sm text-muted-foreground">Single sign-on is available on the Enterprise plan.</p>
+            <Button variant="outline" asChild>
+              <Link href="/billing">View Plans</Link>
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function SsoConnectionForm() {
+  const [showRemove, setShowRemove] = useState(false);
+  const { addNotification } = useUIStore();
+
+  const { data, isLoading } = useSsoConnection();
+  const connection = data?.data?.connection ?? null;
+  const updateMutation = useUpdateSsoConnection();
+  const deleteMutation = useDeleteSsoConnection();
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    setError,
+    watch,
+    formState: { errors, isDirty },
+  } = useForm<SsoForm>({
+    resolver: zodResolver(ssoSchema),
+    values: toFormValues(connection),
+  });
+
+  const protocol = watch("protocol");
+  const enabled = watch("enabled");
+  const enforced = watch("enforced");
+  // Client components render on the server too, where there is no origin yet
+  const callbackUrl = typeof window === "undefined" ? SSO_CALLBACK_PATH : getSsoCallbackUrl(window.location.origin);
+
+  const handleSave = async (form: SsoForm) => {
+    // The saved secret is kept when the field is left empty, a new connection needs one
+    if (form.protocol === "oidc" && !form.clientSecret && !connection?.oidc?.hasClientSecret) {
+      setError("clientSecret", { message: "Client secret is required" });
+      return;
+    }
+
+    const request: UpdateSsoConnectionRequest = {
+      protocol: form.protocol,
+      domains: parseDomains(form.domains),
+      enabled: form.enabled,
+      enforced: form.enabled && form.enforced,
+      ...(form.protocol === "oidc"
+        ? {
+            oidc: {
+              issuer: form.issuer,
+              clientId: form.clientId,
+              clientSecret: form.clientSecret || undefined,
+            },
+          }
+        : {
+            saml: {
+              metadataUrl: form.metadataUrl || undefined,
+              metadataXml: form.metadataXml || undefined,
+            },
+          }),
+    };
+
+    try {
+      await updateMutation.mutateAsync(request);
+      toast.success("Single sign-on saved", {
+        description: form.enabled
+          ? "People at these domains can now sign in with your identity provider."
+          : "The connection is saved but turned off.",
+      });
+    } catch (error) {
+      const message = getErrorMessage(error);
+      toast.error("Failed to save single sign-on", { description: message });
+      addNotification({ type: "error", title: "SSO Not Saved", message });
+    }
+  };
+
+  const handleRemove = async () => {
+    try {
+      await deleteMutation.mutateAsync();
+      setShowRemove(false);
+      toast.success("Single sign-on removed", { description: "Everyone signs in with their password again." });
+    } catch (error) {
+      toast.error("Failed to remove single sign-on", { description: getErrorMessage(error) });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <form onSubmit={handleSubmit(handleSave)} className="max-w-xl space-y-4">
+        {connection && (
+          <div className="flex items-center gap-2">
+            <Badge variant={connection.enabled ? "default" : "secondary"}>
+              {connection.enabled ? "Enabled" : "Disabled"}
+            </Badge>
+            {connection.enforced && <Badge variant="outline">Required</Badge>}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>Protocol</Label>
+          <Select
+            value={protocol}
+            onValueChange={(value) => setValue("protocol", value as SsoForm["protocol"], { shouldDirty: true })}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="oidc">OpenID Connect</SelectItem>
+              <SelectItem value="saml">SAML 2.0</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="ssoDomains">Email domains</Label>
+          <Input
+            id="ssoDomains"
+            placeholder="example.com, example.org"
+            {...register("domains")}
+            className={errors.domains ? "border-red-500" : ""}
+          />
+          {errors.domains ? (
+            <p className="text-sm text-red-500">{errors.domains.message}</p>
+          ) : (
+            <p className="text-sm text-muted-foreground">People signing in with these domains are sent to SSO</p>
+          )}
+        </div>
+
+        <div className="space-y-3 rounded-md bg-muted p-3">
+          <p className="text-sm font-medium">Register these with your identity provider</p>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">
+              {protocol === "oidc" ? "Redirect URI" : "Assertion consumer service (ACS) URL"}
+            </Label>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 break-all text-sm">{callbackUrl}</code>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => copyToClipboard(callbackUrl, protocol === "oidc" ? "Redirect URI" : "ACS URL")}
+              >
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+          {protocol === "saml" && (
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Entity ID</Label>
+              {connection?.serviceProviderEntityId ? (
+                <div className="flex items-center gap-2">
+                  <code className="flex-1 break-all text-sm">{connection.serviceProviderEntityId}</code>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => copyToClipboard(connection.serviceProviderEntityId, "Entity ID")}
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">Shown once the connection is saved</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        {protocol === "oidc" ? (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="ssoIssuer">Issuer URL</Label>
+              <Input
+                id="ssoIssuer"
+                placeholder="https://login.example.com"
+                {...register("issuer")}
+                className={errors.issuer ? "border-red-500" : ""}
+              />
+              {errors.issuer && <p className="text-sm text-red-500">{errors.issuer.message}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ssoClientId">Client ID</Label>
+              <Input id="ssoClientId" {...register("clientId")} className={errors.clientId ? "border-red-500" : ""} />
+              {errors.clientId && <p className="text-sm text-red-500">{errors.clientId.message}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ssoClientSecret">Client secret</Label>
+              <Input
+                id="ssoClientSecret"
+                type="password"
+                autoComplete="off"
+                placeholder={connection?.oidc?.hasClientSecret ? "Saved, enter a new one to replace it" : ""}
+                {...register("clientSecret")}
+                className={errors.clientSecret ? "border-red-500" : ""}
+              />
+              {errors.clientSecret && <p className="text-sm text-red-500">{errors.clientSecret.message}</p>}
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="ssoMetadataUrl">Metadata URL</Label>
+              <Input
+                id="ssoMetadataUrl"
+                placeholder="https://login.example.com/saml/metadata"
+                {...register("metadataUrl")}
+                className={errors.metadataUrl ? "border-red-500" : ""}
+              />
+              {errors.metadataUrl && <p className="text-sm text-red-500">{errors.metadataUrl.message}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ssoMetadataXml">Or paste the metadata XML</Label>
+              <Textarea
+                id="ssoMetadataXml"
+                rows={4}
+                className="font-mono text-xs"
+                placeholder="<EntityDescriptor ...>"
+                {...register("metadataXml")}
+              />
+            </div>
+            {connection?.saml && (
+              <div className="space-y-1 text-sm text-muted-foreground">
+                <p>Identity provider: {connection.saml.entityId}</p>
+                <p className="break-all">Sign-in URL: {connection.saml.ssoUrl}</p>
+                {connection.saml.certificateExpiresAt && (
+                  <p>
+                    Signing certificate expires {format(new Date(connection.saml.certificateExpiresAt), "MMM dd, yyyy")}
+                  </p>
+                )}
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="space-y-3">
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="ssoEnabled"
+              checked={enabled}
+              onCheckedChange={(checked) => setValue("enabled", checked as boolean, { shouldDirty: true })}
+            />
+            <Label htmlFor="ssoEnabled" className="text-sm">
+              Allow signing in with SSO
+            </Label>
+          </div>
+          <div className="flex items-start space-x-2">
+            <Checkbox
+              id="ssoEnforced"
+              checked={enforced}
+              disabled={!enabled}
+              onCheckedChange={(checked) => setValue("enforced", checked as boolean, { shouldDirty: true })}
+            />
+            <div className="space-y-1">
+              <Label htmlFor="ssoEnforced" className="text-sm">
+                Require SSO for these domains
+              </Label>
+              <p className="text-sm text-muted-foreground">
+                Password sign-in stops working for these addresses. Test the connection before turning this on.
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex space-x-2">
+          <Button type="submit" disabled={!isDirty || updateMutation.isPending}>
+            {updateMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              "Save Changes"
+            )}
+          </Button>
+          {connection && (
+            <Button type="button" variant="outline" onClick={() => setShowRemove(true)}>
+              Remove
+            </Button>
+          )}
+        </div>
+      </form>
+
+      <Dialog open={showRemove} onOpenChange={setShowRemove}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Remove Single Sign-On</DialogTitle>
+            <DialogDescription>
+              Your team signs in with their passwords again. People who only ever used SSO have to reset their password
+              first.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setShowRemove(false)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleRemove} disabled={deleteMutation.isPending}>
+              {deleteMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Removing...
+                </>
+              ) : (
+                "Remove"
+              )}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,508 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { toast } from "sonner";
+import { Copy, Download, FileText, Loader2, MoreVertical, Pencil, Plus, Search, Trash2, Upload } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { TemplateCardSkeleton } from "@/components/ui/skeletons";
+import {
+  useMessageTemplates,
+  useCreateMessageTemplate,
+  useUpdateMessageTemplate,
+  useDeleteMessageTemplate,
+  getErrorMessage,
+} from "@/lib/api/hooks";
+import { usePermission } from "@/lib/hooks/permissions";
+import { extractVariables, getTemplateVariables, parseTemplateImport, serializeTemplates } from "@/lib/templates";
+import { downloadFile } from "@/lib/utils";
+import type { CreateMessageTemplateRequest, MessageTemplate } from "@/lib/api/types";
+
+const ALL_CATEGORIES = "all";
+const UNCATEGORIZED = "uncategorized";
+
+const templateSchema = z.object({
+  name: z.string().min(1, "Template name is required").max(100, "Name too long"),
+  category: z.string().max(50, "Category too long"),
+  content: z.string().min(1, "Template content is required").max(4096, "Content too long"),
+});
+
+type TemplateData = z.infer<typeof templateSchema>;
+
+const toTemplateRequest = (data: TemplateData): CreateMessageTemplateRequest => ({
+  name: data.name.trim(),
+  content: data.content,
+  variables: extractVariables(data.content),
+  category: data.category.trim() || undefined,
+});
+
+interface TemplateLibraryProps {
+  onUseTemplate: (template: MessageTemplate) => void;
+}
+
+export function TemplateLibrary({ onUseTemplate }: TemplateLibraryProps) {
+  const [search, setSearch] = useState("");
+  const [categoryFilter, setCategoryFilter] = useState(ALL_CATEGORIES);
+  const [showNewTemplate, setShowNewTemplate] = useState(false);
+  const [deletingTemplate, setDeletingTemplate] = useState<MessageTemplate | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const canManageTemplates = usePermission("templates:manage");
+
+  const { data: templatesData, isLoading } = useMessageTemplates();
+  const createTemplateMutation = useCreateMessageTemplate();
+  const deleteTemplateMutation = useDeleteMessageTemplate();
+
+  const templates = useMemo(() => templatesData?.data?.templates || [], [templatesData]);
+  const categories = useMemo(
+    () => Array.from(new Set(templates.map((t) => t.category).filter((c): c is string => !!c))).sort(),
+    [templates],
+  );
+
+  const filteredTemplates = templates.filter((template) => {
+    const matchesCategory =
+      categoryFilter === ALL_CATEGORIES ||
+      (categoryFilter === UNCATEGORIZED ? !template.category : template.category === categoryFilter);
+    const query = search.trim().toLowerCase();
+    const matchesSearch =
+      !query || template.name.toLowerCase().includes(query) || template.content.toLowerCase().includes(query);
+    return matchesCategory && matchesSearch;
+  });
+
+  const handleCreateTemplate = async (data: TemplateData) => {
+    try {
+      await createTemplateMutation.mutateAsync(toTemplateRequest(data));
+      toast.success(`Template "${data.name}" created`);
+      setShowNewTemplate(false);
+    } catch (error) {
+      toast.error("Failed to create template", { description: getErrorMessage(error) });
+    }
+  };
+
+  const handleDuplicateTemplate = async (template: MessageTemplate) => {
+    try {
+      await createTemplateMutation.mutateAsync({
+        name: `${template.name} (copy)`.slice(0, 100),
+        content: template.content,
+        variables: getTemplateVariables(template),
+        category: template.category,
+      });
+      toast.success(`Template "${template.name}" duplicated`);
+    } catch (error) {
+      toast.error("Failed to duplicate template", { description: getErrorMessage(error) });
+    }
+  };
+
+  const handleDeleteTemplate = async () => {
+    if (!deletingTemplate) return;
+
+    try {
+      await deleteTemplateMutation.mutateAsync(deletingTemplate.id);
+      toast.success(`Template "${deletingTemplate.name}" deleted`);
+      setDeletingTemplate(null);
+    } catch (error) {
+      toast.error("Failed to delete template", { description: getErrorMessage(error) });
+    }
+  };
+
+  const handleExport = () => {
+    const exported = filteredTemplates.length ? filteredTemplates : templates;
+    downloadFile(
+      serializeTemplates(exported),
+      `templates-${new Date().toISOString().slice(0, 10)}.json`,
+      "application/json",
+    );
+    toast.success(`Exported ${exported.length} template${exported.length === 1 ? "" : "s"}`);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    let imported: CreateMessageTemplateRequest[];
+    try {
+      imported = parseTemplateImport(await file.text());
+    } catch (error) {
+      toast.error("Import failed", { description: getErrorMessage(error) });
+      return;
+    }
+
+    // Skip templates that already exist with the same name and content, so re-importing a file is harmless
+    const existing = new Set(templates.map((t) => `${t.name}\n${t.content}`));
+    const toCreate = imported.filter((t) => !existing.has(`${t.name}\n${t.content}`));
+
+    setIsImporting(true);
+    let created = 0;
+    let failed = 0;
+    for (const template of toCreate) {
+      try {
+        await createTemplateMutation.mutateAsync(template);
+        created++;
+      } catch (error) {
+        console.error(`Failed to import template "${template.name}":`, error);
+        failed++;
+      }
+    }
+    setIsImporting(false);
+
+    const skipped = imported.length - toCreate.length;
+    const details = [skipped && `${skipped} already existed`, failed && `${failed} failed`].filter(Boolean).join(", ");
+    if (failed) {
+      toast.error(`Imported ${created} of ${imported.length} templates`, { description: details });
+    } else {
+      toast.success(`Imported ${created} template${created === 1 ? "" : "s"}`, { description: details || undefined });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Message Templates</CardTitle>
+            <CardDescription>Quick response templates for common messages</CardDescription>
+          </div>
+          <div className="flex items-center space-x-2">
+            {canManageTemplates && (
+              <>
+                <Button variant="outline" onClick={() => importInputRef.current?.click()} disabled={isImporting}>
+                  {isImporting ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Upload className="mr-2 h-4 w-4" />
+                  )}
+                  Import
+                </Button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  className="hidden"
+                  onChange={handleImport}
+                />
+              </>
+            )}
+            <Button variant="outline" onClick={handleExport} disabled={templates.length === 0}>
+              <Download className="mr-2 h-4 w-4" />
+              Export
+            </Button>
+            {canManageTemplates && (
+              <Button onClick={() => setShowNewTemplate(true)}>
+                <Plus className="mr-2 h-4 w-4" />
+                Create Template
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {/* Filters */}
+        <div className="flex items-center space-x-2 mb-4">
+          <div className="relative flex-1">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search templates..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-8"
+            />
+          </div>
+          <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+            <SelectTrigger className="w-44">
+              <SelectValue placeholder="Category" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_CATEGORIES}>All Categories</SelectItem>
+              {categories.map((category) => (
+                <SelectItem key={category} value={category}>
+                  {category}
+                </SelectItem>
+              ))}
+              <SelectItem value={UNCATEGORIZED}>Uncategorized</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {showNewTemplate && canManageTemplates && (
+          <Card className="mb-6 border-dashed">
+            <CardHeader>
+              <CardTitle className="text-base">New Template</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <TemplateForm
+                categories={categories}
+                submitLabel="Create Template"
+                isPending={createTemplateMutation.isPending}
+                onSubmit={handleCreateTemplate}
+                onCancel={() => setShowNewTemplate(false)}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {isLoading ? (
+            Array.from({ length: 6 }).map((_, i) => <TemplateCardSkeleton key={i} />)
+          ) : templates.length === 0 ? (
+            <div className="col-span-full text-center py-8">
+              <FileText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-medium">No templates yet</h3>
+              <p className="text-muted-foreground mb-4">Create your first template for quick messaging</p>
+              {canManageTemplates && <Button onClick={() => setShowNewTemplate(true)}>Create Template</Button>}
+            </div>
+          ) : filteredTemplates.length === 0 ? (
+            <div className="col-span-full text-center py-8">
+              <Search className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-medium">No templates found</h3>
+              <p className="text-muted-foreground">Try adjusting your search or category filter</p>
+            </div>
+          ) : (
+            filteredTemplates.map((template) => (
+              <TemplateCard
+                key={template.id}
+                template={template}
+                categories={categories}
+                canManage={canManageTemplates}
+                onUse={() => onUseTemplate(template)}
+                onDuplicate={() => handleDuplicateTemplate(template)}
+                onDelete={() => setDeletingTemplate(template)}
+              />
+            ))
+          )}
+        </div>
+      </CardContent>
+
+      {/* Delete Confirmation Modal */}
+      <Dialog open={!!deletingTemplate} onOpenChange={(open) => !open && setDeletingTemplate(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Template</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete &quot;{deletingTemplate?.name}&quot;? This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setDeletingTemplate(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDeleteTemplate} disabled={deleteTemplateMutation.isPending}>
+              {deleteTemplateMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Deleting...
+                </>
+              ) : (
+                "Delete"
+              )}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+interface TemplateCardProps {
+  template: MessageTemplate;
+  categories: string[];
+  // Viewers and agents can use templates but not change them
+  canManage: boolean;
+  onUse: () => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+}
+
+function TemplateCard({ template, categories, canManage, onUse, onDuplicate, onDelete }: TemplateCardProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const updateTemplateMutation = useUpdateMessageTemplate(template.id);
+
+  const handleUpdate = async (data: TemplateData) => {
+    try {
+      // An empty string clears the category, undefined would leave it unchanged
+      await updateTemplateMutation.mutateAsync({ ...toTemplateRequest(data), category: data.category.trim() });
+      toast.success(`Template "${data.name}" updated`);
+      setIsEditing(false);
+    } catch (error) {
+      toast.error("Failed to update template", { description: getErrorMessage(error) });
+    }
+  };
+
+  if (isEditing && canManage) {
+    return (
+      <Card className="border-dashed md:col-span-2 lg:col-span-3">
+        <CardHeader>
+          <CardTitle className="text-base">Edit Template</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <TemplateForm
+            defaultValues={{ name: template.name, category: template.category || "", content: template.content }}
+            categories={categories}
+            submitLabel="Save Changes"
+            isPending={updateTemplateMutation.isPending}
+            onSubmit={handleUpdate}
+            onCancel={() => setIsEditing(false)}
+          />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const variables = getTemplateVariables(template);
+
+  return (
+    <Card className="hover:shadow-md transition-shadow">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="min-w-0">
+            <CardTitle className="text-base truncate">{template.name}</CardTitle>
+            {template.category && (
+              <Badge variant="outline" className="mt-1">
+                {template.category}
+              </Badge>
+            )}
+          </div>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="sm">
+                <MoreVertical className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              <DropdownMenuItem onClick={onUse}>Use Template</DropdownMenuItem>
+              {canManage && (
+                <>
+                  <DropdownMenuItem onClick={() => setIsEditing(true)}>
+                    <Pencil className="mr-2 h-4 w-4" />
+                    Edit
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={onDuplicate}>
+                    <Copy className="mr-2 h-4 w-4" />
+                    Duplicate
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem className="text-red-600" onClick={onDelete}>
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Delete
+                  </DropdownMenuItem>
+                </>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-muted-foreground mb-4 line-clamp-3">{template.content}</p>
+        {variables.length > 0 && (
+          <div className="mb-4 flex flex-wrap gap-1">
+            {variables.map((variable) => (
+              <Badge key={variable} variant="secondary">
+                {variable}
+              </Badge>
+            ))}
+          </div>
+        )}
+        <Button size="sm" className="w-full" onClick={onUse}>
+          Use Template
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface TemplateFormProps {
+  defaultValues?: TemplateData;
+  categories: string[];
+  submitLabel: string;
+  isPending: boolean;
+  onSubmit: (data: TemplateData) => Promise<void>;
+  onCancel: () => void;
+}
+
+function TemplateForm({ defaultValues, categories, submitLabel, isPending, onSubmit, onCancel }: TemplateFormProps) {
+  const form = useForm<TemplateData>({
+    resolver: zodResolver(templateSchema),
+    defaultValues: defaultValues || { name: "", category: "", content: "" },
+  });
+
+  const variables = extractVariables(form.watch("content") || "");
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Name *</label>
+          <Input {...form.register("name")} placeholder="Order confirmation" disabled={isPending} />
+          {form.formState.errors.name && <p className="text-sm text-red-500">{form.formState.errors.name.message}</p>}
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Category</label>
+          <Input
+            {...form.register("category")}
+            placeholder="e.g. Support"
+            list="template-categories"
+            disabled={isPending}
+          />
+          <datalist id="template-categories">
+            {categories.map((category) => (
+              <option key={category} value={category} />
+            ))}
+          </datalist>
+          {form.formState.errors.category && (
+            <p className="text-sm text-red-500">{form.formState.errors.category.message}</p>
+          )}
+        </div>
+      </div>
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Content *</label>
+        <Textarea
+          {...form.register("content")}
+          placeholder="Hi {{name}}, your order {{orderId}} is on its way!"
+          rows={4}
+          disabled={isPending}
+        />
+        {form.formState.errors.content && (
+          <p className="text-sm text-red-500">{form.formState.errors.content.message}</p>
+        )}
+        <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+          Use {"{{variable}}"} for values filled in when sending.
+          {variables.map((variable) => (
+            <Badge key={variable} variant="secondary">
+              {variable}
+            </Badge>
+          ))}
+        </div>
+      </div>
+      <div className="flex justify-end space-x-2">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isPending}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isPending}>
+          {isPending ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            submitLabel
+          )}
+        </Button>
+      </div>
+    </form>
+  );
+}
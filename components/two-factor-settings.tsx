@@ -0,0 +1,328 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { toast } from "sonner";
+import { Copy, Download, Loader2, ShieldCheck } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  getErrorMessage,
+  useDisableTwoFactor,
+  useEnableTwoFactor,
+  useForgetRememberedDevices,
+  useRegenerateRecoveryCodes,
+  useSetupTwoFactor,
+} from "@/lib/api/hooks";
+import { useUIStore } from "@/lib/stores/ui";
+import { downloadFile } from "@/lib/utils";
+import type { User } from "@/lib/api/types";
+
+type TwoFactorSetup = { secret: string; qrCode: string };
+
+// Authenticator codes are 6 digits, people often paste them with a space in the middle
+const normalizeCode = (code: string) => code.replace(/\s/g, "");
+
+const copyToClipboard = async (text: string, what: string) => {
+  try {
+    await navigator.clipboard.writeText(text);
+    toast.success(`${what} copied`);
+  } catch {
+    toast.error("Couldn't copy to the clipboard");
+  }
+};
+
+export function TwoFactorSettings({ user }: { user: User }) {
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [setupCode, setSetupCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [confirmAction, setConfirmAction] = useState<"disable" | "regenerate" | null>(null);
+  const [confirmCode, setConfirmCode] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const { addNotification } = useUIStore();
+
+  const setupMutation = useSetupTwoFactor();
+  const enableMutation = useEnableTwoFactor();
+  const disableMutation = useDisableTwoFactor();
+  const regenerateMutation = useRegenerateRecoveryCodes();
+  const forgetDevicesMutation = useForgetRememberedDevices();
+
+  const handleStartSetup = async () => {
+    try {
+      const response = await setupMutation.mutateAsync();
+      if (response.data) {
+        setSetup({ secret: response.data.secret, qrCode: response.data.qrCode });
+        setSetupCode("");
+      }
+    } catch (error) {
+      toast.error("Couldn't start two-factor setup", { description: getErrorMessage(error) });
+    }
+  };
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const response = await enableMutation.mutateAsync({ code: normalizeCode(setupCode) });
+      setSetup(null);
+      setRecoveryCodes(response.data?.recoveryCodes || []);
+      addNotification({
+        type: "success",
+        title: "Two-Factor Enabled",
+        message: "Your account now asks for an authentication code when you sign in.",
+      });
+    } catch (error) {
+      toast.error("Code not accepted", { description: getErrorMessage(error) });
+    }
+  };
+
+  const closeConfirmDialog = () => {
+    setConfirmAction(null);
+    setConfirmCode("");
+    setConfirmPassword("");
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = normalizeCode(confirmCode);
+
+    try {
+      if (confirmAction === "disable") {
+        await disableMutation.mutateAsync({ password: confirmPassword, code });
+        toast.success("Two-factor authentication disabled");
+        addNotification({
+          type: "warning",
+          title: "Two-Factor Disabled",
+          message: "Your account is protected by your password only.",
+        });
+      } else {
+        const response = await regenerateMutation.mutateAsync({ code });
+        setRecoveryCodes(response.data?.recoveryCodes || []);
+        toast.success("New recovery codes generated", { description: "Your previous codes no longer work." });
+      }
+      closeConfirmDialog();
+    } catch (error) {
+      toast.error(confirmAction === "disable" ? "Failed to disable two-factor" : "Failed to generate codes", {
+        description: getErrorMessage(error),
+      });
+    }
+  };
+
+  const handleForgetDevices = async () => {
+    try {
+      await forgetDevicesMutation.mutateAsync();
+      toast.success("Remembered browsers forgotten", {
+        description: "Every browser will ask for a code at the next sign in.",
+      });
+    } catch (error) {
+      toast.error("Failed to forget browsers", { description: getErrorMessage(error) });
+    }
+  };
+
+  const handleDownloadCodes = () => {
+    if (!recoveryCodes) return;
+    const content = [
+      `Recovery codes for ${user.email}`,
+      "Each code can be used once to sign in if you lose access to your authenticator app.",
+      "",
+      ...recoveryCodes,
+    ].join("\n");
+    downloadFile(content, "recovery-codes.txt", "text/plain");
+  };
+
+  const isConfirming = disableMutation.isPending || regenerateMutation.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Two-Factor Authentication
+          {user.twoFactorEnabled ? (
+            <Badge className="bg-green-100 text-green-800">Enabled</Badge>
+          ) : (
+            <Badge className="bg-gray-100 text-gray-800">Off</Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Require a code from an authenticator app such as Google Authenticator or 1Password when signing in
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {recoveryCodes ? (
+          <div className="max-w-xl space-y-4">
+            <div className="rounded-md border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800">
+              Save these recovery codes somewhere safe. Each one signs you in once if you lose your phone, and they
+              won&apos;t be shown again.
+            </div>
+            <div className="grid grid-cols-2 gap-2 rounded-md bg-muted p-4 font-mono text-sm">
+              {recoveryCodes.map((code) => (
+                <span key={code}>{code}</span>
+              ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <Button variant="outline" onClick={handleDownloadCodes}>
+                <Download className="mr-2 h-4 w-4" />
+                Download
+              </Button>
+              <Button variant="outline" onClick={() => copyToClipboard(recoveryCodes.join("\n"), "Recovery codes")}>
+                <Copy className="mr-2 h-4 w-4" />
+                Copy
+              </Button>
+              <Button onClick={() => setRecoveryCodes(null)}>I&apos;ve saved these codes</Button>
+            </div>
+          </div>
+        ) : setup ? (
+          <form onSubmit={handleEnable} className="max-w-xl space-y-4">
+            <ol className="list-decimal space-y-1 pl-5 text-sm text-muted-foreground">
+              <li>Scan the QR code with your authenticator app</li>
+              <li>Enter the 6-digit code it shows to confirm</li>
+            </ol>
+            <div className="flex flex-wrap items-center gap-6">
+              <Image
+                src={setup.qrCode}
+                alt="Two-factor QR code"
+                width={176}
+                height={176}
+                unoptimized
+                className="h-44 w-44 rounded-md border bg-white p-2"
+              />
+              <div className="space-y-2 text-sm">
+                <p className="text-muted-foreground">Can&apos;t scan it? Enter this key instead:</p>
+                <div className="flex items-center gap-2">
+                  <code className="rounded bg-muted px-2 py-1 font-mono">{setup.secret}</code>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => copyToClipboard(setup.secret, "Setup key")}
+                  >
+                    <Copy className="h-4 w-4" />
+                    <span className="sr-only">Copy setup key</span>
+                  </Button>
+                </div>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="setupCode">Authentication code</Label>
+              <Input
+                id="setupCode"
+                value={setupCode}
+                onChange={(e) => setSetupCode(e.target.value)}
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                className="max-w-40"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Button type="submit" disabled={enableMutation.isPending || normalizeCode(setupCode).length !== 6}>
+                {enableMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Verifying...
+                  </>
+                ) : (
+                  "Enable"
+                )}
+              </Button>
+              <Button type="button" variant="ghost" onClick={() => setSetup(null)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : user.twoFactorEnabled ? (
+          <div className="flex flex-wrap items-center gap-2">
+            <Button variant="outline" onClick={() => setConfirmAction("regenerate")}>
+              Generate New Recovery Codes
+            </Button>
+            <Button variant="outline" onClick={handleForgetDevices} disabled={forgetDevicesMutation.isPending}>
+              {forgetDevicesMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Forget Remembered Browsers
+            </Button>
+            <Button variant="destructive" onClick={() => setConfirmAction("disable")}>
+              Disable
+            </Button>
+          </div>
+        ) : (
+          <Button onClick={handleStartSetup} disabled={setupMutation.isPending}>
+            {setupMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Preparing...
+              </>
+            ) : (
+              "Set Up Two-Factor Authentication"
+            )}
+          </Button>
+        )}
+      </CardContent>
+
+      <Dialog open={!!confirmAction} onOpenChange={(open) => !open && closeConfirmDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {confirmAction === "disable" ? "Disable Two-Factor Authentication" : "Generate New Recovery Codes"}
+            </DialogTitle>
+            <DialogDescription>
+              {confirmAction === "disable"
+                ? "Confirm with your password and a current authentication code."
+                : "Enter a current authentication code. Your existing recovery codes will stop working."}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleConfirm} className="space-y-4">
+            {confirmAction === "disable" && (
+              <div className="space-y-2">
+                <Label htmlFor="twoFactorPassword">Password</Label>
+                <Input
+                  id="twoFactorPassword"
+                  type="password"
+                  autoComplete="current-password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="twoFactorCode">Authentication code</Label>
+              <Input
+                id="twoFactorCode"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                value={confirmCode}
+                onChange={(e) => setConfirmCode(e.target.value)}
+              />
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={closeConfirmDialog}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                variant={confirmAction === "disable" ? "destructive" : "default"}
+                disabled={
+                  isConfirming || !normalizeCode(confirmCode) || (confirmAction === "disable" && !confirmPassword)
+                }
+              >
+                {isConfirming ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Confirming...
+                  </>
+                ) : confirmAction === "disable" ? (
+                  "Disable"
+                ) : (
+                  "Generate Codes"
+                )}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
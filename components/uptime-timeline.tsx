@@ -0,0 +1,82 @@
+"use client";
+
+import { format } from "date-fns";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatUptime, UPTIME_WINDOWS, type AvailabilityBucket, type UptimeWindow } from "@/lib/uptime";
+import { cn } from "@/lib/utils";
+
+const getBucketColor = (uptime: number | null) => {
+  if (uptime === null) return "bg-muted";
+  if (uptime >= 99) return "bg-green-500";
+  if (uptime >= 95) return "bg-green-300";
+  if (uptime >= 80) return "bg-yellow-400";
+  if (uptime >= 50) return "bg-orange-500";
+  return "bg-red-500";
+};
+
+const LEGEND = [
+  { label: "99%+", color: getBucketColor(100) },
+  { label: "95%+", color: getBucketColor(95) },
+  { label: "80%+", color: getBucketColor(80) },
+  { label: "50%+", color: getBucketColor(50) },
+  { label: "Below 50%", color: getBucketColor(0) },
+  { label: "No data", color: getBucketColor(null) },
+];
+
+interface UptimeTimelineProps {
+  buckets: AvailabilityBucket[];
+  className?: string;
+}
+
+// One cell per slice of the window, oldest on the left
+export function UptimeTimeline({ buckets, className }: UptimeTimelineProps) {
+  const isDaily = buckets.length > 1 && buckets[1].start - buckets[0].start >= 24 * 60 * 60 * 1000;
+  const formatTime = (time: number) => format(new Date(time), isDaily ? "MMM dd" : "MMM dd, HH:mm");
+
+  return (
+    <div className={cn("flex h-6 gap-px", className)}>
+      {buckets.map((bucket) => (
+        <div
+          key={bucket.start}
+          className={cn("flex-1 rounded-sm", getBucketColor(bucket.uptime))}
+          title={`${formatTime(bucket.start)}${isDaily ? "" : ` - ${format(new Date(bucket.end), "HH:mm")}`}: ${formatUptime(bucket.uptime)}`}
+        />
+      ))}
+    </div>
+  );
+}
+
+export function UptimeLegend() {
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+      {LEGEND.map((item) => (
+        <span key={item.label} className="flex items-center gap-1">
+          <span className={cn("h-3 w-3 rounded-sm", item.color)} />
+          {item.label}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+interface UptimeWindowSelectProps {
+  value: UptimeWindow;
+  onChange: (window: UptimeWindow) => void;
+}
+
+export function UptimeWindowSelect({ value, onChange }: UptimeWindowSelectProps) {
+  return (
+    <Select value={value} onValueChange={(window) => onChange(window as UptimeWindow)}>
+      <SelectTrigger className="w-40">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(UPTIME_WINDOWS) as UptimeWindow[]).map((window) => (
+          <SelectItem key={window} value={window}>
+            {UPTIME_WINDOWS[window].label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,9 @@
+import { isJWTVerificationConfigured } from "./lib/jwt-verify";
+
+// Runs once when the server starts. Without a verification key the middleware would reject every session token
+// and sign everyone out, so a production server doesn't start at all
+export function register() {
+  if (process.env.NODE_ENV === "production" && !isJWTVerificationConfigured()) {
+    throw new Error("JWT verification is not configured, set JWT_SECRET or JWT_JWKS_URL");
+  }
+}
@@ -0,0 +1,183 @@
+// Message analytics computed client-side from a sample of messages in a date range
+import { differenceInCalendarDays, eachDayOfInterval, eachHourOfInterval, startOfDay, startOfHour } from "date-fns";
+import type { Message, MessageStatus } from "./api/types";
+import { getContactNumber, getConversationKey, getMessageTime } from "./conversations";
+
+export interface DateRange {
+  from: Date;
+  to: Date;
+}
+
+export type VolumeSplit = "direction" | "type" | "device";
+
+export interface VolumeSeries {
+  keys: string[];
+  buckets: { start: number; counts: Record<string, number> }[];
+  hourly: boolean;
+}
+
+export interface DeliveryStats {
+  total: number;
+  counts: Record<MessageStatus, number>;
+  deliveredRate: number;
+  readRate: number;
+  failedRate: number;
+}
+
+export interface ResponseTimeSummary {
+  count: number;
+  average: number | null;
+  median: number | null;
+  p90: number | null;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+export const MESSAGE_STATUSES: MessageStatus[] = ["pending", "sent", "delivered", "read", "failed"];
+
+export const RESPONSE_TIME_BUCKETS = [
+  { label: "< 1m", max: MINUTE_MS },
+  { label: "1-5m", max: 5 * MINUTE_MS },
+  { label: "5-15m", max: 15 * MINUTE_MS },
+  { label: "15-60m", max: HOUR_MS },
+  { label: "1-4h", max: 4 * HOUR_MS },
+  { label: "4-24h", max: 24 * HOUR_MS },
+  { label: "> 24h", max: Infinity },
+];
+
+export const inRange = (message: Message, range: DateRange) => {
+  const time = getMessageTime(message);
+  return time >= range.from.getTime() && time <= range.to.getTime();
+};
+
+const getSplitKey = (message: Message, split: VolumeSplit) => {
+  switch (split) {
+    case "direction":
+      return message.direction;
+    case "type":
+      return message.messageType || message.type || "text";
+    case "device":
+      return message.deviceId;
+  }
+};
+
+/**
+ * Message counts per day, or per hour for ranges of two days or less, split into series
+ */
+export const getVolumeSeries = (messages: Message[], range: DateRange, split: VolumeSplit): VolumeSeries => {
+  const hourly = differenceInCalendarDays(range.to, range.from) < 2;
+  const bucketStart = (time: number) => (hourly ? startOfHour(time) : startOfDay(time)).getTime();
+  const interval = { start: range.from, end: range.to };
+  const starts = hourly ? eachHourOfInterval(interval) : eachDayOfInterval(interval);
+
+  const buckets = new Map(starts.map((start) => [start.getTime(), {} as Record<string, number>]));
+  const keys = new Set<string>();
+
+  messages.forEach((message) => {
+    const counts = buckets.get(bucketStart(getMessageTime(message)));
+    if (!counts) return;
+    const key = getSplitKey(message, split);
+    keys.add(key);
+    counts[key] = (counts[key] || 0) + 1;
+  });
+
+  return {
+    keys: [...keys].sort(),
+    buckets: [...buckets].map(([start, counts]) => ({ start, counts })),
+    hourly,
+  };
+};
+
+// Rates are out of outbound messages, read messages count as delivered
+export const getDeliveryStats = (messages: Message[]): DeliveryStats => {
+  const counts = Object.fromEntries(MESSAGE_STATUSES.map((status) => [status, 0])) as Record<MessageStatus, number>;
+  const outbound = messages.filter((message) => message.direction === "outbound");
+  outbound.forEach((message) => {
+    counts[message.status || "sent"]++;
+  });
+
+  const total = outbound.length;
+  const rate = (count: number) => (total > 0 ? (count / total) * 100 : 0);
+  return {
+    total,
+    counts,
+    deliveredRate: rate(counts.delivered + counts.read),
+    readRate: rate(counts.read),
+    failedRate: rate(counts.failed),
+  };
+};
+
+/**
+ * Time from the first unanswered inbound message in a conversation to the next outbound reply
+ */
+export const getResponseTimes = (messages: Message[]): number[] => {
+  const conversations = new Map<string, Message[]>();
+  messages.forEach((message) => {
+    const key = getConversationKey(message.deviceId, getContactNumber(message));
+    const conversation = conversations.get(key);
+    if (conversation) {
+      conversation.push(message);
+    } else {
+      conversations.set(key, [message]);
+    }
+  });
+
+  const times: number[] = [];
+  conversations.forEach((conversation) => {
+    let waitingSince: number | null = null;
+    conversation
+      .sort((a, b) => getMessageTime(a) - getMessageTime(b))
+      .forEach((message) => {
+        if (message.direction === "inbound") {
+          waitingSince ??= getMessageTime(message);
+        } else if (waitingSince !== null) {
+          times.push(getMessageTime(message) - waitingSince);
+          waitingSince = null;
+        }
+      });
+  });
+
+  return times;
+};
+
+export const summarizeResponseTimes = (times: number[]): ResponseTimeSummary => {
+  if (times.length === 0) return { count: 0, average: null, median: null, p90: null };
+
+  const sorted = [...times].sort((a, b) => a - b);
+  const percentile = (p: number) => sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+  return {
+    count: sorted.length,
+    average: sorted.reduce((sum, time) => sum + time, 0) / sorted.length,
+    median: percentile(0.5),
+    p90: percentile(0.9),
+  };
+};
+
+export const getResponseTimeDistribution = (times: number[]) => {
+  const counts = RESPONSE_TIME_BUCKETS.map(() => 0);
+  times.forEach((time) => {
+    counts[RESPONSE_TIME_BUCKETS.findIndex((bucket) => time < bucket.max)]++;
+  });
+  return RESPONSE_TIME_BUCKETS.map((bucket, index) => ({ label: bucket.label, value: counts[index] }));
+};
+
+// Message counts indexed by day of week (0 = Sunday) then hour, in local time
+export const getHourlyActivity = (messages: Message[]): number[][] => {
+  const grid = Array.from({ length: 7 }, () => Array<number>(24).fill(0));
+  messages.forEach((message) => {
+    const date = new Date(getMessageTime(message));
+    grid[date.getDay()][date.getHours()]++;
+  });
+  return grid;
+};
+
+export const formatDuration = (ms: number | null) => {
+  if (ms === null) return "-";
+  if (ms < MINUTE_MS) return `${Math.round(ms / 1000)}s`;
+  if (ms < HOUR_MS) return `${Math.round(ms / MINUTE_MS)}m`;
+  if (ms < 24 * HOUR_MS) return `${Math.round((ms / HOUR_MS) * 10) / 10}h`;
+  return `${Math.round((ms / (24 * HOUR_MS)) * 10) / 10}d`;
+};
+
+export const formatPercent = (value: number) => `${Math.round(value * 10) / 10}%`;
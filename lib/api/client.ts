@@ -6,14 +6,21 @@ import type {
   RegisterRequest,
   DevicesResponse,
   DeviceResponse,
+  DeviceStatusHistoryResponse,
+  DeviceQRResponse,
+  ConnectDeviceResponse,
   WhatsAppDevice,
   CreateDeviceRequest,
   UpdateDeviceRequest,
   SendMessageRequest,
   SendMessageResponse,
+  MediaType,
+  UploadMediaOptions,
+  UploadMediaResponse,
   PlansResponse,
   CurrentSubscriptionResponse,
   CreateSubscriptionRequest,
+  CreateSubscriptionResponse,
   Usage,
   UsageResponse,
   WorkerStatsResponse,
@@ -26,23 +33,63 @@ import type {
   UpdateMessageTemplateRequest,
   HealthResponse,
   CurrentUsageResponse,
-  PaymentMethodRequest,
-  UpdatePaymentMethodResponse,
+  PaymentMethodsResponse,
+  PaymentMethodResponse,
+  SetupIntentResponse,
   BillingHistoryResponse,
+  TeamMembersResponse,
+  TeamMemberResponse,
+  TeamInvitationsResponse,
+  TeamInvitationResponse,
+  InvitationDetailsResponse,
+  InviteTeamMemberRequest,
+  UpdateTeamMemberRequest,
+  CurrentUserResponse,
+  UserResponse,
+  OrganizationResponse,
+  UpdateProfileRequest,
+  ChangeEmailRequest,
+  ChangePasswordRequest,
+  UpdateOrganizationRequest,
+  DeleteOrganizationRequest,
+  ForgotPasswordRequest,
+  ResetPasswordRequest,
+  PasswordResetTokenResponse,
+  VerifyEmailRequest,
+  LoginResponse,
+  VerifyMfaRequest,
+  TwoFactorSetupResponse,
+  TwoFactorCodeRequest,
+  DisableTwoFactorRequest,
+  RecoveryCodesResponse,
+  SessionsResponse,
+  RealtimeTicketResponse,
+  SsoDiscoveryResponse,
+  SsoConnectionResponse,
+  UpdateSsoConnectionRequest,
+  OrganizationsResponse,
+  SwitchOrganizationRequest,
 } from "./types";
 import { ErrorCode } from "./types";
-import {
-  getAuthToken,
-  setAuthToken,
-  getRefreshToken,
-  setRefreshToken,
-  removeAuthTokens,
-  isTokenExpiredOrExpiringSoon,
-  isRefreshTokenValid,
-} from "../cookies";
 
 export const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8000";
 
+// The browser only talks to the same-origin BFF proxy (app/api), which attaches the httpOnly tokens
+// and refreshes them before forwarding to API_BASE_URL
+export const BFF_BASE_URL = "/api";
+
+// Set by the BFF on a 401 when it had to drop the session because it couldn't be refreshed
+export const SESSION_ENDED_HEADER = "X-Session-Ended";
+// Set by the BFF when it refreshed the session cookies while handling the request
+export const SESSION_REFRESHED_HEADER = "X-Session-Refreshed";
+
+export type SessionEndReason = "expired" | "revoked";
+type SessionEndedListener = (reason: SessionEndReason) => void;
+type SessionRefreshedListener = () => void;
+
+const getSessionEndReason = (header: string | null): SessionEndReason | null =>
+  header === "expired" || header === "revoked" ? header : null;
+
 // Custom error class for API errors
 export class ApiError extends Error {
   constructor(
@@ -59,75 +106,42 @@ export class ApiError extends Error {
 // Generic API client with standardized response handling
 class ApiClient {
   private baseURL: string;
-  private isRefreshing = false;
-  private refreshPromise: Promise<AuthResponse> | null = null;
+  private sessionEndedListeners = new Set<SessionEndedListener>();
+  private sessionRefreshedListeners = new Set<SessionRefreshedListener>();
 
   constructor(baseURL: string) {
     this.baseURL = baseURL;
   }
 
-  private async ensureValidToken(): Promise<void> {
-    if (this.isRefreshing && this.refreshPromise) {
-      await this.refreshPromise;
-      return;
-    }
-
-    const refreshTokenValue = getRefreshToken();
-    if (!refreshTokenValue || !isRefreshTokenValid()) {
-      throw new ApiError(ErrorCode.INVALID_TOKEN, "No valid refresh token available", 401);
-    }
+  // Notified when the session can't be refreshed anymore, e.g. it was signed out from another device
+  onSessionEnded(listener: SessionEndedListener): () => void {
+    this.sessionEndedListeners.add(listener);
+    return () => {
+      this.sessionEndedListeners.delete(listener);
+    };
+  }
 
-    this.isRefreshing = true;
-    this.refreshPromise = this.request<AuthResponse>(
-      "/auth/refresh",
-      {
-        method: "POST",
-        body: JSON.stringify({ refreshToken: refreshTokenValue }),
-      },
-      true,
-    );
+  // Notified when the BFF issued new session cookies, the other tabs share them
+  onSessionRefreshed(listener: SessionRefreshedListener): () => void {
+    this.sessionRefreshedListeners.add(listener);
+    return () => {
+      this.sessionRefreshedListeners.delete(listener);
+    };
+  }
 
-    try {
-      const response = await this.refreshPromise;
-      if (response.success && response.data) {
-        setAuthToken(response.data.accessToken);
-        setRefreshToken(response.data.refreshToken);
-        console.log("Token refreshed successfully");
-      } else {
-        throw new ApiError(ErrorCode.TOKEN_EXPIRED, "Failed to refresh token", 401);
-      }
-    } finally {
-      this.isRefreshing = false;
-      this.refreshPromise = null;
-    }
+  // The BFF has already cleared the session cookies, this only tells the app
+  private endSession(reason: SessionEndReason): ApiError {
+    this.sessionEndedListeners.forEach((listener) => listener(reason));
+    return new ApiError(ErrorCode.TOKEN_EXPIRED, "Session expired. Please log in again.", 401);
   }
 
-  private async request<T extends ApiResponse>(
-    endpoint: string,
-    options: RequestInit = {},
-    isRetry = false,
-  ): Promise<T> {
+  private async request<T extends ApiResponse>(endpoint: string, options: RequestInit = {}): Promise<T> {
     const url = `${this.baseURL}${endpoint}`;
 
-    // Check if we need to refresh the token before making the request
-    if (endpoint !== "/auth/refresh" && endpoint !== "/auth/login" && endpoint !== "/auth/register") {
-      const currentToken = getAuthToken();
-      if (isTokenExpiredOrExpiringSoon(currentToken)) {
-        try {
-          await this.ensureValidToken();
-        } catch (refreshError) {
-          console.error("Token refresh failed:", refreshError);
-          removeAuthTokens();
-          throw new ApiError(ErrorCode.TOKEN_EXPIRED, "Session expired. Please log in again.", 401);
-        }
-      }
-    }
-
-    const token = getAuthToken();
     const config: RequestInit = {
+      credentials: "same-origin",
       headers: {
         "Content-Type": "application/json",
-        ...(token && { Authorization: `Bearer ${token}` }),
         ...options.headers,
       },
       ...options,
@@ -135,8 +149,16 @@ class ApiClient {
 
     try {
       const response = await fetch(url, config);
+      if (response.headers.has(SESSION_REFRESHED_HEADER)) {
+        this.sessionRefreshedListeners.forEach((listener) => listener());
+      }
 
       if (!response.ok) {
+        const sessionEndReason = getSessionEndReason(response.headers.get(SESSION_ENDED_HEADER));
+        if (response.status === 401 && sessionEndReason) {
+          throw this.endSession(sessionEndReason);
+        }
+
         // Try to parse error response
         let errorResponse: ApiResponse;
         try {
@@ -146,25 +168,6 @@ class ApiClient {
           throw new ApiError(ErrorCode.NETWORK_ERROR, response.statusText || "Network error occurred", response.status);
         }
 
-        // Handle 401 Unauthorized - try to refresh token and retry
-        if (
-          response.status === 401 &&
-          !isRetry &&
-          endpoint !== "/auth/refresh" &&
-          endpoint !== "/auth/login" &&
-          endpoint !== "/auth/register"
-        ) {
-          try {
-            await this.ensureValidToken();
-            // Retry the request with the new token
-            return this.request<T>(endpoint, options, true);
-          } catch (refreshError) {
-            console.error("Token refresh retry failed:", refreshError);
-            removeAuthTokens();
-            throw new ApiError(ErrorCode.TOKEN_EXPIRED, "Session expired. Please log in again.", 401);
-          }
-        }
-
         // Throw standardized error
         if (errorResponse.error) {
           throw new ApiError(
@@ -207,69 +210,223 @@ class ApiClient {
     }
   }
 
+  // Short-lived ticket for the realtime socket, which connects to the API directly and can't use the BFF cookies.
+  // The BFF signs the request with the session's access token, which never reaches page scripts
+  async getRealtimeTicket(): Promise<string | null> {
+    const response = await this.request<RealtimeTicketResponse>("/realtime/ticket", { method: "POST" });
+    return response.data?.ticket ?? null;
+  }
+
   // Health check
   async health(): Promise<HealthResponse> {
     return this.request<HealthResponse>("/health");
   }
 
-  // Authentication
-  async login(data: LoginRequest): Promise<AuthResponse> {
-    const response = await this.request<AuthResponse>("/auth/login", {
+  // Authentication. The BFF keeps the tokens from these responses in httpOnly cookies and strips them
+  // from the body, accounts with two-factor authentication get a challenge instead
+  async login(data: LoginRequest): Promise<LoginResponse> {
+    return this.request<LoginResponse>("/auth/login", {
       method: "POST",
       body: JSON.stringify(data),
     });
+  }
 
-    if (response.success && response.data) {
-      console.log("API client - About to set tokens");
+  async register(data: RegisterRequest): Promise<AuthResponse> {
+    return this.request<AuthResponse>("/auth/register", {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
+  }
 
-      // Store tokens
-      setAuthToken(response.data.accessToken);
-      setRefreshToken(response.data.refreshToken);
+  // Second login step, `code` is either a TOTP code or one of the account's recovery codes
+  async verifyMfa(data: VerifyMfaRequest): Promise<AuthResponse> {
+    return this.request<AuthResponse>("/auth/mfa/verify", {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
+  }
 
-      console.log("API client - Tokens should be set now");
-    }
+  // Always succeeds so the response doesn't reveal whether an account exists for the email
+  async requestPasswordReset(data: ForgotPasswordRequest): Promise<ApiResponse> {
+    return this.request<ApiResponse>("/auth/forgot-password", {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
+  }
 
-    return response;
+  // Fails with TOKEN_EXPIRED once the link is stale and RESOURCE_CONFLICT once it has been used
+  async validatePasswordResetToken(token: string): Promise<PasswordResetTokenResponse> {
+    return this.request<PasswordResetTokenResponse>(`/auth/reset-password/${encodeURIComponent(token)}`);
   }
 
-  async register(data: RegisterRequest): Promise<AuthResponse> {
-    const response = await this.request<AuthResponse>("/auth/register", {
+  async resetPassword(data: ResetPasswordRequest): Promise<ApiResponse> {
+    return this.request<ApiResponse>("/auth/reset-password", {
       method: "POST",
       body: JSON.stringify(data),
     });
+  }
 
-    if (response.success && response.data) {
-      // Store tokens
-      setAuthToken(response.data.accessToken);
-      setRefreshToken(response.data.refreshToken);
-    }
-
-    return response;
+  // Confirms the address from a verification email, including a pending email change.
+  // Fails like password reset tokens: TOKEN_EXPIRED when stale, RESOURCE_CONFLICT once used
+  async verifyEmail(data: VerifyEmailRequest): Promise<UserResponse> {
+    return this.request<UserResponse>("/auth/verify-email", {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
   }
 
+  // The BFF refreshes with the refresh token cookie, requests normally don't need this as it refreshes on demand
   async refreshToken(): Promise<AuthResponse> {
-    const refreshTokenValue = getRefreshToken();
-    if (!refreshTokenValue || !isRefreshTokenValid()) {
-      throw new ApiError(ErrorCode.INVALID_TOKEN, "No valid refresh token available", 401);
-    }
+    return this.request<AuthResponse>("/auth/refresh", {
+      method: "POST",
+    });
+  }
 
-    const response = await this.request<AuthResponse>(
-      "/auth/refresh",
-      {
-        method: "POST",
-        body: JSON.stringify({ refreshToken: refreshTokenValue }),
-      },
-      true,
-    );
-
-    if (response.success && response.data) {
-      // Update tokens
-      setAuthToken(response.data.accessToken);
-      setRefreshToken(response.data.refreshToken);
-      console.log("Manual token refresh successful");
-    }
+  // Revokes the refresh token server-side and the BFF drops the session cookies
+  async logout(): Promise<ApiResponse> {
+    return this.request<ApiResponse>("/auth/logout", {
+      method: "POST",
+    });
+  }
+
+  // Whether people at this email domain sign in through their organization's identity provider.
+  // The sign-in itself is a browser redirect through the BFF, see lib/sso.ts
+  async discoverSso(domain: string): Promise<SsoDiscoveryResponse> {
+    return this.request<SsoDiscoveryResponse>(`/auth/sso/discover?domain=${encodeURIComponent(domain)}`);
+  }
 
-    return response;
+  // Sessions
+  async getSessions(): Promise<SessionsResponse> {
+    return this.request<SessionsResponse>("/auth/sessions");
+  }
+
+  async revokeSession(id: string): Promise<ApiResponse> {
+    return this.request<ApiResponse>(`/auth/sessions/${id}`, {
+      method: "DELETE",
+    });
+  }
+
+  // Revokes every refresh token of the account including this browser's, the BFF drops the session cookies
+  async revokeAllSessions(): Promise<ApiResponse> {
+    return this.request<ApiResponse>("/auth/sessions", {
+      method: "DELETE",
+    });
+  }
+
+  // Account
+  async getCurrentUser(): Promise<CurrentUserResponse> {
+    return this.request<CurrentUserResponse>("/auth/me");
+  }
+
+  async updateProfile(data: UpdateProfileRequest): Promise<UserResponse> {
+    return this.request<UserResponse>("/users/me", {
+      method: "PUT",
+      body: JSON.stringify(data),
+    });
+  }
+
+  // Sends a verification link to the new address, the returned user carries it as `pendingEmail`
+  async changeEmail(data: ChangeEmailRequest): Promise<UserResponse> {
+    return this.request<UserResponse>("/users/me/email", {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
+  }
+
+  async resendVerificationEmail(): Promise<ApiResponse> {
+    return this.request<ApiResponse>("/users/me/verification-email", {
+      method: "POST",
+    });
+  }
+
+  // Two-factor enrolment: setup returns a fresh secret, enabling it with a valid code returns recovery codes
+  async setupTwoFactor(): Promise<TwoFactorSetupResponse> {
+    return this.request<TwoFactorSetupResponse>("/users/me/2fa/setup", {
+      method: "POST",
+    });
+  }
+
+  async enableTwoFactor(data: TwoFactorCodeRequest): Promise<RecoveryCodesResponse> {
+    return this.request<RecoveryCodesResponse>("/users/me/2fa/enable", {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
+  }
+
+  async disableTwoFactor(data: DisableTwoFactorRequest): Promise<ApiResponse> {
+    return this.request<ApiResponse>("/users/me/2fa/disable", {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
+  }
+
+  // Invalidates the previous recovery codes
+  async regenerateRecoveryCodes(data: TwoFactorCodeRequest): Promise<RecoveryCodesResponse> {
+    return this.request<RecoveryCodesResponse>("/users/me/2fa/recovery-codes", {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
+  }
+
+  // Every browser has to pass the two-factor step again, including this one
+  async forgetRememberedDevices(): Promise<ApiResponse> {
+    return this.request<ApiResponse>("/users/me/2fa/remembered-devices", {
+      method: "DELETE",
+    });
+  }
+
+  async changePassword(data: ChangePasswordRequest): Promise<ApiResponse> {
+    return this.request<ApiResponse>("/users/me/password", {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
+  }
+
+  // Organization
+  async getOrganizations(): Promise<OrganizationsResponse> {
+    return this.request<OrganizationsResponse>("/organizations");
+  }
+
+  // The BFF swaps the session cookies for tokens scoped to the other organization, every request after
+  // this one acts in it. The cookies are shared, so the other tabs follow, see lib/auth-channel.ts
+  async switchOrganization(data: SwitchOrganizationRequest): Promise<AuthResponse> {
+    return this.request<AuthResponse>("/auth/switch-organization", {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateOrganization(data: UpdateOrganizationRequest): Promise<OrganizationResponse> {
+    return this.request<OrganizationResponse>("/organization", {
+      method: "PUT",
+      body: JSON.stringify(data),
+    });
+  }
+
+  // Owner only, removes every device, message and subscription along with the organization
+  async deleteOrganization(data: DeleteOrganizationRequest): Promise<ApiResponse> {
+    return this.request<ApiResponse>("/organization", {
+      method: "DELETE",
+      body: JSON.stringify(data),
+    });
+  }
+
+  // Single sign-on, enterprise plans only
+  async getSsoConnection(): Promise<SsoConnectionResponse> {
+    return this.request<SsoConnectionResponse>("/organization/sso");
+  }
+
+  async updateSsoConnection(data: UpdateSsoConnectionRequest): Promise<SsoConnectionResponse> {
+    return this.request<SsoConnectionResponse>("/organization/sso", {
+      method: "PUT",
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteSsoConnection(): Promise<ApiResponse> {
+    return this.request<ApiResponse>("/organization/sso", {
+      method: "DELETE",
+    });
   }
 
   // Devices
@@ -281,6 +438,20 @@ class ApiClient {
     return this.request<DeviceResponse>(`/devices/${id}`);
   }
 
+  async getDeviceStatusHistory(
+    id: string,
+    params: { from?: string; to?: string; limit?: number } = {},
+  ): Promise<DeviceStatusHistoryResponse> {
+    const searchParams = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined) {
+        searchParams.append(key, value.toString());
+      }
+    });
+
+    return this.request<DeviceStatusHistoryResponse>(`/devices/${id}/status-history?${searchParams.toString()}`);
+  }
+
   async createDevice(data: CreateDeviceRequest): Promise<DeviceResponse> {
     return this.request<DeviceResponse>("/devices", {
       method: "POST",
@@ -301,8 +472,8 @@ class ApiClient {
     });
   }
 
-  async connectDevice(id: string): Promise<ApiResponse<{ qrCode?: string }>> {
-    return this.request<ApiResponse<{ qrCode?: string }>>(`/devices/${id}/connect`, {
+  async connectDevice(id: string): Promise<ConnectDeviceResponse> {
+    return this.request<ConnectDeviceResponse>(`/devices/${id}/connect`, {
       method: "POST",
     });
   }
@@ -337,8 +508,8 @@ class ApiClient {
     });
   }
 
-  async getDeviceQR(id: string): Promise<ApiResponse<{ qrCode: string }>> {
-    return this.request<ApiResponse<{ qrCode: string }>>(`/devices/${id}/qr`);
+  async getDeviceQR(id: string): Promise<DeviceQRResponse> {
+    return this.request<DeviceQRResponse>(`/devices/${id}/qr`);
   }
 
   // Messages
@@ -349,6 +520,8 @@ class ApiClient {
       deviceId?: string;
       direction?: "inbound" | "outbound";
       search?: string;
+      from?: string;
+      to?: string;
     } = {},
   ): Promise<GetMessagesResponse> {
     const searchParams = new URLSearchParams();
@@ -375,6 +548,71 @@ class ApiClient {
     });
   }
 
+  // Media uploads use XMLHttpRequest because fetch cannot report upload progress
+  async uploadMedia(file: File, type: MediaType, options: UploadMediaOptions = {}): Promise<UploadMediaResponse> {
+    const { onProgress, signal } = options;
+
+    if (signal?.aborted) {
+      throw new ApiError(ErrorCode.REQUEST_ABORTED, "Upload cancelled", 0);
+    }
+
+    const formData = new FormData();
+    formData.append("file", file);
+    formData.append("type", type);
+
+    return new Promise<UploadMediaResponse>((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      // Same-origin, so the BFF session cookies are sent along
+      xhr.open("POST", `${this.baseURL}/media/upload`);
+
+      xhr.upload.onprogress = (event) => {
+        if (!onProgress || !event.lengthComputable) return;
+        onProgress({
+          loaded: event.loaded,
+          total: event.total,
+          percent: Math.round((event.loaded / event.total) * 100),
+        });
+      };
+
+      xhr.onload = () => {
+        const sessionEndReason = getSessionEndReason(xhr.getResponseHeader(SESSION_ENDED_HEADER));
+        if (xhr.status === 401 && sessionEndReason) {
+          reject(this.endSession(sessionEndReason));
+          return;
+        }
+
+        let jsonResponse: UploadMediaResponse;
+        try {
+          jsonResponse = JSON.parse(xhr.responseText);
+        } catch {
+          reject(new ApiError(ErrorCode.NETWORK_ERROR, xhr.statusText || "Invalid response from server", xhr.status));
+          return;
+        }
+
+        if (xhr.status < 200 || xhr.status >= 300 || !jsonResponse.success) {
+          reject(
+            new ApiError(
+              jsonResponse.error?.code || ErrorCode.NETWORK_ERROR,
+              jsonResponse.error?.message || "Failed to upload media",
+              xhr.status,
+              jsonResponse.error?.details,
+            ),
+          );
+          return;
+        }
+
+        resolve(jsonResponse);
+      };
+
+      xhr.onerror = () => reject(new ApiError(ErrorCode.NETWORK_ERROR, "Network error occurred", 0));
+      xhr.onabort = () => reject(new ApiError(ErrorCode.REQUEST_ABORTED, "Upload cancelled", 0));
+
+      signal?.addEventListener("abort", () => xhr.abort(), { once: true });
+
+      xhr.send(formData);
+    });
+  }
+
   // Message Templates
   async getMessageTemplates(): Promise<MessageTemplatesResponse> {
     return this.request<MessageTemplatesResponse>("/messages/templates");
@@ -404,6 +642,52 @@ class ApiClient {
     });
   }
 
+  // Team
+  async getTeamMembers(): Promise<TeamMembersResponse> {
+    return this.request<TeamMembersResponse>("/team/members");
+  }
+
+  async updateTeamMember(id: string, data: UpdateTeamMemberRequest): Promise<TeamMemberResponse> {
+    return this.request<TeamMemberResponse>(`/team/members/${id}`, {
+      method: "PUT",
+      body: JSON.stringify(data),
+    });
+  }
+
+  async removeTeamMember(id: string): Promise<ApiResponse> {
+    return this.request<ApiResponse>(`/team/members/${id}`, {
+      method: "DELETE",
+    });
+  }
+
+  async getTeamInvitations(): Promise<TeamInvitationsResponse> {
+    return this.request<TeamInvitationsResponse>("/team/invitations");
+  }
+
+  async inviteTeamMember(data: InviteTeamMemberRequest): Promise<TeamInvitationResponse> {
+    return this.request<TeamInvitationResponse>("/team/invitations", {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
+  }
+
+  async resendTeamInvitation(id: string): Promise<TeamInvitationResponse> {
+    return this.request<TeamInvitationResponse>(`/team/invitations/${id}/resend`, {
+      method: "POST",
+    });
+  }
+
+  async revokeTeamInvitation(id: string): Promise<ApiResponse> {
+    return this.request<ApiResponse>(`/team/invitations/${id}`, {
+      method: "DELETE",
+    });
+  }
+
+  // Looks up an invitation by the token from the invite email, no auth required
+  async getInvitation(token: string): Promise<InvitationDetailsResponse> {
+    return this.request<InvitationDetailsResponse>(`/invitations/${encodeURIComponent(token)}`);
+  }
+
   // Subscriptions
   async getPlans(): Promise<PlansResponse> {
     return this.request<PlansResponse>("/subscriptions/plans");
@@ -413,13 +697,20 @@ class ApiClient {
     return this.request<CurrentSubscriptionResponse>("/subscriptions/current");
   }
 
-  async createSubscription(data: CreateSubscriptionRequest): Promise<ApiResponse<{ clientSecret?: string }>> {
-    return this.request<ApiResponse<{ clientSecret?: string }>>("/subscriptions", {
+  async createSubscription(data: CreateSubscriptionRequest): Promise<CreateSubscriptionResponse> {
+    return this.request<CreateSubscriptionResponse>("/subscriptions", {
       method: "POST",
       body: JSON.stringify(data),
     });
   }
 
+  // Returns a fresh client secret for an `incomplete` subscription's pending payment
+  async retrySubscriptionPayment(): Promise<CreateSubscriptionResponse> {
+    return this.request<CreateSubscriptionResponse>("/subscriptions/retry-payment", {
+      method: "POST",
+    });
+  }
+
   async cancelSubscription(): Promise<ApiResponse> {
     return this.request<ApiResponse>("/subscriptions/cancel", {
       method: "POST",
@@ -442,10 +733,25 @@ class ApiClient {
   }
 
   // Billing methods
-  async updatePaymentMethod(data: PaymentMethodRequest): Promise<UpdatePaymentMethodResponse> {
-    return this.request<UpdatePaymentMethodResponse>("/billing/payment-method", {
+  async createSetupIntent(): Promise<SetupIntentResponse> {
+    return this.request<SetupIntentResponse>("/billing/setup-intent", {
       method: "POST",
-      body: JSON.stringify(data),
+    });
+  }
+
+  async getPaymentMethods(): Promise<PaymentMethodsResponse> {
+    return this.request<PaymentMethodsResponse>("/billing/payment-methods");
+  }
+
+  async setDefaultPaymentMethod(id: string): Promise<PaymentMethodResponse> {
+    return this.request<PaymentMethodResponse>(`/billing/payment-methods/${id}/default`, {
+      method: "POST",
+    });
+  }
+
+  async deletePaymentMethod(id: string): Promise<ApiResponse> {
+    return this.request<ApiResponse>(`/billing/payment-methods/${id}`, {
+      method: "DELETE",
     });
   }
 
@@ -462,11 +768,8 @@ class ApiClient {
 }
 
 // Export singleton instance
-export const apiClient = new ApiClient(API_BASE_URL);
+export const apiClient = new ApiClient(BFF_BASE_URL);
 
 // Re-export types
 export type { ApiResponse, ApiError as ApiErrorType };
 export { ErrorCode };
-
-// Re-export token management functions for backward compatibility
-export { getAuthToken, setAuthToken, getRefreshToken, setRefreshToken, removeAuthTokens };
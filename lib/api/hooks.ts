@@ -1,21 +1,37 @@
 // Updated API hooks with standardized response handling
 "use client";
 
-import { useMutation, useQuery, useQueryClient, UseQueryResult, UseMutationResult } from "@tanstack/react-query";
+import {
+  useMutation,
+  useQueries,
+  useQuery,
+  useQueryClient,
+  UseQueryResult,
+  UseMutationResult,
+} from "@tanstack/react-query";
 import { apiClient, ApiError, type ApiResponse } from "./client";
+import { useAuthStore } from "../stores/auth";
+import { useRealtimeState } from "../hooks/realtime";
 import type {
   AuthResponse,
   LoginRequest,
   RegisterRequest,
   DevicesResponse,
   DeviceResponse,
+  DeviceStatusHistoryResponse,
+  DeviceQRResponse,
+  ConnectDeviceResponse,
   CreateDeviceRequest,
   UpdateDeviceRequest,
   SendMessageRequest,
   SendMessageResponse,
+  MediaType,
+  UploadMediaOptions,
+  UploadMediaResponse,
   PlansResponse,
   CurrentSubscriptionResponse,
   CreateSubscriptionRequest,
+  CreateSubscriptionResponse,
   UsageResponse,
   WorkerStatsResponse,
   GetMessagesResponse,
@@ -26,25 +42,100 @@ import type {
   HealthResponse,
   CurrentUsageResponse,
   BillingHistoryResponse,
-  UpdatePaymentMethodResponse,
-  PaymentMethodRequest,
+  PaymentMethodsResponse,
+  PaymentMethodResponse,
+  SetupIntentResponse,
+  TeamMembersResponse,
+  TeamMemberResponse,
+  TeamInvitationsResponse,
+  TeamInvitationResponse,
+  InvitationDetailsResponse,
+  InviteTeamMemberRequest,
+  UpdateTeamMemberRequest,
+  CurrentUserResponse,
+  UserResponse,
+  OrganizationResponse,
+  UpdateProfileRequest,
+  ChangeEmailRequest,
+  ChangePasswordRequest,
+  UpdateOrganizationRequest,
+  DeleteOrganizationRequest,
+  ForgotPasswordRequest,
+  ResetPasswordRequest,
+  PasswordResetTokenResponse,
+  VerifyEmailRequest,
+  LoginResponse,
+  MfaChallenge,
+  VerifyMfaRequest,
+  TwoFactorSetupResponse,
+  TwoFactorCodeRequest,
+  DisableTwoFactorRequest,
+  RecoveryCodesResponse,
+  SessionsResponse,
+  SsoDiscoveryResponse,
+  SsoConnectionResponse,
+  UpdateSsoConnectionRequest,
+  OrganizationsResponse,
 } from "./types";
 
 // Query Keys
+// Keys of data that belongs to an organization start with it, so a switch never shows the previous
+// organization's cache and its late responses can't land in the new one
+const inOrganization = () => ["organization", useAuthStore.getState().organizationId] as const;
+
 export const queryKeys = {
   health: ["health"] as const,
-  devices: ["devices"] as const,
-  device: (id: string) => ["devices", id] as const,
-  deviceQR: (id: string) => ["devices", id, "qr"] as const,
-  messages: (params?: Record<string, any>) => ["messages", params] as const,
-  messageTemplates: ["message-templates"] as const,
-  messageTemplate: (id: string) => ["message-templates", id] as const,
+  organization: (id: string) => ["organization", id] as const,
+  get currentUser() {
+    return [...inOrganization(), "auth", "me"] as const;
+  },
+  sessions: ["auth", "sessions"] as const,
+  ssoDiscovery: (domain: string) => ["auth", "sso", domain] as const,
+  passwordResetToken: (token: string) => ["auth", "reset-password", token] as const,
+  organizations: ["organizations"] as const,
+  get devices() {
+    return [...inOrganization(), "devices"] as const;
+  },
+  device: (id: string) => [...inOrganization(), "devices", id] as const,
+  deviceQR: (id: string) => [...inOrganization(), "devices", id, "qr"] as const,
+  allDeviceStatusHistory: (id: string) => [...inOrganization(), "devices", id, "status-history"] as const,
+  deviceStatusHistory: (id: string, params: { from?: string; to?: string; limit?: number } = {}) =>
+    [...inOrganization(), "devices", id, "status-history", params] as const,
+  get allMessages() {
+    return [...inOrganization(), "messages"] as const;
+  },
+  messages: (params?: Parameters<typeof useMessages>[0]) => [...inOrganization(), "messages", params] as const,
+  get messageTemplates() {
+    return [...inOrganization(), "message-templates"] as const;
+  },
+  messageTemplate: (id: string) => [...inOrganization(), "message-templates", id] as const,
+  get teamMembers() {
+    return [...inOrganization(), "team", "members"] as const;
+  },
+  get teamInvitations() {
+    return [...inOrganization(), "team", "invitations"] as const;
+  },
+  invitation: (token: string) => ["invitations", token] as const,
   plans: ["plans"] as const,
-  subscription: ["subscription"] as const,
-  usage: (period?: string) => ["usage", period] as const,
-  currentUsage: ["usage", "current"] as const,
-  billingHistory: ["billing", "history"] as const,
-  workers: ["workers"] as const,
+  get subscription() {
+    return [...inOrganization(), "subscription"] as const;
+  },
+  usage: (period?: string) => [...inOrganization(), "usage", period] as const,
+  get currentUsage() {
+    return [...inOrganization(), "usage", "current"] as const;
+  },
+  get ssoConnection() {
+    return [...inOrganization(), "sso"] as const;
+  },
+  get billingHistory() {
+    return [...inOrganization(), "billing", "history"] as const;
+  },
+  get paymentMethods() {
+    return [...inOrganization(), "billing", "payment-methods"] as const;
+  },
+  get workers() {
+    return [...inOrganization(), "workers"] as const;
+  },
 };
 
 // Health
@@ -57,24 +148,249 @@ export function useHealth(): UseQueryResult<HealthResponse, ApiError> {
 }
 
 // Authentication hooks
-export function useLogin(): UseMutationResult<AuthResponse, ApiError, LoginRequest> {
+export function useLogin(): UseMutationResult<LoginResponse, ApiError, LoginRequest> {
   return useMutation({
     mutationFn: async (data: LoginRequest) => await apiClient.login(data),
   });
 }
 
+export function useVerifyMfa(): UseMutationResult<AuthResponse, ApiError, VerifyMfaRequest> {
+  return useMutation({
+    mutationFn: async (data: VerifyMfaRequest) => await apiClient.verifyMfa(data),
+  });
+}
+
 export function useRegister(): UseMutationResult<AuthResponse, ApiError, RegisterRequest> {
   return useMutation({
     mutationFn: async (data: RegisterRequest) => await apiClient.register(data),
   });
 }
 
+export function useRequestPasswordReset(): UseMutationResult<ApiResponse, ApiError, ForgotPasswordRequest> {
+  return useMutation({
+    mutationFn: async (data: ForgotPasswordRequest) => await apiClient.requestPasswordReset(data),
+  });
+}
+
+export function usePasswordResetToken(token: string): UseQueryResult<PasswordResetTokenResponse, ApiError> {
+  return useQuery({
+    queryKey: queryKeys.passwordResetToken(token),
+    queryFn: async () => await apiClient.validatePasswordResetToken(token),
+    enabled: !!token,
+    retry: false,
+  });
+}
+
+export function useResetPassword(): UseMutationResult<ApiResponse, ApiError, ResetPasswordRequest> {
+  return useMutation({
+    mutationFn: async (data: ResetPasswordRequest) => await apiClient.resetPassword(data),
+  });
+}
+
+export function useVerifyEmail(): UseMutationResult<UserResponse, ApiError, VerifyEmailRequest> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: VerifyEmailRequest) => await apiClient.verifyEmail(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.currentUser });
+    },
+  });
+}
+
 export function useRefreshToken(): UseMutationResult<AuthResponse, ApiError, void> {
   return useMutation({
     mutationFn: async () => await apiClient.refreshToken(),
   });
 }
 
+// Null domains, e.g. while the email is still being typed, don't look anything up
+export function useSsoDiscovery(domain: string | null): UseQueryResult<SsoDiscoveryResponse, ApiError> {
+  return useQuery({
+    queryKey: queryKeys.ssoDiscovery(domain ?? ""),
+    queryFn: async () => await apiClient.discoverSso(domain!),
+    enabled: !!domain,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    retry: false,
+  });
+}
+
+// Account hooks
+export function useCurrentUser(options: { enabled?: boolean } = {}): UseQueryResult<CurrentUserResponse, ApiError> {
+  return useQuery({
+    queryKey: queryKeys.currentUser,
+    queryFn: async () => await apiClient.getCurrentUser(),
+    enabled: options.enabled ?? true,
+  });
+}
+
+export function useUpdateProfile(): UseMutationResult<UserResponse, ApiError, UpdateProfileRequest> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: UpdateProfileRequest) => await apiClient.updateProfile(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.currentUser });
+      queryClient.invalidateQueries({ queryKey: queryKeys.teamMembers });
+    },
+  });
+}
+
+export function useChangeEmail(): UseMutationResult<UserResponse, ApiError, ChangeEmailRequest> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: ChangeEmailRequest) => await apiClient.changeEmail(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.currentUser });
+    },
+  });
+}
+
+export function useResendVerificationEmail(): UseMutationResult<ApiResponse, ApiError, void> {
+  return useMutation({
+    mutationFn: async () => await apiClient.resendVerificationEmail(),
+  });
+}
+
+export function useSetupTwoFactor(): UseMutationResult<TwoFactorSetupResponse, ApiError, void> {
+  return useMutation({
+    mutationFn: async () => await apiClient.setupTwoFactor(),
+  });
+}
+
+export function useEnableTwoFactor(): UseMutationResult<RecoveryCodesResponse, ApiError, TwoFactorCodeRequest> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: TwoFactorCodeRequest) => await apiClient.enableTwoFactor(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.currentUser });
+    },
+  });
+}
+
+export function useDisableTwoFactor(): UseMutationResult<ApiResponse, ApiError, DisableTwoFactorRequest> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: DisableTwoFactorRequest) => await apiClient.disableTwoFactor(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.currentUser });
+    },
+  });
+}
+
+export function useRegenerateRecoveryCodes(): UseMutationResult<RecoveryCodesResponse, ApiError, TwoFactorCodeRequest> {
+  return useMutation({
+    mutationFn: async (data: TwoFactorCodeRequest) => await apiClient.regenerateRecoveryCodes(data),
+  });
+}
+
+export function useForgetRememberedDevices(): UseMutationResult<ApiResponse, ApiError, void> {
+  return useMutation({
+    mutationFn: async () => await apiClient.forgetRememberedDevices(),
+  });
+}
+
+export function useChangePassword(): UseMutationResult<ApiResponse, ApiError, ChangePasswordRequest> {
+  return useMutation({
+    mutationFn: async (data: ChangePasswordRequest) => await apiClient.changePassword(data),
+  });
+}
+
+// Session hooks
+export function useSessions(): UseQueryResult<SessionsResponse, ApiError> {
+  return useQuery({
+    queryKey: queryKeys.sessions,
+    queryFn: async () => await apiClient.getSessions(),
+    staleTime: 30000, // 30 seconds
+  });
+}
+
+export function useRevokeSession(): UseMutationResult<ApiResponse, ApiError, string> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => await apiClient.revokeSession(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.sessions });
+    },
+  });
+}
+
+export function useRevokeAllSessions(): UseMutationResult<ApiResponse, ApiError, void> {
+  return useMutation({
+    mutationFn: async () => await apiClient.revokeAllSessions(),
+  });
+}
+
+// Organization hooks
+export function useOrganizations(): UseQueryResult<OrganizationsResponse, ApiError> {
+  return useQuery({
+    queryKey: queryKeys.organizations,
+    queryFn: async () => await apiClient.getOrganizations(),
+  });
+}
+
+export function useUpdateOrganization(): UseMutationResult<OrganizationResponse, ApiError, UpdateOrganizationRequest> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: UpdateOrganizationRequest) => await apiClient.updateOrganization(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.currentUser });
+      queryClient.invalidateQueries({ queryKey: queryKeys.organizations });
+    },
+  });
+}
+
+export function useDeleteOrganization(): UseMutationResult<ApiResponse, ApiError, DeleteOrganizationRequest> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: DeleteOrganizationRequest) => await apiClient.deleteOrganization(data),
+    onSuccess: () => {
+      // Nothing cached belongs to a live organization anymore
+      queryClient.clear();
+    },
+  });
+}
+
+export function useSsoConnection(options: { enabled?: boolean } = {}): UseQueryResult<SsoConnectionResponse, ApiError> {
+  return useQuery({
+    queryKey: queryKeys.ssoConnection,
+    queryFn: async () => await apiClient.getSsoConnection(),
+    enabled: options.enabled ?? true,
+  });
+}
+
+export function useUpdateSsoConnection(): UseMutationResult<
+  SsoConnectionResponse,
+  ApiError,
+  UpdateSsoConnectionRequest
+> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: UpdateSsoConnectionRequest) => await apiClient.updateSsoConnection(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.ssoConnection });
+    },
+  });
+}
+
+export function useDeleteSsoConnection(): UseMutationResult<ApiResponse, ApiError, void> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => await apiClient.deleteSsoConnection(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.ssoConnection });
+    },
+  });
+}
+
 // Device hooks
 export function useDevices(page = 1, limit = 10): UseQueryResult<DevicesResponse, ApiError> {
   return useQuery({
@@ -83,14 +399,42 @@ export function useDevices(page = 1, limit = 10): UseQueryResult<DevicesResponse
   });
 }
 
-export function useDevice(id: string): UseQueryResult<DeviceResponse, ApiError> {
+export function useDevice(id: string, options: { poll?: boolean } = {}): UseQueryResult<DeviceResponse, ApiError> {
+  const isRealtimeOpen = useRealtimeState() === "open";
+
   return useQuery({
     queryKey: queryKeys.device(id),
     queryFn: async () => await apiClient.getDevice(id),
     enabled: !!id,
+    // Status changes are pushed over the realtime channel, only poll while it is down
+    refetchInterval: options.poll && !isRealtimeOpen ? 3000 : false,
+  });
+}
+
+export function useDeviceStatusHistory(
+  id: string,
+  params: { from?: string; to?: string; limit?: number } = {},
+): UseQueryResult<DeviceStatusHistoryResponse, ApiError> {
+  return useQuery({
+    queryKey: queryKeys.deviceStatusHistory(id, params),
+    queryFn: async () => await apiClient.getDeviceStatusHistory(id, params),
+    enabled: !!id,
   });
 }
 
+// One status history query per device, sharing the cache with useDeviceStatusHistory
+export function useDevicesStatusHistory(
+  ids: string[],
+  params: { from?: string; to?: string; limit?: number } = {},
+): UseQueryResult<DeviceStatusHistoryResponse, ApiError>[] {
+  return useQueries({
+    queries: ids.map((id) => ({
+      queryKey: queryKeys.deviceStatusHistory(id, params),
+      queryFn: async () => await apiClient.getDeviceStatusHistory(id, params),
+    })),
+  }) as UseQueryResult<DeviceStatusHistoryResponse, ApiError>[];
+}
+
 export function useCreateDevice(): UseMutationResult<DeviceResponse, ApiError, CreateDeviceRequest> {
   const queryClient = useQueryClient();
 
@@ -128,7 +472,7 @@ export function useDeleteDevice(): UseMutationResult<ApiResponse["data"], ApiErr
   });
 }
 
-export function useConnectDevice(): UseMutationResult<ApiResponse<{ qrCode?: string }>, ApiError, string> {
+export function useConnectDevice(): UseMutationResult<ConnectDeviceResponse, ApiError, string> {
   const queryClient = useQueryClient();
 
   return useMutation({
@@ -215,12 +559,15 @@ export function useSyncDevice(): UseMutationResult<ApiResponse["data"], ApiError
   });
 }
 
-export function useDeviceQR(id: string): UseQueryResult<ApiResponse<{ qrCode: string }>, ApiError> {
+export function useDeviceQR(id: string): UseQueryResult<DeviceQRResponse, ApiError> {
+  const isRealtimeOpen = useRealtimeState() === "open";
+
   return useQuery({
     queryKey: queryKeys.deviceQR(id),
     queryFn: async () => await apiClient.getDeviceQR(id),
     enabled: !!id,
-    refetchInterval: 5000, // Refresh every 5 seconds
+    // QR rotations are pushed over the realtime channel, only poll while it is down
+    refetchInterval: isRealtimeOpen ? false : 5000,
   });
 }
 
@@ -232,6 +579,8 @@ export function useMessages(
     deviceId?: string;
     direction?: "inbound" | "outbound";
     search?: string;
+    from?: string;
+    to?: string;
   } = {},
 ): UseQueryResult<GetMessagesResponse, ApiError> {
   return useQuery({
@@ -246,7 +595,7 @@ export function useSendMessage(): UseMutationResult<SendMessageResponse, ApiErro
   return useMutation({
     mutationFn: async (data: SendMessageRequest) => await apiClient.sendMessage(data),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: queryKeys.messages() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.allMessages });
       queryClient.invalidateQueries({ queryKey: queryKeys.usage() });
     },
   });
@@ -258,12 +607,23 @@ export function useSendMessageWithBilling(): UseMutationResult<SendMessageRespon
   return useMutation({
     mutationFn: async (data: SendMessageRequest) => await apiClient.sendMessageWithBilling(data),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: queryKeys.messages() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.allMessages });
       queryClient.invalidateQueries({ queryKey: queryKeys.usage() });
     },
   });
 }
 
+export function useUploadMedia(): UseMutationResult<
+  UploadMediaResponse,
+  ApiError,
+  { file: File; type: MediaType } & UploadMediaOptions
+> {
+  return useMutation({
+    mutationFn: async ({ file, type, ...options }) => await apiClient.uploadMedia(file, type, options),
+    retry: false, // Uploads are cancellable and can be large, let the user retry explicitly
+  });
+}
+
 // Message Template hooks
 export function useMessageTemplates(): UseQueryResult<MessageTemplatesResponse, ApiError> {
   return useQuery({
@@ -323,6 +683,98 @@ export function useDeleteMessageTemplate(): UseMutationResult<ApiResponse["data"
   });
 }
 
+// Team hooks
+export function useTeamMembers(): UseQueryResult<TeamMembersResponse, ApiError> {
+  return useQuery({
+    queryKey: queryKeys.teamMembers,
+    queryFn: async () => await apiClient.getTeamMembers(),
+  });
+}
+
+export function useUpdateTeamMember(): UseMutationResult<
+  TeamMemberResponse,
+  ApiError,
+  { id: string; data: UpdateTeamMemberRequest }
+> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, data }) => await apiClient.updateTeamMember(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.teamMembers });
+    },
+  });
+}
+
+export function useRemoveTeamMember(): UseMutationResult<ApiResponse["data"], ApiError, string> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiClient.removeTeamMember(id);
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.teamMembers });
+    },
+  });
+}
+
+export function useTeamInvitations(
+  options: { enabled?: boolean } = {},
+): UseQueryResult<TeamInvitationsResponse, ApiError> {
+  return useQuery({
+    queryKey: queryKeys.teamInvitations,
+    queryFn: async () => await apiClient.getTeamInvitations(),
+    enabled: options.enabled ?? true,
+  });
+}
+
+export function useInviteTeamMember(): UseMutationResult<TeamInvitationResponse, ApiError, InviteTeamMemberRequest> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: InviteTeamMemberRequest) => await apiClient.inviteTeamMember(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.teamInvitations });
+    },
+  });
+}
+
+export function useResendTeamInvitation(): UseMutationResult<TeamInvitationResponse, ApiError, string> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => await apiClient.resendTeamInvitation(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.teamInvitations });
+    },
+  });
+}
+
+export function useRevokeTeamInvitation(): UseMutationResult<ApiResponse["data"], ApiError, string> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiClient.revokeTeamInvitation(id);
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.teamInvitations });
+    },
+  });
+}
+
+export function useInvitation(token: string): UseQueryResult<InvitationDetailsResponse, ApiError> {
+  return useQuery({
+    queryKey: queryKeys.invitation(token),
+    queryFn: async () => await apiClient.getInvitation(token),
+    enabled: !!token,
+    retry: false,
+  });
+}
+
 // Subscription hooks
 export function usePlans(): UseQueryResult<PlansResponse, ApiError> {
   return useQuery({
@@ -340,7 +792,7 @@ export function useCurrentSubscription(): UseQueryResult<CurrentSubscriptionResp
 }
 
 export function useCreateSubscription(): UseMutationResult<
-  ApiResponse<{ clientSecret?: string }>,
+  CreateSubscriptionResponse,
   ApiError,
   CreateSubscriptionRequest
 > {
@@ -354,6 +806,12 @@ export function useCreateSubscription(): UseMutationResult<
   });
 }
 
+export function useRetrySubscriptionPayment(): UseMutationResult<CreateSubscriptionResponse, ApiError, void> {
+  return useMutation({
+    mutationFn: async () => await apiClient.retrySubscriptionPayment(),
+  });
+}
+
 export function useCancelSubscription(): UseMutationResult<ApiResponse["data"], ApiError, void> {
   const queryClient = useQueryClient();
 
@@ -396,31 +854,48 @@ export function useWorkerStats(): UseQueryResult<WorkerStatsResponse, ApiError>
 }
 
 // Billing & Payment hooks
-export function useUpdatePaymentMethod(): UseMutationResult<
-  any,
-  ApiError,
-  {
-    cardNumber: string;
-    expiryMonth: string;
-    expiryYear: string;
-    cvc: string;
-    cardholderName: string;
-  }
-> {
+export function usePaymentMethods(): UseQueryResult<PaymentMethodsResponse, ApiError> {
+  return useQuery({
+    queryKey: queryKeys.paymentMethods,
+    queryFn: async () => await apiClient.getPaymentMethods(),
+  });
+}
+
+export function useCreateSetupIntent(): UseMutationResult<SetupIntentResponse, ApiError, void> {
+  return useMutation({
+    mutationFn: async () => await apiClient.createSetupIntent(),
+  });
+}
+
+export function useSetDefaultPaymentMethod(): UseMutationResult<PaymentMethodResponse, ApiError, string> {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: (data) => apiClient.updatePaymentMethod(data),
+    mutationFn: async (id: string) => await apiClient.setDefaultPaymentMethod(id),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["subscription"] });
-      queryClient.invalidateQueries({ queryKey: ["billing-history"] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.paymentMethods });
+      queryClient.invalidateQueries({ queryKey: queryKeys.subscription });
+    },
+  });
+}
+
+export function useDeletePaymentMethod(): UseMutationResult<ApiResponse["data"], ApiError, string> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiClient.deletePaymentMethod(id);
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.paymentMethods });
     },
   });
 }
 
 export function useBillingHistory(): UseQueryResult<any, ApiError> {
   return useQuery({
-    queryKey: ["billing-history"],
+    queryKey: queryKeys.billingHistory,
     queryFn: () => apiClient.getBillingHistory(),
     staleTime: 1000 * 60 * 5, // 5 minutes
   });
@@ -441,6 +916,10 @@ export function getErrorMessage(error: unknown): string {
   return "An unexpected error occurred";
 }
 
+export function isMfaChallenge(data: LoginResponse["data"]): data is MfaChallenge {
+  return !!data && "mfaRequired" in data && data.mfaRequired;
+}
+
 export function getErrorCode(error: unknown): string | undefined {
   if (isApiError(error)) {
     return error.code;
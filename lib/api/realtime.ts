@@ -0,0 +1,166 @@
+// Realtime event channel over WebSocket, authenticated with a short-lived ticket for the current session
+import type { RealtimeConnectionState, RealtimeEvent } from "./types";
+import { API_BASE_URL, apiClient, ApiError } from "./client";
+
+export const REALTIME_URL = process.env.NEXT_PUBLIC_REALTIME_URL || `${API_BASE_URL.replace(/^http/, "ws")}/realtime`;
+
+const INITIAL_RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 30000;
+
+// Close codes the server uses when the session is rejected, the next attempt forces a token refresh
+const AUTH_FAILURE_CLOSE_CODES = [4001, 4003];
+
+type EventListener = (event: RealtimeEvent) => void;
+type StateListener = (state: RealtimeConnectionState) => void;
+
+class RealtimeClient {
+  private url: string;
+  private socket: WebSocket | null = null;
+  private state: RealtimeConnectionState = "idle";
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private shouldReconnect = false;
+  private tokenRejected = false;
+  private generation = 0; // Bumped on disconnect so in-flight opens from an old session bail out
+  private eventListeners = new Set<EventListener>();
+  private stateListeners = new Set<StateListener>();
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  getState(): RealtimeConnectionState {
+    return this.state;
+  }
+
+  isConnected(): boolean {
+    return this.state === "open";
+  }
+
+  subscribe(listener: EventListener): () => void {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  }
+
+  onStateChange(listener: StateListener): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  connect(): void {
+    if (this.shouldReconnect) return;
+    this.shouldReconnect = true;
+    void this.open();
+  }
+
+  disconnect(): void {
+    this.shouldReconnect = false;
+    this.generation += 1;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.socket?.close(1000, "Client disconnect");
+    this.socket = null;
+    this.reconnectAttempts = 0;
+    this.setState("closed");
+  }
+
+  // Reopens an active connection with a fresh ticket, e.g. after switching organization
+  reconnect(): void {
+    if (!this.shouldReconnect) return;
+    this.disconnect();
+    this.connect();
+  }
+
+  private async open(): Promise<void> {
+    const generation = this.generation;
+    this.setState(this.reconnectAttempts > 0 ? "reconnecting" : "connecting");
+
+    let ticket: string | null;
+    try {
+      if (this.tokenRejected) {
+        await apiClient.refreshToken();
+        this.tokenRejected = false;
+      }
+      ticket = await apiClient.getRealtimeTicket();
+    } catch (error) {
+      console.error("Realtime - could not obtain a ticket:", error);
+      if (generation !== this.generation) return;
+
+      // Retrying can't bring back a session the API rejects, anything else may be a passing outage
+      if (error instanceof ApiError && (error.statusCode === 401 || error.statusCode === 403)) {
+        this.disconnect();
+      } else {
+        this.scheduleReconnect();
+      }
+      return;
+    }
+
+    if (generation !== this.generation) return;
+    if (!ticket) {
+      this.disconnect();
+      return;
+    }
+
+    const socket = new WebSocket(`${this.url}?ticket=${encodeURIComponent(ticket)}`);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.setState("open");
+    };
+
+    socket.onmessage = (message) => {
+      let event: RealtimeEvent;
+      try {
+        event = JSON.parse(message.data);
+      } catch {
+        console.error("Realtime - ignoring malformed event:", message.data);
+        return;
+      }
+      this.eventListeners.forEach((listener) => listener(event));
+    };
+
+    socket.onclose = (event) => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+
+      if (AUTH_FAILURE_CLOSE_CODES.includes(event.code)) {
+        this.tokenRejected = true;
+      }
+
+      if (this.shouldReconnect) {
+        this.scheduleReconnect();
+      } else {
+        this.setState("closed");
+      }
+    };
+  }
+
+  // Exponential backoff with jitter so a server restart doesn't get every tab reconnecting at once
+  private scheduleReconnect(): void {
+    const delay = Math.min(INITIAL_RECONNECT_DELAY * 2 ** this.reconnectAttempts, MAX_RECONNECT_DELAY);
+    const jitter = Math.random() * delay * 0.3;
+    this.reconnectAttempts += 1;
+    this.setState("reconnecting");
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      void this.open();
+    }, delay + jitter);
+  }
+
+  private setState(state: RealtimeConnectionState): void {
+    if (this.state === state) return;
+    this.state = state;
+    this.stateListeners.forEach((listener) => listener(state));
+  }
+}
+
+// Export singleton instance
+export const realtimeClient = new RealtimeClient(REALTIME_URL);
@@ -28,6 +28,9 @@ export enum ErrorCode {
   FORBIDDEN = "FORBIDDEN",
   INVALID_TOKEN = "INVALID_TOKEN",
   TOKEN_EXPIRED = "TOKEN_EXPIRED",
+  SESSION_REVOKED = "SESSION_REVOKED",
+  // Password sign-in was refused because the email's domain has to sign in through its identity provider
+  SSO_REQUIRED = "SSO_REQUIRED",
 
   // Validation
   VALIDATION_ERROR = "VALIDATION_ERROR",
@@ -56,6 +59,7 @@ export enum ErrorCode {
   // Network/Connection
   NETWORK_ERROR = "NETWORK_ERROR",
   TIMEOUT_ERROR = "TIMEOUT_ERROR",
+  REQUEST_ABORTED = "REQUEST_ABORTED",
 }
 
 export interface User {
@@ -64,6 +68,11 @@ export interface User {
   firstName: string;
   lastName: string;
   isEmailVerified: boolean;
+  twoFactorEnabled?: boolean;
+  // New address waiting for the user to confirm it from the verification email
+  pendingEmail?: string;
+  // Role in the organization the session is signed into
+  role?: TeamRole;
   createdAt: string;
   updatedAt: string;
 }
@@ -73,10 +82,87 @@ export interface Organization {
   name: string;
   ownerId: string;
   stripeCustomerId: string;
+  // IANA time zone and BCP 47 locale used for schedules, reports and emails
+  timezone?: string;
+  locale?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+// One signed-in browser or app, backed by a refresh token
+export interface Session {
+  id: string;
+  deviceType: "desktop" | "mobile" | "tablet" | "unknown";
+  browser?: string;
+  os?: string;
+  ipAddress?: string;
+  // Approximate, resolved from the IP address
+  location?: string;
+  // The session the request was made with
+  isCurrent: boolean;
+  lastActiveAt: string;
+  createdAt: string;
+}
+
+export type SsoProtocol = "oidc" | "saml";
+
+// An organization's identity provider, people with an email at one of `domains` can sign in through it
+export interface SsoConnection {
+  id: string;
+  organizationId: string;
+  protocol: SsoProtocol;
+  domains: string[];
+  enabled: boolean;
+  // Password sign-in is refused for these domains once enabled
+  enforced: boolean;
+  // The client secret is write-only
+  oidc?: {
+    issuer: string;
+    clientId: string;
+    hasClientSecret: boolean;
+  };
+  // Read from the identity provider's metadata
+  saml?: {
+    metadataUrl?: string;
+    entityId: string;
+    ssoUrl: string;
+    certificateExpiresAt?: string;
+  };
+  // Our SAML service provider entity ID, registered with the identity provider along with the callback URL
+  serviceProviderEntityId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type TeamRole = "owner" | "admin" | "agent" | "viewer";
+
+// An organization the signed-in user belongs to, agencies manage several client organizations
+export interface OrganizationMembership {
+  organization: Organization;
+  role: TeamRole;
+}
+
+export interface TeamMember {
+  id: string;
+  organizationId: string;
+  userId: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  role: TeamRole;
+  createdAt: string;
+}
+
+export interface TeamInvitation {
+  id: string;
+  organizationId: string;
+  email: string;
+  role: TeamRole;
+  invitedBy?: string;
+  expiresAt: string;
+  createdAt: string;
+}
+
 export type PlanType = "starter" | "professional" | "enterprise";
 export type SubscriptionStatus =
   | "active"
@@ -88,6 +174,9 @@ export type SubscriptionStatus =
   | "trialing"
   | "unpaid";
 export type DeviceStatus = "online" | "offline" | "connecting";
+export type MediaType = "image" | "video" | "audio" | "document";
+export type MessageType = "text" | MediaType;
+export type MessageStatus = "pending" | "sent" | "delivered" | "read" | "failed";
 
 export interface Subscription {
   id: string;
@@ -132,6 +221,15 @@ export interface WhatsAppDevice {
   updatedAt: string;
 }
 
+// A status transition recorded by the server, newest first in history responses
+export interface DeviceStatusEvent {
+  id: string;
+  deviceId: string;
+  status: DeviceStatus;
+  reason?: string;
+  createdAt: string;
+}
+
 export interface Message {
   id: string;
   organizationId: string;
@@ -140,7 +238,7 @@ export interface Message {
   direction: "inbound" | "outbound";
   fromNumber: string;
   toNumber: string;
-  messageType: "text" | "image" | "video" | "audio" | "document";
+  messageType: MessageType;
   content?: string;
   mediaUrl?: string;
   mediaSizeMB?: string;
@@ -149,8 +247,8 @@ export interface Message {
   // Extended properties for outbound messages
   to?: string;
   from?: string;
-  type?: "text" | "image" | "video" | "document";
-  status?: "pending" | "sent" | "delivered" | "read" | "failed";
+  type?: MessageType;
+  status?: MessageStatus;
   updatedAt?: string;
   mediaType?: string;
   errorMessage?: string;
@@ -201,12 +299,14 @@ export interface BillingHistory {
   createdAt: string;
 }
 
-export interface PaymentMethodRequest {
-  cardNumber: string;
-  expiryMonth: string;
-  expiryYear: string;
-  cvc: string;
-  cardholderName: string;
+// Card details are tokenized by Stripe, we only ever see display fields
+export interface PaymentMethod {
+  id: string;
+  brand: string;
+  last4: string;
+  expMonth: number;
+  expYear: number;
+  isDefault: boolean;
 }
 
 // Request interfaces
@@ -215,12 +315,127 @@ export interface LoginRequest {
   password: string;
 }
 
+// Returned by login instead of tokens when the account has two-factor authentication enabled
+export interface MfaChallenge {
+  mfaRequired: true;
+  mfaToken: string;
+}
+
+export interface VerifyMfaRequest {
+  mfaToken: string;
+  code: string;
+  method: "totp" | "recovery";
+  rememberDevice?: boolean;
+}
+
+export interface TwoFactorCodeRequest {
+  code: string;
+}
+
+export interface DisableTwoFactorRequest {
+  password: string;
+  code: string;
+}
+
 export interface RegisterRequest {
   email: string;
   password: string;
   firstName: string;
   lastName: string;
-  organizationName: string;
+  // Required unless joining an existing organization through an invitation token
+  organizationName?: string;
+  invitationToken?: string;
+  // App path the verification email links back to once the address is confirmed
+  redirectTo?: string;
+}
+
+export interface ForgotPasswordRequest {
+  email: string;
+}
+
+export interface ResetPasswordRequest {
+  token: string;
+  password: string;
+}
+
+export interface VerifyEmailRequest {
+  token: string;
+}
+
+export interface UpdateProfileRequest {
+  firstName: string;
+  lastName: string;
+}
+
+// The email only changes once the new address is verified
+export interface ChangeEmailRequest {
+  email: string;
+  currentPassword: string;
+}
+
+export interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+}
+
+export interface UpdateOrganizationRequest {
+  name?: string;
+  timezone?: string;
+  locale?: string;
+}
+
+export interface DeleteOrganizationRequest {
+  password: string;
+}
+
+// SAML takes the metadata URL or the metadata XML itself, an omitted OIDC client secret keeps the saved one
+export interface UpdateSsoConnectionRequest {
+  protocol: SsoProtocol;
+  domains: string[];
+  enabled: boolean;
+  enforced: boolean;
+  oidc?: {
+    issuer: string;
+    clientId: string;
+    clientSecret?: string;
+  };
+  saml?: {
+    metadataUrl?: string;
+    metadataXml?: string;
+  };
+}
+
+// `state` binds the identity provider's answer to the browser that started the sign-in, it comes back
+// as the OIDC `state` or the SAML `RelayState`
+export interface SsoAuthorizeRequest {
+  email: string;
+  state: string;
+  redirectUri: string;
+}
+
+// `code` comes back from OIDC providers, `samlResponse` from SAML ones
+export interface SsoCallbackRequest {
+  state: string;
+  redirectUri: string;
+  code?: string;
+  samlResponse?: string;
+  // Preferred organization for people in several, like the login request the BFF sends
+  organizationId?: string;
+}
+
+// Exchanges the session for one in another organization the user belongs to
+export interface SwitchOrganizationRequest {
+  organizationId: string;
+}
+
+// Ownership can't be granted by invitation or role change
+export interface InviteTeamMemberRequest {
+  email: string;
+  role: Exclude<TeamRole, "owner">;
+}
+
+export interface UpdateTeamMemberRequest {
+  role: Exclude<TeamRole, "owner">;
 }
 
 export interface CreateDeviceRequest {
@@ -235,10 +450,30 @@ export interface SendMessageRequest {
   deviceId: string;
   to: string;
   message: string;
-  type?: "text" | "image" | "document" | "audio" | "video";
+  type?: MessageType;
   media?: string;
 }
 
+export interface UploadMediaOptions {
+  onProgress?: (progress: UploadProgress) => void;
+  signal?: AbortSignal;
+}
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+  percent: number;
+}
+
+export interface MediaUpload {
+  id: string;
+  url: string;
+  type: MediaType;
+  mimeType: string;
+  fileName: string;
+  sizeBytes: number;
+}
+
 export interface CreateSubscriptionRequest {
   planType: PlanType;
   paymentMethodId?: string;
@@ -259,11 +494,73 @@ export interface UpdateMessageTemplateRequest {
 }
 
 // Response type aliases using standardized format
+// The BFF moves the API's tokens into httpOnly cookies, so auth responses only carry the account
 export type AuthResponse = ApiResponse<{
   user: User;
   organization: Organization;
-  accessToken: string;
-  refreshToken: string;
+}>;
+
+// Single-use ticket the realtime socket connects with, see ApiClient.getRealtimeTicket
+export type RealtimeTicketResponse = ApiResponse<{
+  ticket: string;
+  expiresAt: string;
+}>;
+
+// The masked address lets the reset page show whose password is being changed
+export type PasswordResetTokenResponse = ApiResponse<{
+  email: string;
+  expiresAt: string;
+}>;
+
+export type CurrentUserResponse = ApiResponse<{
+  user: User;
+  organization: Organization;
+}>;
+
+export type UserResponse = ApiResponse<{
+  user: User;
+}>;
+
+export type OrganizationResponse = ApiResponse<{
+  organization: Organization;
+}>;
+
+export type OrganizationsResponse = ApiResponse<{
+  organizations: OrganizationMembership[];
+}>;
+
+// Null when the domain has no enabled identity provider
+export type SsoDiscoveryResponse = ApiResponse<{
+  connection: {
+    protocol: SsoProtocol;
+    organizationName: string;
+    enforced: boolean;
+  } | null;
+}>;
+
+export type SsoAuthorizeResponse = ApiResponse<{
+  authorizationUrl: string;
+}>;
+
+export type SsoConnectionResponse = ApiResponse<{
+  connection: SsoConnection | null;
+}>;
+
+export type LoginResponse = ApiResponse<NonNullable<AuthResponse["data"]> | MfaChallenge>;
+
+// `qrCode` is an image data URL of `otpauthUrl`, `secret` is for typing into the app by hand
+export type TwoFactorSetupResponse = ApiResponse<{
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}>;
+
+export type RecoveryCodesResponse = ApiResponse<{
+  recoveryCodes: string[];
+}>;
+
+export type SessionsResponse = ApiResponse<{
+  sessions: Session[];
 }>;
 
 export type DevicesResponse = ApiResponse<{
@@ -274,10 +571,29 @@ export type DeviceResponse = ApiResponse<{
   device: WhatsAppDevice;
 }>;
 
+// QR codes rotate, expiresAt tells clients when to expect the next one
+export type DeviceQRResponse = ApiResponse<{
+  qrCode: string;
+  expiresAt?: string;
+}>;
+
+export type ConnectDeviceResponse = ApiResponse<{
+  qrCode?: string;
+  expiresAt?: string;
+}>;
+
+export type DeviceStatusHistoryResponse = ApiResponse<{
+  events: DeviceStatusEvent[];
+}>;
+
 export type GetMessagesResponse = ApiResponse<{
   messages: Message[];
 }>;
 
+export type UploadMediaResponse = ApiResponse<{
+  media: MediaUpload;
+}>;
+
 export type SendMessageResponse = ApiResponse<{
   messageId: string;
   status: string;
@@ -288,6 +604,13 @@ export type PlansResponse = ApiResponse<{
   plans: PlanFeatures[];
 }>;
 
+// clientSecret is set when the first invoice needs a client-side confirmation (3DS)
+export type CreateSubscriptionResponse = ApiResponse<{
+  subscriptionId?: string;
+  status?: SubscriptionStatus;
+  clientSecret?: string;
+}>;
+
 export type CurrentSubscriptionResponse = ApiResponse<{
   subscription?: Subscription;
   planFeatures?: PlanFeatures;
@@ -301,6 +624,28 @@ export type WorkerStatsResponse = ApiResponse<{
   workers: WorkerStats[];
 }>;
 
+export type TeamMembersResponse = ApiResponse<{
+  members: TeamMember[];
+}>;
+
+export type TeamMemberResponse = ApiResponse<{
+  member: TeamMember;
+}>;
+
+export type TeamInvitationsResponse = ApiResponse<{
+  invitations: TeamInvitation[];
+}>;
+
+export type TeamInvitationResponse = ApiResponse<{
+  invitation: TeamInvitation;
+}>;
+
+// Public lookup used by the register page before the invitee has an account
+export type InvitationDetailsResponse = ApiResponse<{
+  invitation: TeamInvitation;
+  organization: Pick<Organization, "id" | "name">;
+}>;
+
 export type MessageTemplatesResponse = ApiResponse<{
   templates: MessageTemplate[];
 }>;
@@ -309,6 +654,27 @@ export type MessageTemplateResponse = ApiResponse<{
   template: MessageTemplate;
 }>;
 
+// Realtime events pushed over the WebSocket channel
+export type RealtimeEvent =
+  | {
+      type: "device.status";
+      payload: { deviceId: string; status: DeviceStatus; phoneNumber?: string; lastSeen?: string };
+    }
+  | {
+      type: "device.qr";
+      payload: { deviceId: string; qrCode: string; expiresAt?: string };
+    }
+  | {
+      type: "message.status";
+      payload: { messageId: string; status: MessageStatus; errorMessage?: string; updatedAt?: string };
+    }
+  | {
+      type: "message.created";
+      payload: { message: Message };
+    };
+
+export type RealtimeConnectionState = "idle" | "connecting" | "open" | "reconnecting" | "closed";
+
 // Legacy interface for backwards compatibility during migration
 export interface ApiError {
   error: string;
@@ -333,6 +699,14 @@ export type BillingHistoryResponse = ApiResponse<{
   history: BillingHistory[];
 }>;
 
-export type UpdatePaymentMethodResponse = ApiResponse<{
-  success: boolean;
+export type PaymentMethodsResponse = ApiResponse<{
+  paymentMethods: PaymentMethod[];
+}>;
+
+export type PaymentMethodResponse = ApiResponse<{
+  paymentMethod: PaymentMethod;
+}>;
+
+export type SetupIntentResponse = ApiResponse<{
+  clientSecret: string;
 }>;
@@ -1,7 +1,8 @@
 // Jotai atoms for component-level state management
-import { atom } from "jotai";
-import { atomWithStorage } from "jotai/utils";
+import { atom, type createStore } from "jotai";
+import { atomWithStorage, RESET } from "jotai/utils";
 import type { WhatsAppDevice, PlanType } from "../api/types";
+import type { UptimeWindow } from "../uptime";
 
 // Theme and preferences
 export const themeAtom = atomWithStorage<"light" | "dark" | "system">("theme", "system");
@@ -14,6 +15,7 @@ export const deviceFiltersAtom = atom({
   sortBy: "name" as "name" | "status" | "lastSeen" | "messages",
   sortOrder: "asc" as "asc" | "desc",
 });
+export const uptimeWindowAtom = atomWithStorage<UptimeWindow>("uptime-window", "7d");
 
 // Message sending
 export const messageFormAtom = atom({
@@ -24,6 +26,12 @@ export const messageFormAtom = atom({
   media: "",
 });
 
+// Inbox: last time each conversation (deviceId:contact) was opened, used for unread counts
+export const conversationReadAtAtom = atomWithStorage<Record<string, number>>("conversation-read-at", {});
+
+// Email verification: when the last verification email was requested, for the resend cooldown
+export const verificationEmailSentAtAtom = atomWithStorage<number>("verification-email-sent-at", 0);
+
 // Subscription and billing
 export const selectedPlanAtom = atom<PlanType | null>(null);
 export const billingPreferencesAtom = atomWithStorage("billing-preferences", {
@@ -124,3 +132,18 @@ export const currentUsagePercentageAtom = atom((get) => {
   // This would calculate usage percentage based on actual usage data
   return 0;
 });
+
+// Clears account-specific state on logout so the next person on this browser starts fresh,
+// display preferences like theme and uptime window are kept
+export const resetSessionAtoms = (store: ReturnType<typeof createStore>) => {
+  store.set(conversationReadAtAtom, RESET);
+  store.set(billingPreferencesAtom, RESET);
+  store.set(notificationPreferencesAtom, RESET);
+  store.set(verificationEmailSentAtAtom, RESET);
+  store.set(selectedDeviceAtom, null);
+  store.set(selectedPlanAtom, null);
+  store.set(messageFormAtom, { deviceId: "", to: "", message: "", type: "text", media: "" });
+  store.set(deviceFormAtom, { name: "", deviceId: "", isEditing: false, editingDeviceId: "" });
+  store.set(quickActionsAtom, { recentDevices: [], favoriteContacts: [], messageTemplates: [] });
+  store.set(globalSearchAtom, "");
+};
@@ -0,0 +1,46 @@
+// Auth event bus between the open tabs over a BroadcastChannel, so signing in or out, a token refresh
+// or an organization switch in one tab reaches the others straight away instead of on their next request
+export type AuthChannelEvent =
+  | { type: "login"; userId: string }
+  | { type: "logout" }
+  | { type: "session-refreshed" }
+  | { type: "organization-switched"; organizationId: string }
+  // Keeps the idle timeout of every tab in step with the one the user is working in
+  | { type: "activity"; at: number };
+
+const CHANNEL_NAME = "messager-auth";
+
+type AuthChannelListener = (event: AuthChannelEvent) => void;
+
+class AuthChannel {
+  private channel: BroadcastChannel | null = null;
+  private listeners = new Set<AuthChannelListener>();
+
+  // Opened on first use, there's no BroadcastChannel during server rendering
+  private getChannel(): BroadcastChannel | null {
+    if (this.channel) return this.channel;
+    if (typeof window === "undefined" || typeof BroadcastChannel === "undefined") return null;
+
+    this.channel = new BroadcastChannel(CHANNEL_NAME);
+    this.channel.onmessage = (message: MessageEvent<AuthChannelEvent>) => {
+      this.listeners.forEach((listener) => listener(message.data));
+    };
+    return this.channel;
+  }
+
+  // Reaches the other tabs only, a tab never receives what it posts itself
+  post(event: AuthChannelEvent): void {
+    this.getChannel()?.postMessage(event);
+  }
+
+  subscribe(listener: AuthChannelListener): () => void {
+    this.getChannel();
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+// Export singleton instance
+export const authChannel = new AuthChannel();
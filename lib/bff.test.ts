@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { ErrorCode } from "./api/types";
+import { getClientIp, refreshSession, splitTokens } from "./bff";
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+describe("getClientIp", () => {
+  const requestWith = (forwardedFor?: string) =>
+    new NextRequest("http://localhost/api/auth/sessions", {
+      headers: forwardedFor ? { "x-forwarded-for": forwardedFor } : {},
+    });
+
+  it("takes the address the proxy appended, not the ones the browser sent", () => {
+    expect(getClientIp(requestWith("1.1.1.1, 203.0.113.7"))).toBe("203.0.113.7");
+    expect(getClientIp(requestWith("203.0.113.7"))).toBe("203.0.113.7");
+  });
+
+  it("is undefined without an address", () => {
+    expect(getClientIp(requestWith())).toBeUndefined();
+    expect(getClientIp(requestWith(" , "))).toBeUndefined();
+  });
+});
+
+describe("splitTokens", () => {
+  it("moves the tokens out of the payload", () => {
+    const payload = { accessToken: "a", refreshToken: "r", rememberedDeviceToken: "d", user: { id: "1" } };
+    expect(splitTokens(payload)).toEqual({
+      tokens: { accessToken: "a", refreshToken: "r", rememberedDeviceToken: "d" },
+      data: { user: { id: "1" } },
+    });
+  });
+
+  it("leaves payloads without both tokens unchanged", () => {
+    const data = { accessToken: "a", user: { id: "1" } };
+    expect(splitTokens(data)).toEqual({ tokens: null, data });
+    expect(splitTokens(null)).toEqual({ tokens: null, data: null });
+  });
+});
+
+describe("refreshSession", () => {
+  const fetchMock = vi.fn<typeof fetch>();
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(async () => {
+    // Let the reuse window of every refresh run out so the next test starts without one
+    await vi.runAllTimersAsync();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    fetchMock.mockReset();
+  });
+
+  it("shares one refresh between parallel requests and reuses it for a while", async () => {
+    fetchMock.mockImplementation(async () =>
+      jsonResponse({ success: true, data: { accessToken: "a2", refreshToken: "r2" } }),
+    );
+
+    const [first, second] = await Promise.all([refreshSession("r1"), refreshSession("r1")]);
+    await vi.advanceTimersByTimeAsync(5 * 1000);
+    const late = await refreshSession("r1");
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(first).toEqual({ tokens: { accessToken: "a2", refreshToken: "r2" }, data: {} });
+    expect(second).toBe(first);
+    expect(late).toBe(first);
+
+    await vi.advanceTimersByTimeAsync(10 * 1000);
+    await refreshSession("r1");
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("resolves with the reason the API refused the token", async () => {
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse({ success: false, error: { code: ErrorCode.SESSION_REVOKED, message: "Revoked" } }, 401),
+    );
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse({ success: false, error: { code: ErrorCode.TOKEN_EXPIRED, message: "Expired" } }, 401),
+    );
+
+    expect(await refreshSession("revoked")).toEqual({ reason: "revoked" });
+    expect(await refreshSession("expired")).toEqual({ reason: "expired" });
+  });
+
+  it("throws on outages and doesn't keep the failure around", async () => {
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 503 }));
+    await expect(refreshSession("r3")).rejects.toThrow("503");
+
+    fetchMock.mockResolvedValueOnce(jsonResponse({ success: true, data: { accessToken: "a4", refreshToken: "r4" } }));
+    expect(await refreshSession("r3")).toMatchObject({ tokens: { accessToken: "a4" } });
+  });
+});
@@ -0,0 +1,260 @@
+// Backend-for-frontend session handling for the route handlers under app/api. The API's tokens only live in
+// httpOnly cookies set here, the browser calls the same-origin proxy and never sees them
+import { NextResponse, type NextRequest } from "next/server";
+import { API_BASE_URL, SESSION_ENDED_HEADER, SESSION_REFRESHED_HEADER, type SessionEndReason } from "./api/client";
+import { ErrorCode, type ApiResponse } from "./api/types";
+import { decodeJWTPayload } from "./jwt";
+import {
+  AUTH_TOKEN_COOKIE,
+  ORGANIZATION_COOKIE,
+  REFRESH_TOKEN_COOKIE,
+  REMEMBERED_DEVICE_COOKIE,
+  SESSION_EXPIRES_COOKIE,
+  SSO_STATE_COOKIE,
+} from "./cookies";
+import { DEFAULT_REDIRECT, REDIRECT_PARAM } from "./redirects";
+import { SSO_CALLBACK_PATH, SSO_ERROR_PARAM, type SsoError } from "./sso";
+
+// Page navigations without a valid access token are sent here by the middleware to refresh the session
+export const SESSION_REFRESH_PATH = "/api/auth/session/refresh";
+
+// Endpoints that are called without a session, so they never trigger a token refresh
+const PUBLIC_ENDPOINTS = [
+  "/auth/refresh",
+  "/auth/login",
+  "/auth/register",
+  "/auth/forgot-password",
+  "/auth/reset-password",
+  "/auth/verify-email",
+  "/auth/mfa/",
+  "/auth/sso/",
+  "/invitations/",
+];
+
+export const isPublicEndpoint = (endpoint: string) => PUBLIC_ENDPOINTS.some((path) => endpoint.startsWith(path));
+
+// Responses that hand out tokens, the BFF keeps them in cookies and strips them from the body
+export const TOKEN_ENDPOINTS = ["/auth/login", "/auth/register", "/auth/mfa/verify", "/auth/switch-organization"];
+
+// Requests that end this browser's session once the API accepts them
+export const SESSION_ENDING_REQUESTS = new Set(["POST /auth/logout", "DELETE /auth/sessions", "DELETE /organization"]);
+
+// Requests that invalidate the remembered two-factor device token
+export const REMEMBERED_DEVICE_ENDING_REQUESTS = new Set([
+  "POST /users/me/2fa/disable",
+  "DELETE /users/me/2fa/remembered-devices",
+]);
+
+const ACCESS_TOKEN_MAX_AGE = 60 * 15; // 15 minutes
+const REFRESH_TOKEN_MAX_AGE = 60 * 60 * 24 * 90; // 90 days (3 months)
+const REMEMBERED_DEVICE_MAX_AGE = 60 * 60 * 24 * 30; // 30 days
+const ORGANIZATION_MAX_AGE = 60 * 60 * 24 * 365; // 1 year
+const SSO_STATE_MAX_AGE = 60 * 10; // 10 minutes at the identity provider
+
+// Parallel requests with an expiring token share one refresh, and requests that were sent with the old
+// cookie just before the new one arrived reuse its result instead of presenting a rotated refresh token.
+// The middleware has its own copy of this module, so it leaves refreshing to SESSION_REFRESH_PATH
+const REFRESH_REUSE_WINDOW_MS = 10 * 1000;
+
+// The hosting proxy appends the address it saw to x-forwarded-for, anything before it came from the browser
+export const getClientIp = (request: NextRequest) =>
+  request.headers.get("x-forwarded-for")?.split(",").pop()?.trim() || undefined;
+
+const cookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "lax" as const,
+  path: "/",
+};
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  // Only issued by the two-factor step when it was asked to remember the browser
+  rememberedDeviceToken?: string;
+}
+
+export type RefreshResult = { tokens: SessionTokens; data: unknown } | { reason: SessionEndReason };
+
+export const getSessionCookies = (request: NextRequest) => ({
+  accessToken: request.cookies.get(AUTH_TOKEN_COOKIE)?.value,
+  refreshToken: request.cookies.get(REFRESH_TOKEN_COOKIE)?.value,
+  rememberedDeviceToken: request.cookies.get(REMEMBERED_DEVICE_COOKIE)?.value,
+  // Sent along with sign-ins so the API picks the organization the browser last worked in
+  organizationId: request.cookies.get(ORGANIZATION_COOKIE)?.value,
+});
+
+// Seconds until the token's `exp` claim, or the fallback when it has none
+const getMaxAge = (token: string, fallback: number) => {
+  const exp = decodeJWTPayload(token)?.exp;
+  return exp ? Math.max(0, exp - Math.floor(Date.now() / 1000)) : fallback;
+};
+
+export const setSessionCookies = (response: NextResponse, tokens: SessionTokens) => {
+  const refreshMaxAge = getMaxAge(tokens.refreshToken, REFRESH_TOKEN_MAX_AGE);
+
+  response.cookies.set(AUTH_TOKEN_COOKIE, tokens.accessToken, {
+    ...cookieOptions,
+    maxAge: getMaxAge(tokens.accessToken, ACCESS_TOKEN_MAX_AGE),
+  });
+  response.cookies.set(REFRESH_TOKEN_COOKIE, tokens.refreshToken, { ...cookieOptions, maxAge: refreshMaxAge });
+  // Not a secret, lets scripts know the browser is signed in and until when
+  response.cookies.set(SESSION_EXPIRES_COOKIE, String(Math.floor(Date.now() / 1000) + refreshMaxAge), {
+    ...cookieOptions,
+    httpOnly: false,
+    maxAge: refreshMaxAge,
+  });
+
+  const organizationId = decodeJWTPayload(tokens.accessToken)?.organizationId;
+  if (typeof organizationId === "string") {
+    response.cookies.set(ORGANIZATION_COOKIE, organizationId, {
+      ...cookieOptions,
+      httpOnly: false,
+      maxAge: ORGANIZATION_MAX_AGE,
+    });
+  }
+
+  if (tokens.rememberedDeviceToken) {
+    response.cookies.set(REMEMBERED_DEVICE_COOKIE, tokens.rememberedDeviceToken, {
+      ...cookieOptions,
+      maxAge: REMEMBERED_DEVICE_MAX_AGE,
+    });
+  }
+};
+
+// For tokens from a refresh rather than a sign-in, ApiClient passes the header on to the other tabs
+export const setRefreshedSessionCookies = (response: NextResponse, tokens: SessionTokens) => {
+  setSessionCookies(response, tokens);
+  response.headers.set(SESSION_REFRESHED_HEADER, "1");
+};
+
+// Deleting needs the same path the cookies were set with
+const expireCookie = (response: NextResponse, name: string) => {
+  response.cookies.set(name, "", { ...cookieOptions, maxAge: 0 });
+};
+
+// The remembered device and organization cookies are kept on purpose, they outlive sessions
+export const clearSessionCookies = (response: NextResponse) => {
+  expireCookie(response, AUTH_TOKEN_COOKIE);
+  expireCookie(response, REFRESH_TOKEN_COOKIE);
+  expireCookie(response, SESSION_EXPIRES_COOKIE);
+};
+
+export const clearRememberedDeviceCookie = (response: NextResponse) => {
+  expireCookie(response, REMEMBERED_DEVICE_COOKIE);
+};
+
+// A single sign-on in progress: the `state` the identity provider has to send back and where to go afterwards
+export interface SsoFlowState {
+  state: string;
+  redirectTo: string;
+}
+
+// SAML identity providers post their response cross-site, which only carries SameSite=None cookies.
+// Browsers accept Secure cookies on http://localhost, so this works in development too
+const ssoStateCookieOptions = { ...cookieOptions, secure: true, sameSite: "none" as const, path: SSO_CALLBACK_PATH };
+
+export const setSsoStateCookie = (response: NextResponse, flow: SsoFlowState) => {
+  response.cookies.set(SSO_STATE_COOKIE, JSON.stringify(flow), { ...ssoStateCookieOptions, maxAge: SSO_STATE_MAX_AGE });
+};
+
+export const getSsoStateCookie = (request: NextRequest): SsoFlowState | null => {
+  try {
+    const flow = JSON.parse(request.cookies.get(SSO_STATE_COOKIE)?.value ?? "null");
+    return typeof flow?.state === "string" && typeof flow.redirectTo === "string" ? flow : null;
+  } catch {
+    return null;
+  }
+};
+
+export const clearSsoStateCookie = (response: NextResponse) => {
+  response.cookies.set(SSO_STATE_COOKIE, "", { ...ssoStateCookieOptions, maxAge: 0 });
+};
+
+// Back to the login page, which explains what went wrong and keeps where the user was headed
+export const ssoErrorResponse = (request: NextRequest, error: SsoError, redirectTo: string) => {
+  const loginUrl = new URL("/auth/login", request.url);
+  loginUrl.searchParams.set(SSO_ERROR_PARAM, error);
+  if (redirectTo !== DEFAULT_REDIRECT) loginUrl.searchParams.set(REDIRECT_PARAM, redirectTo);
+
+  const response = NextResponse.redirect(loginUrl, 303);
+  clearSsoStateCookie(response);
+  return response;
+};
+
+// Splits the tokens off a login, register, two-factor or refresh payload, other payloads come back unchanged
+export const splitTokens = (data: unknown): { tokens: SessionTokens | null; data: unknown } => {
+  if (!data || typeof data !== "object") return { tokens: null, data };
+
+  const { accessToken, refreshToken, rememberedDeviceToken, ...rest } = data as Record<string, unknown>;
+  if (typeof accessToken !== "string" || typeof refreshToken !== "string") return { tokens: null, data };
+
+  return {
+    tokens: {
+      accessToken,
+      refreshToken,
+      rememberedDeviceToken: typeof rememberedDeviceToken === "string" ? rememberedDeviceToken : undefined,
+    },
+    data: rest,
+  };
+};
+
+const refreshesInFlight = new Map<string, Promise<RefreshResult>>();
+
+const requestRefresh = async (refreshToken: string): Promise<RefreshResult> => {
+  const response = await fetch(`${API_BASE_URL}/auth/refresh`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ refreshToken }),
+    cache: "no-store",
+  });
+
+  // Outages keep the session, the next request tries again
+  if (response.status >= 500) {
+    throw new Error(`Token refresh failed with status ${response.status}`);
+  }
+
+  const body: ApiResponse = await response.json();
+  const { tokens, data } = splitTokens(body.data);
+  if (response.ok && body.success && tokens) {
+    return { tokens, data };
+  }
+
+  return { reason: body.error?.code === ErrorCode.SESSION_REVOKED ? "revoked" : "expired" };
+};
+
+// Exchanges the refresh token for new tokens. Throws when the API can't be reached, resolves with the reason
+// when the API refused, e.g. the session was signed out from another device
+export const refreshSession = (refreshToken: string): Promise<RefreshResult> => {
+  const inFlight = refreshesInFlight.get(refreshToken);
+  if (inFlight) return inFlight;
+
+  const refresh = requestRefresh(refreshToken);
+  refreshesInFlight.set(refreshToken, refresh);
+  refresh.then(
+    () => setTimeout(() => refreshesInFlight.delete(refreshToken), REFRESH_REUSE_WINDOW_MS),
+    () => refreshesInFlight.delete(refreshToken),
+  );
+
+  return refresh;
+};
+
+export const errorResponse = (status: number, code: ErrorCode, message: string) =>
+  NextResponse.json<ApiResponse>({ success: false, error: { code, message } }, { status });
+
+// Tells ApiClient to drop the session in the app too, see SESSION_ENDED_HEADER
+export const sessionEndedResponse = (reason: SessionEndReason) => {
+  const response = errorResponse(
+    401,
+    reason === "revoked" ? ErrorCode.SESSION_REVOKED : ErrorCode.TOKEN_EXPIRED,
+    "Session expired. Please log in again.",
+  );
+  response.headers.set(SESSION_ENDED_HEADER, reason);
+  clearSessionCookies(response);
+  return response;
+};
+
+export const apiUnavailableResponse = (error: unknown) => {
+  console.error("BFF - API request failed:", error);
+  return errorResponse(502, ErrorCode.SERVICE_UNAVAILABLE, "The service is unavailable, please try again shortly");
+};
@@ -0,0 +1,14 @@
+"use client";
+
+import { Fragment } from "react";
+import { useAuthStore } from "../stores/auth";
+
+/**
+ * Client component that remounts its children when the session moves to another organization, so every
+ * query is read again under that organization's keys and no component state carries over
+ */
+export function OrganizationScope({ children }: { children: React.ReactNode }) {
+  const organizationId = useAuthStore((state) => state.organizationId);
+
+  return <Fragment key={organizationId ?? "none"}>{children}</Fragment>;
+}
@@ -0,0 +1,12 @@
+"use client";
+
+import { useRealtimeSync } from "../hooks/realtime";
+
+/**
+ * Client component that keeps the realtime channel connected for authenticated pages
+ */
+export function RealtimeBridge() {
+  useRealtimeSync();
+
+  return null; // This component doesn't render anything
+}
@@ -0,0 +1,59 @@
+// Groups the flat message list into per-contact conversations for the inbox
+import type { Message } from "./api/types";
+
+export interface Conversation {
+  key: string;
+  deviceId: string;
+  contact: string;
+  messages: Message[]; // Oldest first
+  lastMessage: Message;
+  unreadCount: number;
+}
+
+// The other party of a message, regardless of who sent it
+export const getContactNumber = (message: Message): string =>
+  message.direction === "inbound" ? message.fromNumber : message.toNumber;
+
+export const getConversationKey = (deviceId: string, contact: string): string => `${deviceId}:${contact}`;
+
+export const getMessageTime = (message: Message): number => new Date(message.timestamp || message.createdAt).getTime();
+
+export const getMessagePreview = (message: Message): string => {
+  if (message.messageType === "text") return message.content || "";
+  return message.content || `${message.messageType.charAt(0).toUpperCase()}${message.messageType.slice(1)}`;
+};
+
+/**
+ * Builds conversations sorted by most recent activity. Inbound messages newer than the
+ * conversation's entry in `readAt` count as unread.
+ */
+export const groupConversations = (messages: Message[], readAt: Record<string, number>): Conversation[] => {
+  const groups = new Map<string, Message[]>();
+
+  messages.forEach((message) => {
+    const key = getConversationKey(message.deviceId, getContactNumber(message));
+    const group = groups.get(key);
+    if (group) {
+      group.push(message);
+    } else {
+      groups.set(key, [message]);
+    }
+  });
+
+  return Array.from(groups.entries())
+    .map(([key, group]) => {
+      const sorted = [...group].sort((a, b) => getMessageTime(a) - getMessageTime(b));
+      const lastMessage = sorted[sorted.length - 1];
+      const lastReadAt = readAt[key] || 0;
+
+      return {
+        key,
+        deviceId: lastMessage.deviceId,
+        contact: getContactNumber(lastMessage),
+        messages: sorted,
+        lastMessage,
+        unreadCount: sorted.filter((m) => m.direction === "inbound" && getMessageTime(m) > lastReadAt).length,
+      };
+    })
+    .sort((a, b) => getMessageTime(b.lastMessage) - getMessageTime(a.lastMessage));
+};
@@ -1,67 +1,45 @@
-import { getCookie, setCookie, deleteCookie } from "cookies-next";
-
-// Cookie names
-const AUTH_TOKEN_COOKIE = "auth_token";
-const REFRESH_TOKEN_COOKIE = "refresh_token";
-
-// Cookie options
-const cookieOptions = {
-  // secure: process.env.NODE_ENV === 'production',
-  sameSite: "lax" as const,
-  path: "/",
-};
-
-// Token management functions
-export const getAuthToken = (): string | null => {
+import { getCookie } from "cookies-next";
+
+// Cookie names. The tokens are httpOnly and only handled by the BFF route handlers under app/api,
+// scripts can read the session expiry to know whether the browser is signed in
+export const AUTH_TOKEN_COOKIE = "auth_token";
+export const REFRESH_TOKEN_COOKIE = "refresh_token";
+export const REMEMBERED_DEVICE_COOKIE = "mfa_remembered_device";
+export const SESSION_EXPIRES_COOKIE = "session_expires_at";
+// The organization the browser last worked in. Readable so query keys can be scoped to it, and kept
+// after logging out so the next sign-in returns to it
+export const ORGANIZATION_COOKIE = "organization_id";
+// Ties a single sign-on callback to the browser that started it, see setSsoStateCookie
+export const SSO_STATE_COOKIE = "sso_state";
+
+// Unix time in seconds when the refresh token expires, null without a session
+export const getSessionExpiresAt = (): number | null => {
   try {
-    const token = getCookie(AUTH_TOKEN_COOKIE);
-    return typeof token === "string" ? token : null;
+    const value = getCookie(SESSION_EXPIRES_COOKIE);
+    const expiresAt = typeof value === "string" ? Number(value) : NaN;
+    return Number.isFinite(expiresAt) ? expiresAt : null;
   } catch (error) {
-    console.error("Error getting auth token:", error);
+    console.error("Error getting session expiry:", error);
     return null;
   }
 };
 
-export const setAuthToken = (token: string): void => {
-  try {
-    setCookie(AUTH_TOKEN_COOKIE, token, {
-      ...cookieOptions,
-      maxAge: 60 * 15, // 15 minutes
-      httpOnly: false, // Allow JavaScript access
-    });
-  } catch (error) {
-    console.error("Error setting auth token:", error);
-  }
-};
-
-export const getRefreshToken = (): string | null => {
-  try {
-    const token = getCookie(REFRESH_TOKEN_COOKIE);
-    return typeof token === "string" ? token : null;
-  } catch (error) {
-    console.error("Error getting refresh token:", error);
-    return null;
-  }
-};
+// Check if there is a session the BFF can still refresh
+export const hasValidSession = (): boolean => {
+  const expiresAt = getSessionExpiresAt();
+  if (!expiresAt) return false;
 
-export const setRefreshToken = (token: string): void => {
-  try {
-    setCookie(REFRESH_TOKEN_COOKIE, token, {
-      ...cookieOptions,
-      maxAge: 60 * 60 * 24 * 90, // 90 days (3 months)
-      httpOnly: false, // Allow JavaScript access
-    });
-  } catch (error) {
-    console.error("Error setting refresh token:", error);
-  }
+  const currentTime = Math.floor(Date.now() / 1000);
+  return expiresAt > currentTime;
 };
 
-export const removeAuthTokens = (): void => {
+export const getOrganizationId = (): string | null => {
   try {
-    deleteCookie(AUTH_TOKEN_COOKIE, { path: "/" });
-    deleteCookie(REFRESH_TOKEN_COOKIE, { path: "/" });
+    const value = getCookie(ORGANIZATION_COOKIE);
+    return typeof value === "string" && value ? value : null;
   } catch (error) {
-    console.error("Error removing auth tokens:", error);
+    console.error("Error getting organization:", error);
+    return null;
   }
 };
 
@@ -69,46 +47,3 @@ export const removeAuthTokens = (): void => {
 export const isClient = (): boolean => {
   return typeof window !== "undefined";
 };
-
-// Helper function to decode JWT payload (client-side only, for expiration check)
-const decodeJWTPayload = (token: string): any => {
-  try {
-    const base64Url = token.split(".")[1];
-    const base64 = base64Url.replace(/-/g, "+").replace(/_/g, "/");
-    const jsonPayload = decodeURIComponent(
-      atob(base64)
-        .split("")
-        .map((c) => "%" + ("00" + c.charCodeAt(0).toString(16)).slice(-2))
-        .join(""),
-    );
-    return JSON.parse(jsonPayload);
-  } catch (error) {
-    console.error("Error decoding JWT:", error);
-    return null;
-  }
-};
-
-// Check if token is expired or will expire soon (within 2 minutes)
-export const isTokenExpiredOrExpiringSoon = (token: string | null): boolean => {
-  if (!token) return true;
-
-  const payload = decodeJWTPayload(token);
-  if (!payload || !payload.exp) return true;
-
-  const currentTime = Math.floor(Date.now() / 1000);
-  const bufferTime = 2 * 60; // 2 minutes buffer
-
-  return payload.exp <= currentTime + bufferTime;
-};
-
-// Check if refresh token is valid and not expired
-export const isRefreshTokenValid = (): boolean => {
-  const refreshToken = getRefreshToken();
-  if (!refreshToken) return false;
-
-  const payload = decodeJWTPayload(refreshToken);
-  if (!payload || !payload.exp) return false;
-
-  const currentTime = Math.floor(Date.now() / 1000);
-  return payload.exp > currentTime;
-};
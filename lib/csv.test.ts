@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv, stringifyCsv } from "./csv";
+
+describe("parseCsv", () => {
+  it("maps rows to the trimmed headers", () => {
+    expect(parseCsv(" phone , name\n+15550001, Ada \n+15550002,Grace")).toEqual({
+      headers: ["phone", "name"],
+      rows: [
+        { phone: "+15550001", name: "Ada" },
+        { phone: "+15550002", name: "Grace" },
+      ],
+    });
+  });
+
+  it("keeps commas, quotes and line breaks inside quoted fields", () => {
+    const { rows } = parseCsv('phone,note\r\n+15550001,"Hi, ""Ada""\nsee you"\r\n');
+    expect(rows).toEqual([{ phone: "+15550001", note: 'Hi, "Ada"\nsee you' }]);
+  });
+
+  it("skips a byte order mark and blank lines and fills missing fields", () => {
+    expect(parseCsv("﻿phone,name\n\n+15550001\n,\n")).toEqual({
+      headers: ["phone", "name"],
+      rows: [{ phone: "+15550001", name: "" }],
+    });
+  });
+
+  it("returns nothing for an empty file", () => {
+    expect(parseCsv("")).toEqual({ headers: [], rows: [] });
+  });
+});
+
+describe("stringifyCsv", () => {
+  it("quotes only fields that need it", () => {
+    expect(
+      stringifyCsv([
+        ["phone", "note", "count"],
+        ["+15550001", 'Hi, "Ada"', 2],
+      ]),
+    ).toBe('phone,note,count\r\n+15550001,"Hi, ""Ada""",2');
+  });
+
+  it("round-trips through parseCsv", () => {
+    const text = stringifyCsv([
+      ["phone", "note"],
+      ["+15550001", "line one\nline two"],
+    ]);
+    expect(parseCsv(text).rows).toEqual([{ phone: "+15550001", note: "line one\nline two" }]);
+  });
+});
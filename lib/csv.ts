@@ -0,0 +1,75 @@
+// Minimal RFC 4180 CSV parsing for recipient imports and serialization for exports
+
+export interface ParsedCsv {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+// Splits CSV text into records, honouring quoted fields with embedded commas, quotes and newlines
+const parseRecords = (text: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Drop blank lines
+  return records.filter((r) => r.some((value) => value.trim() !== ""));
+};
+
+export const parseCsv = (text: string): ParsedCsv => {
+  // Excel prefixes UTF-8 exports with a byte order mark
+  const [headerRecord, ...records] = parseRecords(text.replace(/^\uFEFF/, ""));
+  if (!headerRecord) return { headers: [], rows: [] };
+
+  const headers = headerRecord.map((header) => header.trim());
+  const rows = records.map((record) =>
+    Object.fromEntries(headers.map((header, index) => [header, (record[index] || "").trim()])),
+  );
+
+  return { headers, rows };
+};
+
+// Quotes fields containing separators, quotes or line breaks
+const escapeField = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const stringifyCsv = (records: (string | number)[][]): string =>
+  records.map((record) => record.map(escapeField).join(",")).join("\r\n");
@@ -0,0 +1,28 @@
+// One-time links we email (password reset, email verification) and why one stopped working
+import { getErrorCode } from "./api/hooks";
+import { ErrorCode } from "./api/types";
+
+export type LinkProblem = "missing" | "expired" | "used" | "invalid";
+
+// The API answers stale links with TOKEN_EXPIRED and consumed ones with RESOURCE_CONFLICT
+export const getLinkProblem = (error: unknown): LinkProblem => {
+  switch (getErrorCode(error)) {
+    case ErrorCode.TOKEN_EXPIRED:
+      return "expired";
+    case ErrorCode.RESOURCE_CONFLICT:
+      return "used";
+    default:
+      return "invalid";
+  }
+};
+
+// Errors that mean the link itself is unusable, anything else is worth retrying
+export const isLinkError = (error: unknown) => {
+  const code = getErrorCode(error);
+  return (
+    code === ErrorCode.TOKEN_EXPIRED ||
+    code === ErrorCode.RESOURCE_CONFLICT ||
+    code === ErrorCode.INVALID_TOKEN ||
+    code === ErrorCode.NOT_FOUND
+  );
+};
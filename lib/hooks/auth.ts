@@ -1,19 +1,85 @@
 // Authentication hooks using cookies-next
 "use client";
 
-import { useEffect, useRef } from "react";
+import { useCallback, useEffect, useRef } from "react";
+import { useRouter } from "next/navigation";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useStore } from "jotai";
+import { toast } from "sonner";
 import { useAuthStore } from "../stores/auth";
-import { isTokenExpiredOrExpiringSoon, getAuthToken, isRefreshTokenValid } from "../cookies";
+import { useCampaignStore } from "../stores/campaigns";
+import { getOrganizationId, hasValidSession } from "../cookies";
 import { apiClient } from "../api/client";
+import { realtimeClient } from "../api/realtime";
+import { queryKeys, useCurrentUser } from "../api/hooks";
+import { resetSessionAtoms } from "../atoms";
+import type { AuthResponse } from "../api/types";
+import { authChannel } from "../auth-channel";
+import { getSafeRedirect, REDIRECT_PARAM } from "../redirects";
+
+// Pages a sign-in in another tab moves on from
+const SIGN_IN_PAGES = ["/auth/login", "/auth/register"];
 
 /**
- * Hook to initialize auth state from cookies on app startup
+ * Hook to initialize auth state from cookies on app startup and keep it in step with the other tabs
  */
 export const useAuthInitializer = () => {
   const checkAuth = useAuthStore((state) => state.checkAuth);
   const clearAuth = useAuthStore((state) => state.clearAuth);
+  const clearSession = useClearSession();
+  const reloadSession = useReloadSession();
+  const enterOrganization = useEnterOrganization();
+  const router = useRouter();
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
 
+  // The API client gave up on the session, e.g. it was signed out from another device
+  useEffect(
+    () =>
+      apiClient.onSessionEnded((reason) => {
+        clearSession();
+        if (reason === "revoked") {
+          toast.error("You were signed out", { description: "This session was signed out from another device." });
+        } else {
+          toast.error("Session expired", { description: "Please sign in again." });
+        }
+      }),
+    [clearSession],
+  );
+
+  // The session cookies are shared, so the other tabs only need to hear that they changed
+  useEffect(() => apiClient.onSessionRefreshed(() => authChannel.post({ type: "session-refreshed" })), []);
+
+  // Follow sign-ins, sign-outs and organization switches from the other tabs
+  useEffect(
+    () =>
+      authChannel.subscribe((event) => {
+        switch (event.type) {
+          case "logout":
+            // The other tab already ended the session, so don't announce it again
+            clearSession({ broadcast: false });
+            break;
+          case "login": {
+            const { pathname, search } = window.location;
+            if (SIGN_IN_PAGES.includes(pathname)) {
+              router.replace(getSafeRedirect(new URLSearchParams(search).get(REDIRECT_PARAM)));
+            } else if (useAuthStore.getState().user?.id !== event.userId) {
+              reloadSession();
+            }
+            break;
+          }
+          case "organization-switched":
+            if (useAuthStore.getState().organizationId !== event.organizationId) {
+              enterOrganization(event.organizationId);
+            }
+            break;
+          case "session-refreshed":
+            checkAuth();
+            break;
+        }
+      }),
+    [clearSession, reloadSession, enterOrganization, router, checkAuth],
+  );
+
   useEffect(() => {
     // Check authentication status on mount
     checkAuth();
@@ -21,17 +87,12 @@ export const useAuthInitializer = () => {
     // Set up periodic token validation (every 5 minutes)
     const validateTokens = async () => {
       try {
-        const currentToken = getAuthToken();
-        console.log("Proactively refreshing token...");
-
-        // If access token is expired or expiring soon, and we have a valid refresh token
-        if (isTokenExpiredOrExpiringSoon(currentToken) && isRefreshTokenValid()) {
-          console.log("Proactively refreshing token...");
-          // The API client will handle the refresh automatically on next request
-          // We can trigger a lightweight request to force refresh
+        if (hasValidSession()) {
+          // The tokens are httpOnly, so let the BFF decide: it refreshes the access token on any request
+          // when it's expiring, which keeps the cookie the middleware checks alive
           await apiClient.health();
-        } else if (!isRefreshTokenValid()) {
-          console.log("Refresh token invalid, logging out...");
+        } else {
+          console.log("Session expired, logging out...");
           clearAuth();
         }
       } catch (error) {
@@ -49,3 +110,157 @@ export const useAuthInitializer = () => {
     };
   }, [checkAuth, clearAuth]);
 };
+
+/**
+ * Hook to get the signed-in user and organization, loading them from the API after a page reload
+ */
+export const useSessionUser = () => {
+  const user = useAuthStore((state) => state.user);
+  const organization = useAuthStore((state) => state.organization);
+  const setAuth = useAuthStore((state) => state.setAuth);
+
+  // The store only lives in memory, refill it from the session cookies' account
+  const { data, isLoading } = useCurrentUser({ enabled: !user });
+
+  useEffect(() => {
+    if (!user && data?.data) {
+      setAuth(data.data.user, data.data.organization);
+    }
+  }, [user, data, setAuth]);
+
+  return { user, organization, isLoading: !user && isLoading };
+};
+
+// Campaigns hold the recipients' phone numbers and variables, the next account on this browser mustn't see them
+const clearCampaigns = () => {
+  useCampaignStore.getState().clearCampaigns();
+  useCampaignStore.persist.clearStorage();
+};
+
+/**
+ * Hook to clear everything cached for the signed-in account locally and return to the login page.
+ * The other tabs follow unless `broadcast` is false
+ */
+export const useClearSession = () => {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const jotaiStore = useStore();
+  const clearAuth = useAuthStore((state) => state.clearAuth);
+
+  return useCallback(
+    ({ broadcast = true }: { broadcast?: boolean } = {}) => {
+      realtimeClient.disconnect();
+      clearAuth();
+      queryClient.clear();
+      resetSessionAtoms(jotaiStore);
+      clearCampaigns();
+      if (broadcast) authChannel.post({ type: "logout" });
+      router.push("/auth/login");
+    },
+    [router, queryClient, jotaiStore, clearAuth],
+  );
+};
+
+/**
+ * Hook to load the account from scratch on the current page, after another user signed in in this browser
+ */
+export const useReloadSession = () => {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const jotaiStore = useStore();
+  const clearAuth = useAuthStore((state) => state.clearAuth);
+  const setOrganizationId = useAuthStore((state) => state.setOrganizationId);
+
+  return useCallback(() => {
+    const organizationId = getOrganizationId();
+
+    // useSessionUser refills the store once the current user is refetched
+    clearAuth();
+    resetSessionAtoms(jotaiStore);
+    clearCampaigns();
+
+    if (organizationId !== useAuthStore.getState().organizationId) {
+      // OrganizationScope remounts the pages, which fetch again under the new organization's keys
+      queryClient.clear();
+      setOrganizationId(organizationId);
+    } else {
+      void queryClient.resetQueries();
+      realtimeClient.reconnect();
+    }
+
+    // Server components read the session claims too
+    router.refresh();
+  }, [router, queryClient, jotaiStore, clearAuth, setOrganizationId]);
+};
+
+/**
+ * Hook to move the app into another organization once the session cookies are scoped to it. OrganizationScope
+ * remounts the pages under the new organization's query keys, where an earlier visit's cache shows until refetched
+ */
+const useEnterOrganization = () => {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const jotaiStore = useStore();
+  const setAuth = useAuthStore((state) => state.setAuth);
+  const clearAuth = useAuthStore((state) => state.clearAuth);
+  const setOrganizationId = useAuthStore((state) => state.setOrganizationId);
+
+  return useCallback(
+    (organizationId: string, session?: NonNullable<AuthResponse["data"]>) => {
+      resetSessionAtoms(jotaiStore);
+      queryClient.invalidateQueries({ queryKey: queryKeys.organization(organizationId) });
+
+      if (session) {
+        setAuth(session.user, session.organization);
+      } else {
+        // The user's role differs per organization, useSessionUser loads it again
+        clearAuth();
+        setOrganizationId(organizationId);
+      }
+
+      router.refresh();
+    },
+    [router, queryClient, jotaiStore, setAuth, clearAuth, setOrganizationId],
+  );
+};
+
+/**
+ * Hook to switch the session to another of the user's organizations, the other tabs follow
+ */
+export const useSwitchOrganization = () => {
+  const enterOrganization = useEnterOrganization();
+
+  return useMutation({
+    mutationFn: async (organizationId: string) => await apiClient.switchOrganization({ organizationId }),
+    onSuccess: (response) => {
+      if (!response.data) return;
+      enterOrganization(response.data.organization.id, response.data);
+      authChannel.post({ type: "organization-switched", organizationId: response.data.organization.id });
+    },
+  });
+};
+
+/**
+ * Hook to log out: revokes the session server-side, then clears everything cached for this account
+ */
+export const useLogout = () => {
+  const clearSession = useClearSession();
+
+  return useMutation({
+    mutationFn: async () => {
+      try {
+        await apiClient.logout();
+      } catch (error) {
+        // The tokens are dropped locally regardless, an unrevoked refresh token just expires
+        console.error("Logout revoke failed:", error);
+      }
+    },
+    onSettled: () => clearSession(),
+  });
+};
+
+/**
+ * Hook to check whether the signed-in user has verified their email, risky actions stay disabled until they have.
+ * Reports verified while the user is still loading, the API rejects these actions for unverified accounts anyway
+ */
+export const useEmailVerified = (): boolean => useAuthStore((state) => state.user?.isEmailVerified ?? true);
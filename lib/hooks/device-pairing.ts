@@ -0,0 +1,200 @@
+// Device pairing state machine: create -> scan the QR code -> connecting -> online
+"use client";
+
+import { useCallback, useEffect, useReducer, useRef, useState } from "react";
+import { useConnectDevice, useCreateDevice, useDevice, useDeviceQR, getErrorMessage } from "../api/hooks";
+import type { DeviceStatus } from "../api/types";
+
+// Used when the server doesn't say when a QR code expires
+const QR_TTL_MS = 60 * 1000;
+// Expired codes are refreshed automatically this many times before giving up
+const MAX_QR_REFRESHES = 4;
+const CONNECT_TIMEOUT_MS = 90 * 1000;
+
+export type PairingState =
+  | { step: "idle" }
+  | { step: "creating" }
+  | { step: "awaiting_scan"; deviceId: string; qrCode?: string; expiresAt: number; refreshes: number }
+  | { step: "connecting"; deviceId: string }
+  | { step: "online"; deviceId: string; phoneNumber?: string }
+  | { step: "expired"; deviceId: string }
+  | { step: "failed"; deviceId?: string; error: string };
+
+export type PairingAction =
+  | { type: "CREATE_STARTED" }
+  | { type: "PAIRING_STARTED"; deviceId: string }
+  | { type: "QR_RECEIVED"; qrCode: string; expiresAt: number }
+  | { type: "QR_REFRESH_REQUESTED"; expiresAt: number }
+  | { type: "QR_EXPIRED" }
+  | { type: "SCANNED" }
+  | { type: "CONNECTED"; phoneNumber?: string }
+  | { type: "FAILED"; error: string }
+  | { type: "RESET" };
+
+const parseExpiresAt = (expiresAt?: string) => {
+  const time = expiresAt ? new Date(expiresAt).getTime() : NaN;
+  return Number.isNaN(time) ? Date.now() + QR_TTL_MS : time;
+};
+
+// Events that don't apply to the current step are ignored, so late responses can't move the wizard backwards
+export const pairingReducer = (state: PairingState, action: PairingAction): PairingState => {
+  switch (action.type) {
+    case "RESET":
+      return { step: "idle" };
+    case "CREATE_STARTED":
+      return state.step === "idle" ? { step: "creating" } : state;
+    case "PAIRING_STARTED":
+      return {
+        step: "awaiting_scan",
+        deviceId: action.deviceId,
+        expiresAt: Date.now() + QR_TTL_MS,
+        refreshes: 0,
+      };
+    case "QR_RECEIVED":
+      return state.step === "awaiting_scan" ? { ...state, qrCode: action.qrCode, expiresAt: action.expiresAt } : state;
+    case "QR_REFRESH_REQUESTED":
+      return state.step === "awaiting_scan"
+        ? { ...state, expiresAt: action.expiresAt, refreshes: state.refreshes + 1 }
+        : state;
+    case "QR_EXPIRED":
+      return state.step === "awaiting_scan" ? { step: "expired", deviceId: state.deviceId } : state;
+    case "SCANNED":
+      return state.step === "awaiting_scan" ? { step: "connecting", deviceId: state.deviceId } : state;
+    case "CONNECTED":
+      return state.step === "awaiting_scan" || state.step === "connecting"
+        ? { step: "online", deviceId: state.deviceId, phoneNumber: action.phoneNumber }
+        : state;
+    case "FAILED":
+      if (state.step === "idle" || state.step === "online") return state;
+      return { step: "failed", deviceId: "deviceId" in state ? state.deviceId : undefined, error: action.error };
+  }
+};
+
+/**
+ * Hook to drive the QR pairing flow for a new or existing device
+ */
+export const useDevicePairing = () => {
+  const [state, dispatch] = useReducer(pairingReducer, { step: "idle" });
+  const [now, setNow] = useState(() => Date.now());
+  const sessionRef = useRef(0); // Bumped on reset so in-flight requests from an abandoned attempt are dropped
+  const lastStatusRef = useRef<DeviceStatus | null>(null);
+
+  const { mutateAsync: createDevice } = useCreateDevice();
+  const { mutateAsync: connectDevice } = useConnectDevice();
+
+  const deviceId = "deviceId" in state ? state.deviceId || "" : "";
+  const isAwaitingScan = state.step === "awaiting_scan";
+  const isWaiting = isAwaitingScan || state.step === "connecting";
+
+  // Polling stops as soon as the device is online or the attempt is abandoned
+  const { data: deviceData } = useDevice(isWaiting ? deviceId : "", { poll: isWaiting });
+  const { data: qrData, refetch: refetchQR } = useDeviceQR(isAwaitingScan ? deviceId : "");
+
+  const pair = useCallback(
+    async (id: string) => {
+      const session = ++sessionRef.current;
+      lastStatusRef.current = null;
+      dispatch({ type: "PAIRING_STARTED", deviceId: id });
+
+      try {
+        const response = await connectDevice(id);
+        if (session !== sessionRef.current) return;
+        if (response.data?.qrCode) {
+          dispatch({
+            type: "QR_RECEIVED",
+            qrCode: response.data.qrCode,
+            expiresAt: parseExpiresAt(response.data.expiresAt),
+          });
+        }
+      } catch (error) {
+        if (session === sessionRef.current) dispatch({ type: "FAILED", error: getErrorMessage(error) });
+      }
+    },
+    [connectDevice],
+  );
+
+  const createAndPair = useCallback(
+    async (name: string) => {
+      const session = ++sessionRef.current;
+      dispatch({ type: "CREATE_STARTED" });
+
+      try {
+        const response = await createDevice({ name });
+        if (session !== sessionRef.current) return;
+        const id = response.data?.device.id;
+        if (!id) throw new Error("The device was created without an id");
+        await pair(id);
+      } catch (error) {
+        if (session === sessionRef.current) dispatch({ type: "FAILED", error: getErrorMessage(error) });
+      }
+    },
+    [createDevice, pair],
+  );
+
+  const reset = useCallback(() => {
+    sessionRef.current++;
+    dispatch({ type: "RESET" });
+  }, []);
+
+  // New QR codes arrive from polling or the realtime channel
+  const qrCode = qrData?.data?.qrCode;
+  const qrExpiresAt = qrData?.data?.expiresAt;
+  useEffect(() => {
+    if (isAwaitingScan && qrCode) dispatch({ type: "QR_RECEIVED", qrCode, expiresAt: parseExpiresAt(qrExpiresAt) });
+  }, [isAwaitingScan, qrCode, qrExpiresAt]);
+
+  // A switch into "connecting" while the code is showing means it was scanned
+  const deviceStatus = deviceData?.data?.device.status;
+  const phoneNumber = deviceData?.data?.device.phoneNumber;
+  useEffect(() => {
+    if (!deviceStatus) return;
+    const previous = lastStatusRef.current;
+    lastStatusRef.current = deviceStatus;
+
+    if (deviceStatus === "online") {
+      dispatch({ type: "CONNECTED", phoneNumber });
+    } else if (deviceStatus === "connecting" && previous && previous !== "connecting") {
+      dispatch({ type: "SCANNED" });
+    }
+  }, [deviceStatus, phoneNumber]);
+
+  // Countdown tick while a code is showing
+  useEffect(() => {
+    if (state.step !== "awaiting_scan") return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [state.step]);
+
+  const expiresAt = state.step === "awaiting_scan" ? state.expiresAt : 0;
+  const refreshes = state.step === "awaiting_scan" ? state.refreshes : 0;
+  const isExpired = state.step === "awaiting_scan" && now >= expiresAt;
+  useEffect(() => {
+    if (!isExpired) return;
+    if (refreshes >= MAX_QR_REFRESHES) {
+      dispatch({ type: "QR_EXPIRED" });
+      return;
+    }
+    dispatch({ type: "QR_REFRESH_REQUESTED", expiresAt: Date.now() + QR_TTL_MS });
+    void refetchQR();
+  }, [isExpired, refreshes, refetchQR]);
+
+  // Give up if the phone never finishes linking after the scan
+  useEffect(() => {
+    if (state.step !== "connecting") return;
+    const timeout = setTimeout(
+      () => dispatch({ type: "FAILED", error: "The device did not finish connecting. Please try again." }),
+      CONNECT_TIMEOUT_MS,
+    );
+    return () => clearTimeout(timeout);
+  }, [state.step]);
+
+  return {
+    state,
+    secondsLeft: state.step === "awaiting_scan" ? Math.max(0, Math.ceil((expiresAt - now) / 1000)) : 0,
+    qrTtlSeconds: QR_TTL_MS / 1000,
+    createAndPair,
+    pair,
+    reset,
+  };
+};
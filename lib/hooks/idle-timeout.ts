@@ -0,0 +1,109 @@
+// Idle timeout hooks: signs the session out after a stretch without input in any of the open tabs
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { authChannel } from "../auth-channel";
+
+const DEFAULT_IDLE_TIMEOUT_MINUTES = 30;
+const idleTimeoutMinutes = Number(process.env.NEXT_PUBLIC_IDLE_TIMEOUT_MINUTES ?? DEFAULT_IDLE_TIMEOUT_MINUTES);
+
+// NEXT_PUBLIC_IDLE_TIMEOUT_MINUTES sets the timeout, 0 turns it off
+export const IDLE_TIMEOUT_MS =
+  Number.isFinite(idleTimeoutMinutes) && idleTimeoutMinutes > 0 ? idleTimeoutMinutes * 60 * 1000 : 0;
+// How long the "you'll be signed out" countdown runs before the timeout
+export const IDLE_WARNING_MS = Math.min(60 * 1000, IDLE_TIMEOUT_MS / 2);
+
+const ACTIVITY_EVENTS = ["pointerdown", "pointermove", "keydown", "wheel", "touchstart", "scroll"] as const;
+// Input is shared with the other tabs at most this often, they only need it well before their warning
+const ACTIVITY_BROADCAST_INTERVAL_MS = 15 * 1000;
+const TICK_MS = 1000;
+
+/**
+ * Hook to track user input across tabs and call `onTimeout` once the session has been idle for IDLE_TIMEOUT_MS.
+ * `remainingMs` is set while the warning countdown runs, only `stayActive` ends it so a stray mouse move can't.
+ * While `isSuspended` is set the tab counts as active, e.g. when it's sending a campaign nobody watches
+ */
+export const useIdleTimeout = (onTimeout: () => void, isSuspended = false) => {
+  const [remainingMs, setRemainingMs] = useState<number | null>(null);
+  const lastActivityRef = useRef(Date.now());
+  const lastBroadcastRef = useRef(0);
+  const isWarningRef = useRef(false);
+  const hasTimedOutRef = useRef(false);
+  const onTimeoutRef = useRef(onTimeout);
+  const isSuspendedRef = useRef(isSuspended);
+
+  useEffect(() => {
+    onTimeoutRef.current = onTimeout;
+  }, [onTimeout]);
+
+  useEffect(() => {
+    isSuspendedRef.current = isSuspended;
+  }, [isSuspended]);
+
+  const recordActivity = useCallback((at: number, broadcast: boolean) => {
+    lastActivityRef.current = Math.max(lastActivityRef.current, at);
+    if (broadcast) {
+      lastBroadcastRef.current = at;
+      authChannel.post({ type: "activity", at });
+    }
+  }, []);
+
+  const stayActive = useCallback(() => {
+    isWarningRef.current = false;
+    setRemainingMs(null);
+    recordActivity(Date.now(), true);
+  }, [recordActivity]);
+
+  useEffect(() => {
+    if (!IDLE_TIMEOUT_MS) return;
+
+    const handleActivity = () => {
+      if (isWarningRef.current) return;
+      const now = Date.now();
+      recordActivity(now, now - lastBroadcastRef.current >= ACTIVITY_BROADCAST_INTERVAL_MS);
+    };
+
+    // Also ends the countdown here when the user chose to stay signed in from another tab
+    const unsubscribe = authChannel.subscribe((event) => {
+      if (event.type === "activity") recordActivity(event.at, false);
+    });
+
+    const tick = () => {
+      // Suspended tabs keep the other tabs signed in too
+      if (isSuspendedRef.current) {
+        const now = Date.now();
+        recordActivity(now, now - lastBroadcastRef.current >= ACTIVITY_BROADCAST_INTERVAL_MS);
+        isWarningRef.current = false;
+        setRemainingMs(null);
+        return;
+      }
+
+      const remaining = lastActivityRef.current + IDLE_TIMEOUT_MS - Date.now();
+
+      if (remaining <= 0) {
+        if (!hasTimedOutRef.current) {
+          hasTimedOutRef.current = true;
+          onTimeoutRef.current();
+        }
+        return;
+      }
+
+      isWarningRef.current = remaining <= IDLE_WARNING_MS;
+      setRemainingMs(isWarningRef.current ? remaining : null);
+    };
+
+    ACTIVITY_EVENTS.forEach((type) => window.addEventListener(type, handleActivity, { passive: true }));
+    // Background tabs throttle timers, so check as soon as the tab is shown again
+    document.addEventListener("visibilitychange", tick);
+    const interval = setInterval(tick, TICK_MS);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((type) => window.removeEventListener(type, handleActivity));
+      document.removeEventListener("visibilitychange", tick);
+      clearInterval(interval);
+      unsubscribe();
+    };
+  }, [recordActivity]);
+
+  return { remainingMs, stayActive };
+};
@@ -0,0 +1,17 @@
+// Permission checks for the signed-in member's role
+"use client";
+
+import { useAuthStore } from "../stores/auth";
+import { hasPermission, type Permission } from "../permissions";
+import type { TeamRole } from "../api/types";
+
+/**
+ * Hook to get the current member's role from the session user.
+ * The access token is httpOnly, so there's no role until the user is loaded, see useSessionUser
+ */
+export const useRole = (): TeamRole | null => useAuthStore((state) => state.user?.role ?? null);
+
+/**
+ * Hook to check whether the current member has a permission
+ */
+export const usePermission = (permission: Permission): boolean => hasPermission(useRole(), permission);
@@ -0,0 +1,118 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { QueryClient } from "@tanstack/react-query";
+import { queryKeys } from "../api/hooks";
+import type { GetMessagesResponse, Message } from "../api/types";
+import { useAuthStore } from "../stores/auth";
+import { applyRealtimeEvent } from "./realtime";
+
+const createMessage = (id: string, overrides: Partial<Message> = {}): Message => ({
+  id,
+  organizationId: "org-1",
+  deviceId: "device-1",
+  messageId: `wa-${id}`,
+  direction: "inbound",
+  fromNumber: "+15550001",
+  toNumber: "+15550002",
+  messageType: "text",
+  content: "Hello",
+  timestamp: "2026-01-01T00:00:00.000Z",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+const messageList = (...messages: Message[]): GetMessagesResponse => ({ success: true, data: { messages } });
+
+const getMessageIds = (queryClient: QueryClient, queryKey: readonly unknown[]) =>
+  queryClient.getQueryData<GetMessagesResponse>(queryKey)?.data?.messages.map((message) => message.id);
+
+describe("applyRealtimeEvent", () => {
+  let queryClient: QueryClient;
+
+  beforeEach(() => {
+    useAuthStore.setState({ organizationId: "org-1" });
+    queryClient = new QueryClient();
+  });
+
+  describe("message.created", () => {
+    const created = (message: Message) =>
+      applyRealtimeEvent(queryClient, { type: "message.created", payload: { message } });
+
+    it("prepends the message to first-page lists whose filters it matches", () => {
+      const all = queryKeys.messages({ page: 1 });
+      const sameDevice = queryKeys.messages({ deviceId: "device-1" });
+      const otherDevice = queryKeys.messages({ deviceId: "device-2" });
+      const outbound = queryKeys.messages({ direction: "outbound" });
+      [all, sameDevice, otherDevice, outbound].forEach((key) =>
+        queryClient.setQueryData(key, messageList(createMessage("old"))),
+      );
+
+      created(createMessage("new"));
+
+      expect(getMessageIds(queryClient, all)).toEqual(["new", "old"]);
+      expect(getMessageIds(queryClient, sameDevice)).toEqual(["new", "old"]);
+      expect(getMessageIds(queryClient, otherDevice)).toEqual(["old"]);
+      expect(getMessageIds(queryClient, outbound)).toEqual(["old"]);
+    });
+
+    it("trims lists to their page size", () => {
+      const key = queryKeys.messages({ limit: 2 });
+      queryClient.setQueryData(key, messageList(createMessage("b"), createMessage("a")));
+
+      created(createMessage("c"));
+
+      expect(getMessageIds(queryClient, key)).toEqual(["c", "b"]);
+    });
+
+    it("doesn't add a message the list already has", () => {
+      const key = queryKeys.messages({});
+      queryClient.setQueryData(key, messageList(createMessage("a")));
+
+      created(createMessage("a"));
+
+      expect(getMessageIds(queryClient, key)).toEqual(["a"]);
+    });
+
+    it("invalidates later pages, searches and date ranges instead of guessing their contents", () => {
+      const keys = [
+        queryKeys.messages({ page: 2 }),
+        queryKeys.messages({ search: "hello" }),
+        queryKeys.messages({ from: "2025-01-01", to: "2025-02-01" }),
+      ];
+      keys.forEach((key) => queryClient.setQueryData(key, messageList(createMessage("old"))));
+
+      created(createMessage("new"));
+
+      keys.forEach((key) => {
+        expect(getMessageIds(queryClient, key)).toEqual(["old"]);
+        expect(queryClient.getQueryState(key)?.isInvalidated).toBe(true);
+      });
+    });
+
+    it("leaves other organizations' lists alone", () => {
+      const otherOrganization = queryKeys.messages({});
+      queryClient.setQueryData(otherOrganization, messageList(createMessage("old")));
+      useAuthStore.setState({ organizationId: "org-2" });
+
+      created(createMessage("new"));
+
+      expect(getMessageIds(queryClient, otherOrganization)).toEqual(["old"]);
+    });
+  });
+
+  it("updates the status of a message in every list", () => {
+    const first = queryKeys.messages({});
+    const filtered = queryKeys.messages({ deviceId: "device-1" });
+    [first, filtered].forEach((key) =>
+      queryClient.setQueryData(key, messageList(createMessage("a", { status: "sent" }))),
+    );
+
+    applyRealtimeEvent(queryClient, {
+      type: "message.status",
+      payload: { messageId: "wa-a", status: "delivered" },
+    });
+
+    [first, filtered].forEach((key) =>
+      expect(queryClient.getQueryData<GetMessagesResponse>(key)?.data?.messages[0].status).toBe("delivered"),
+    );
+  });
+});
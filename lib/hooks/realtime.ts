@@ -0,0 +1,171 @@
+// Realtime hooks bridging the WebSocket channel into the React Query cache
+"use client";
+
+import { useEffect, useState } from "react";
+import { useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { realtimeClient } from "../api/realtime";
+import { queryKeys } from "../api/hooks";
+import type {
+  ApiResponse,
+  DeviceQRResponse,
+  DeviceResponse,
+  DevicesResponse,
+  GetMessagesResponse,
+  Message,
+  RealtimeConnectionState,
+  RealtimeEvent,
+  WhatsAppDevice,
+} from "../api/types";
+
+type MessagesParams =
+  | {
+      page?: number;
+      limit?: number;
+      deviceId?: string;
+      direction?: string;
+      search?: string;
+      from?: string;
+      to?: string;
+    }
+  | undefined;
+
+const applyDeviceStatus = (
+  queryClient: QueryClient,
+  payload: Extract<RealtimeEvent, { type: "device.status" }>["payload"],
+) => {
+  const patch = (device: WhatsAppDevice): WhatsAppDevice =>
+    device.id === payload.deviceId
+      ? {
+          ...device,
+          status: payload.status,
+          phoneNumber: payload.phoneNumber ?? device.phoneNumber,
+          lastSeen: payload.lastSeen ?? device.lastSeen,
+        }
+      : device;
+
+  // ["devices", ...] holds both paginated lists and single devices, patch whichever shape we find
+  queryClient.setQueriesData<ApiResponse>({ queryKey: queryKeys.devices }, (old) => {
+    if (!old?.data) return old;
+    if (Array.isArray(old.data.devices)) {
+      const list = old as DevicesResponse;
+      return { ...list, data: { ...list.data, devices: list.data!.devices.map(patch) } };
+    }
+    if (old.data.device) {
+      const single = old as DeviceResponse;
+      return { ...single, data: { ...single.data, device: patch(single.data!.device) } };
+    }
+    return old;
+  });
+};
+
+const applyMessageStatus = (
+  queryClient: QueryClient,
+  payload: Extract<RealtimeEvent, { type: "message.status" }>["payload"],
+) => {
+  queryClient.setQueriesData<GetMessagesResponse>({ queryKey: queryKeys.allMessages }, (old) => {
+    if (!old?.data?.messages) return old;
+    return {
+      ...old,
+      data: {
+        ...old.data,
+        messages: old.data.messages.map((message) =>
+          message.id === payload.messageId || message.messageId === payload.messageId
+            ? {
+                ...message,
+                status: payload.status,
+                errorMessage: payload.errorMessage ?? message.errorMessage,
+                updatedAt: payload.updatedAt ?? message.updatedAt,
+              }
+            : message,
+        ),
+      },
+    };
+  });
+};
+
+// Prepend to first-page lists the message belongs to, trimmed to their page size. Anything we can't place,
+// like later pages, searches and date ranges, is refetched instead
+const applyNewMessage = (queryClient: QueryClient, message: Message) => {
+  queryClient
+    .getQueryCache()
+    .findAll({ queryKey: queryKeys.allMessages })
+    .forEach((query) => {
+      // The params follow the org-scoped prefix, see queryKeys.messages
+      const params = query.queryKey[query.queryKey.length - 1] as MessagesParams;
+      const matchesFilters =
+        (!params?.deviceId || params.deviceId === message.deviceId) &&
+        (!params?.direction || params.direction === message.direction);
+
+      if (!matchesFilters) return;
+
+      if ((params?.page ?? 1) > 1 || params?.search || params?.from || params?.to) {
+        queryClient.invalidateQueries({ queryKey: query.queryKey, exact: true });
+        return;
+      }
+
+      queryClient.setQueryData<GetMessagesResponse>(query.queryKey, (old) => {
+        if (!old?.data?.messages || old.data.messages.some((existing) => existing.id === message.id)) return old;
+        const messages = [message, ...old.data.messages];
+        return { ...old, data: { ...old.data, messages: params?.limit ? messages.slice(0, params.limit) : messages } };
+      });
+    });
+};
+
+export const applyRealtimeEvent = (queryClient: QueryClient, event: RealtimeEvent) => {
+  switch (event.type) {
+    case "device.status":
+      applyDeviceStatus(queryClient, event.payload);
+      queryClient.invalidateQueries({ queryKey: queryKeys.allDeviceStatusHistory(event.payload.deviceId) });
+      break;
+    case "device.qr":
+      queryClient.setQueryData<DeviceQRResponse>(queryKeys.deviceQR(event.payload.deviceId), {
+        success: true,
+        data: { qrCode: event.payload.qrCode, expiresAt: event.payload.expiresAt },
+      });
+      break;
+    case "message.status":
+      applyMessageStatus(queryClient, event.payload);
+      break;
+    case "message.created":
+      applyNewMessage(queryClient, event.payload.message);
+      break;
+  }
+};
+
+/**
+ * Hook to keep the realtime channel connected while mounted and feed its events into the query cache
+ */
+export const useRealtimeSync = () => {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const unsubscribe = realtimeClient.subscribe((event) => applyRealtimeEvent(queryClient, event));
+
+    // Anything pushed while we were offline is lost, so refetch what the channel normally keeps fresh
+    const unsubscribeState = realtimeClient.onStateChange((state) => {
+      if (state === "open") {
+        queryClient.invalidateQueries({ queryKey: queryKeys.devices });
+        queryClient.invalidateQueries({ queryKey: queryKeys.allMessages });
+      }
+    });
+
+    realtimeClient.connect();
+
+    return () => {
+      unsubscribe();
+      unsubscribeState();
+      realtimeClient.disconnect();
+    };
+  }, [queryClient]);
+};
+
+/**
+ * Hook to read the realtime connection state, e.g. to show a live indicator
+ */
+export const useRealtimeState = (): RealtimeConnectionState => {
+  const [state, setState] = useState<RealtimeConnectionState>(realtimeClient.getState());
+
+  useEffect(() => realtimeClient.onStateChange(setState), []);
+
+  return state;
+};
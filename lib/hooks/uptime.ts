@@ -0,0 +1,61 @@
+// Per-device and fleet uptime derived from status change history
+"use client";
+
+import { useDevicesStatusHistory } from "../api/hooks";
+import type { WhatsAppDevice } from "../api/types";
+import {
+  getAvailabilityBuckets,
+  getStatusSpans,
+  getUptimePercent,
+  measureUptime,
+  UPTIME_HISTORY_LIMIT,
+  UPTIME_WINDOWS,
+  type AvailabilityBucket,
+  type UptimeTotals,
+  type UptimeWindow,
+} from "../uptime";
+
+export interface DeviceUptime {
+  uptime: number | null;
+  totals: UptimeTotals;
+  buckets: AvailabilityBucket[];
+}
+
+/**
+ * Hook to compute uptime over a window for each device and for the fleet as a whole
+ */
+export const useDevicesUptime = (devices: WhatsAppDevice[], window: UptimeWindow) => {
+  // Every window reads the same history so switching between them doesn't refetch
+  const results = useDevicesStatusHistory(
+    devices.map((device) => device.id),
+    { limit: UPTIME_HISTORY_LIMIT },
+  );
+
+  const now = Date.now();
+  const from = now - UPTIME_WINDOWS[window].durationMs;
+  const byDevice: Record<string, DeviceUptime> = {};
+  const fleetTotals: UptimeTotals = { onlineMs: 0, trackedMs: 0 };
+
+  devices.forEach((device, index) => {
+    const events = results[index]?.data?.data?.events;
+    if (!events) return;
+
+    const spans = getStatusSpans(device, events, events.length < UPTIME_HISTORY_LIMIT, now);
+    const totals = measureUptime(spans, from, now);
+    fleetTotals.onlineMs += totals.onlineMs;
+    fleetTotals.trackedMs += totals.trackedMs;
+
+    byDevice[device.id] = {
+      uptime: getUptimePercent(totals),
+      totals,
+      buckets: getAvailabilityBuckets(spans, window, now),
+    };
+  });
+
+  return {
+    byDevice,
+    // Weighted by tracked time, so devices added mid-window count for the time they existed
+    fleetUptime: getUptimePercent(fleetTotals),
+    isLoading: results.some((result) => result.isLoading),
+  };
+};
@@ -0,0 +1,83 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import type { JWTPayload } from "./jwt";
+
+const SECRET = "test-secret";
+const encoder = new TextEncoder();
+
+const base64Url = (bytes: Uint8Array | string) =>
+  Buffer.from(typeof bytes === "string" ? encoder.encode(bytes) : bytes).toString("base64url");
+
+const sign = async (payload: object, { secret = SECRET, header = { alg: "HS256", typ: "JWT" } } = {}) => {
+  const unsigned = `${base64Url(JSON.stringify(header))}.${base64Url(JSON.stringify(payload))}`;
+  const key = await crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, [
+    "sign",
+  ]);
+  const signature = new Uint8Array(await crypto.subtle.sign("HMAC", key, encoder.encode(unsigned)));
+  return `${unsigned}.${base64Url(signature)}`;
+};
+
+const now = () => Math.floor(Date.now() / 1000);
+const claims = (overrides: Partial<JWTPayload> = {}) => ({
+  sub: "user-1",
+  iss: "api",
+  aud: "frontend",
+  exp: now() + 60,
+  ...overrides,
+});
+
+describe("verifyJWT", () => {
+  let verifyJWT: (token: string) => Promise<JWTPayload | null>;
+
+  // The settings are read when the module loads
+  beforeAll(async () => {
+    vi.stubEnv("JWT_SECRET", SECRET);
+    vi.stubEnv("JWT_ISSUER", "api");
+    vi.stubEnv("JWT_AUDIENCE", "frontend");
+    vi.resetModules();
+    ({ verifyJWT } = await import("./jwt-verify"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("returns the payload of a token signed with the secret", async () => {
+    const payload = claims({ role: "admin" });
+    expect(await verifyJWT(await sign(payload))).toEqual(payload);
+  });
+
+  it("rejects a token signed with another secret", async () => {
+    expect(await verifyJWT(await sign(claims(), { secret: "other-secret" }))).toBeNull();
+  });
+
+  it("rejects a token whose payload was changed after signing", async () => {
+    const [header, , signature] = (await sign(claims())).split(".");
+    const forged = `${header}.${base64Url(JSON.stringify(claims({ role: "owner" })))}.${signature}`;
+    expect(await verifyJWT(forged)).toBeNull();
+  });
+
+  it("rejects unsigned and unknown algorithms", async () => {
+    const unsigned = `${base64Url(JSON.stringify({ alg: "none" }))}.${base64Url(JSON.stringify(claims()))}.`;
+    expect(await verifyJWT(unsigned)).toBeNull();
+    expect(await verifyJWT(await sign(claims(), { header: { alg: "HS1", typ: "JWT" } }))).toBeNull();
+  });
+
+  it("rejects RSA tokens without a key set instead of trying the secret", async () => {
+    expect(await verifyJWT(await sign(claims(), { header: { alg: "RS256", typ: "JWT" } }))).toBeNull();
+  });
+
+  it("rejects expired and not yet valid tokens, allowing for clock drift", async () => {
+    expect(await verifyJWT(await sign(claims({ exp: now() - 60 })))).toBeNull();
+    expect(await verifyJWT(await sign(claims({ exp: now() - 5 })))).not.toBeNull();
+    expect(await verifyJWT(await sign(claims({ nbf: now() + 60 })))).toBeNull();
+    expect(await verifyJWT(await sign(claims({ exp: undefined })))).toBeNull();
+  });
+
+  it("checks the issuer and audience", async () => {
+    expect(await verifyJWT(await sign(claims({ iss: "someone-else" })))).toBeNull();
+    expect(await verifyJWT(await sign(claims({ aud: "another-app" })))).toBeNull();
+    expect(await verifyJWT(await sign(claims({ aud: ["another-app", "frontend"] })))).not.toBeNull();
+  });
+
+  it("rejects malformed tokens", async () => {
+    expect(await verifyJWT("not-a-token")).toBeNull();
+    expect(await verifyJWT("a.b.c")).toBeNull();
+  });
+});
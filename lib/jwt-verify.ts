@@ -0,0 +1,148 @@
+// Edge-compatible JWT verification for the middleware, built on Web Crypto so it needs no Node APIs.
+// Set JWT_SECRET for HMAC-signed tokens or JWT_JWKS_URL for RSA/EC-signed ones, plus the optional
+// JWT_ISSUER and JWT_AUDIENCE to pin the `iss` and `aud` claims
+import { decodeJWTPayload, type JWTPayload } from "./jwt";
+
+const JWT_SECRET = process.env.JWT_SECRET;
+const JWT_JWKS_URL = process.env.JWT_JWKS_URL;
+const JWT_ISSUER = process.env.JWT_ISSUER;
+const JWT_AUDIENCE = process.env.JWT_AUDIENCE;
+
+// Allowed drift between our clock and the API's when checking `exp` and `nbf`
+const CLOCK_TOLERANCE_SECONDS = 30;
+const JWKS_CACHE_MS = 60 * 60 * 1000; // 1 hour
+// A token signed with an unknown `kid` refetches the key set, but not more often than this
+const JWKS_REFETCH_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+
+type JWK = JsonWebKey & { kid?: string };
+
+const ALGORITHMS: Record<
+  string,
+  { importParams: HmacImportParams | RsaHashedImportParams | EcKeyImportParams; verifyParams: Algorithm | EcdsaParams }
+> = {
+  HS256: { importParams: { name: "HMAC", hash: "SHA-256" }, verifyParams: { name: "HMAC" } },
+  HS384: { importParams: { name: "HMAC", hash: "SHA-384" }, verifyParams: { name: "HMAC" } },
+  HS512: { importParams: { name: "HMAC", hash: "SHA-512" }, verifyParams: { name: "HMAC" } },
+  RS256: { importParams: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" }, verifyParams: { name: "RSASSA-PKCS1-v1_5" } },
+  RS384: { importParams: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-384" }, verifyParams: { name: "RSASSA-PKCS1-v1_5" } },
+  RS512: { importParams: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-512" }, verifyParams: { name: "RSASSA-PKCS1-v1_5" } },
+  ES256: { importParams: { name: "ECDSA", namedCurve: "P-256" }, verifyParams: { name: "ECDSA", hash: "SHA-256" } },
+  ES384: { importParams: { name: "ECDSA", namedCurve: "P-384" }, verifyParams: { name: "ECDSA", hash: "SHA-384" } },
+};
+
+const encoder = new TextEncoder();
+let jwksCache: { keys: JWK[]; fetchedAt: number } | null = null;
+let hasWarnedUnverified = false;
+
+export const isJWTVerificationConfigured = () => !!(JWT_SECRET || JWT_JWKS_URL);
+
+const base64UrlToBytes = (value: string): Uint8Array<ArrayBuffer> => {
+  const base64 = value
+    .replace(/-/g, "+")
+    .replace(/_/g, "/")
+    .padEnd(Math.ceil(value.length / 4) * 4, "=");
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const fetchJwks = async (): Promise<JWK[]> => {
+  const response = await fetch(JWT_JWKS_URL!, { cache: "no-store" });
+  if (!response.ok) {
+    throw new Error(`Fetching the JWKS failed with status ${response.status}`);
+  }
+  const body: { keys?: JWK[] } = await response.json();
+  return body.keys || [];
+};
+
+const getJwk = async (kid: string | undefined): Promise<JWK | null> => {
+  const findKey = (keys: JWK[]) => keys.find((key) => !kid || key.kid === kid) ?? null;
+  const age = jwksCache ? Date.now() - jwksCache.fetchedAt : Infinity;
+
+  if (jwksCache && age < JWKS_CACHE_MS) {
+    const key = findKey(jwksCache.keys);
+    if (key || age < JWKS_REFETCH_INTERVAL_MS) return key;
+  }
+
+  jwksCache = { keys: await fetchJwks(), fetchedAt: Date.now() };
+  return findKey(jwksCache.keys);
+};
+
+// HMAC tokens only verify against the shared secret and RSA/EC tokens only against the key set,
+// so a public key can never be used as an HMAC secret
+const getVerificationKey = async (alg: string, kid: string | undefined): Promise<CryptoKey | null> => {
+  const { importParams } = ALGORITHMS[alg];
+
+  if (alg.startsWith("HS")) {
+    if (!JWT_SECRET) return null;
+    return crypto.subtle.importKey("raw", encoder.encode(JWT_SECRET), importParams, false, ["verify"]);
+  }
+
+  if (!JWT_JWKS_URL) return null;
+  const jwk = await getJwk(kid);
+  if (!jwk || (jwk.alg && jwk.alg !== alg)) return null;
+  return crypto.subtle.importKey("jwk", jwk, importParams, false, ["verify"]);
+};
+
+const hasValidClaims = (payload: JWTPayload): boolean => {
+  const currentTime = Math.floor(Date.now() / 1000);
+
+  if (typeof payload.exp !== "number" || payload.exp + CLOCK_TOLERANCE_SECONDS <= currentTime) return false;
+  if (typeof payload.nbf === "number" && payload.nbf - CLOCK_TOLERANCE_SECONDS > currentTime) return false;
+  if (JWT_ISSUER && payload.iss !== JWT_ISSUER) return false;
+  if (JWT_AUDIENCE) {
+    const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+    if (!audiences.includes(JWT_AUDIENCE)) return false;
+  }
+
+  return true;
+};
+
+// Verify a JWT's signature and expiry, null if the token can't be trusted.
+// Without JWT_SECRET or JWT_JWKS_URL tokens are rejected, except in development where they're only decoded.
+// A production server doesn't start without either, see instrumentation.ts
+export const verifyJWT = async (token: string): Promise<JWTPayload | null> => {
+  if (!isJWTVerificationConfigured()) {
+    if (process.env.NODE_ENV !== "development") {
+      console.error("JWT verification is not configured, set JWT_SECRET or JWT_JWKS_URL");
+      return null;
+    }
+    if (!hasWarnedUnverified) {
+      console.warn("JWT verification is not configured, trusting unverified tokens in development");
+      hasWarnedUnverified = true;
+    }
+    const payload = decodeJWTPayload(token);
+    return payload && hasValidClaims(payload) ? payload : null;
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = token.split(".");
+  if (!encodedHeader || !encodedPayload || !encodedSignature) return null;
+
+  try {
+    const header: { alg?: string; kid?: string } = JSON.parse(
+      new TextDecoder().decode(base64UrlToBytes(encodedHeader)),
+    );
+    // Also rejects `none`
+    if (!header.alg || !ALGORITHMS[header.alg]) return null;
+
+    const key = await getVerificationKey(header.alg, header.kid);
+    if (!key) return null;
+
+    const isValid = await crypto.subtle.verify(
+      ALGORITHMS[header.alg].verifyParams,
+      key,
+      base64UrlToBytes(encodedSignature),
+      encoder.encode(`${encodedHeader}.${encodedPayload}`),
+    );
+    if (!isValid) return null;
+
+    const payload = decodeJWTPayload(token);
+    return payload && hasValidClaims(payload) ? payload : null;
+  } catch (error) {
+    console.error("Error verifying JWT:", error);
+    return null;
+  }
+};
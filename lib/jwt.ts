@@ -0,0 +1,37 @@
+// JWT helpers shared by the browser, middleware and the BFF route handlers, none of them verifies signatures
+
+export interface JWTPayload {
+  exp?: number;
+  [claim: string]: unknown;
+}
+
+// Decode a JWT payload without verifying it, null if the token is malformed
+export const decodeJWTPayload = (token: string): JWTPayload | null => {
+  try {
+    const base64Url = token.split(".")[1];
+    const base64 = base64Url.replace(/-/g, "+").replace(/_/g, "/");
+    const jsonPayload = decodeURIComponent(
+      atob(base64)
+        .split("")
+        .map((c) => "%" + ("00" + c.charCodeAt(0).toString(16)).slice(-2))
+        .join(""),
+    );
+    return JSON.parse(jsonPayload);
+  } catch (error) {
+    console.error("Error decoding JWT:", error);
+    return null;
+  }
+};
+
+// Check if token is expired or will expire soon (within 2 minutes)
+export const isTokenExpiredOrExpiringSoon = (token: string | null | undefined): boolean => {
+  if (!token) return true;
+
+  const payload = decodeJWTPayload(token);
+  if (!payload || !payload.exp) return true;
+
+  const currentTime = Math.floor(Date.now() / 1000);
+  const bufferTime = 2 * 60; // 2 minutes buffer
+
+  return payload.exp <= currentTime + bufferTime;
+};
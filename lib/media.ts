@@ -0,0 +1,67 @@
+// Media constraints and helpers for WhatsApp attachments
+import type { MediaType } from "./api/types";
+
+interface MediaConstraint {
+  label: string;
+  maxSizeMB: number;
+  mimeTypes: string[];
+  accept: string;
+}
+
+// Limits follow the WhatsApp Business media requirements
+export const MEDIA_CONSTRAINTS: Record<MediaType, MediaConstraint> = {
+  image: {
+    label: "Image",
+    maxSizeMB: 5,
+    mimeTypes: ["image/jpeg", "image/png", "image/webp"],
+    accept: "image/jpeg,image/png,image/webp",
+  },
+  video: {
+    label: "Video",
+    maxSizeMB: 16,
+    mimeTypes: ["video/mp4", "video/3gpp"],
+    accept: "video/mp4,video/3gpp",
+  },
+  audio: {
+    label: "Audio",
+    maxSizeMB: 16,
+    mimeTypes: ["audio/aac", "audio/mp4", "audio/mpeg", "audio/amr", "audio/ogg"],
+    accept: "audio/aac,audio/mp4,audio/mpeg,audio/amr,audio/ogg",
+  },
+  document: {
+    label: "Document",
+    maxSizeMB: 100,
+    mimeTypes: [
+      "application/pdf",
+      "application/msword",
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+      "application/vnd.ms-excel",
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      "application/vnd.ms-powerpoint",
+      "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+      "text/plain",
+    ],
+    accept: ".pdf,.doc,.docx,.xls,.xlsx,.ppt,.pptx,.txt",
+  },
+};
+
+// Returns an error message when the file can't be sent as the given media type
+export const validateMediaFile = (file: File, type: MediaType): string | null => {
+  const constraint = MEDIA_CONSTRAINTS[type];
+
+  if (!constraint.mimeTypes.includes(file.type)) {
+    return `${constraint.label} must be one of: ${constraint.accept}`;
+  }
+
+  if (file.size > constraint.maxSizeMB * 1024 * 1024) {
+    return `${constraint.label} must be ${constraint.maxSizeMB}MB or smaller`;
+  }
+
+  return null;
+};
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -0,0 +1,35 @@
+// Password rules shared by registration, password reset and password change
+import { z } from "zod";
+
+export const PASSWORD_MIN_LENGTH = 8;
+
+export const PASSWORD_RULES = [
+  { label: `At least ${PASSWORD_MIN_LENGTH} characters`, test: (value: string) => value.length >= PASSWORD_MIN_LENGTH },
+  { label: "An uppercase letter", test: (value: string) => /[A-Z]/.test(value) },
+  { label: "A lowercase letter", test: (value: string) => /[a-z]/.test(value) },
+  { label: "A number", test: (value: string) => /\d/.test(value) },
+];
+
+// Reported once, the strength checklist shows which rules are still missing
+export const passwordSchema = z
+  .string()
+  .min(PASSWORD_MIN_LENGTH, `Password must be at least ${PASSWORD_MIN_LENGTH} characters`)
+  .max(128, "Password must be at most 128 characters")
+  .refine(
+    (value) => PASSWORD_RULES.every((rule) => rule.test(value)),
+    "Password must include uppercase and lowercase letters and a number",
+  );
+
+export type PasswordStrength = "weak" | "fair" | "good" | "strong";
+
+// Symbols and extra length push a password that meets every rule from good to strong
+export const getPasswordStrength = (value: string): { score: number; strength: PasswordStrength } => {
+  const passed = PASSWORD_RULES.filter((rule) => rule.test(value)).length;
+  const bonus = /[^A-Za-z0-9]/.test(value) || value.length >= 14 ? 1 : 0;
+  const score = passed === PASSWORD_RULES.length ? passed + bonus : Math.min(passed, PASSWORD_RULES.length - 1);
+
+  if (score >= 5) return { score, strength: "strong" };
+  if (score === 4) return { score, strength: "good" };
+  if (score === 3) return { score, strength: "fair" };
+  return { score, strength: "weak" };
+};
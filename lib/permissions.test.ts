@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { canAccessRoute, getRoleClaim, hasPermission } from "./permissions";
+
+describe("hasPermission", () => {
+  it("grants each role its own permissions and those of the roles below it", () => {
+    expect(hasPermission("owner", "billing:manage")).toBe(true);
+    expect(hasPermission("admin", "billing:manage")).toBe(false);
+    expect(hasPermission("admin", "team:manage")).toBe(true);
+    expect(hasPermission("agent", "messages:send")).toBe(true);
+    expect(hasPermission("agent", "devices:manage")).toBe(false);
+    expect(hasPermission("viewer", "analytics:view")).toBe(true);
+    expect(hasPermission("viewer", "messages:send")).toBe(false);
+  });
+
+  it("grants nothing without a role", () => {
+    expect(hasPermission(null, "analytics:view")).toBe(false);
+    expect(hasPermission(undefined, "analytics:view")).toBe(false);
+  });
+});
+
+describe("canAccessRoute", () => {
+  it("checks the permission of the page and its subpages", () => {
+    expect(canAccessRoute("admin", "/billing")).toBe(true);
+    expect(canAccessRoute("agent", "/billing")).toBe(false);
+    expect(canAccessRoute("agent", "/billing/invoices")).toBe(false);
+    expect(canAccessRoute("viewer", "/campaigns")).toBe(false);
+  });
+
+  it("lets every member open pages without a permission", () => {
+    expect(canAccessRoute("viewer", "/team")).toBe(true);
+    expect(canAccessRoute("viewer", "/billing-help")).toBe(true);
+  });
+});
+
+describe("getRoleClaim", () => {
+  it("reads a known role from the token", () => {
+    expect(getRoleClaim({ role: "agent" })).toBe("agent");
+  });
+
+  it.each([undefined, "superuser", "constructor", "toString", "__proto__", 1])("ignores the role %s", (role) => {
+    expect(getRoleClaim({ role })).toBeNull();
+  });
+
+  it("ignores missing payloads", () => {
+    expect(getRoleClaim(null)).toBeNull();
+  });
+});
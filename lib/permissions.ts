@@ -0,0 +1,65 @@
+// Role-based permissions shared by the UI and middleware. The API enforces the same rules,
+// these only decide what to show and which routes to let through.
+import type { TeamRole } from "./api/types";
+import type { JWTPayload } from "./jwt";
+
+export type Permission =
+  | "devices:manage"
+  | "devices:delete"
+  | "messages:send"
+  | "campaigns:manage"
+  | "templates:manage"
+  | "analytics:view"
+  | "team:manage"
+  | "organization:manage"
+  | "organization:delete"
+  | "billing:view"
+  | "billing:manage";
+
+const VIEWER_PERMISSIONS: Permission[] = ["analytics:view"];
+const AGENT_PERMISSIONS: Permission[] = [...VIEWER_PERMISSIONS, "messages:send", "campaigns:manage"];
+const ADMIN_PERMISSIONS: Permission[] = [
+  ...AGENT_PERMISSIONS,
+  "devices:manage",
+  "devices:delete",
+  "templates:manage",
+  "team:manage",
+  "organization:manage",
+  "billing:view",
+];
+
+export const ROLE_PERMISSIONS: Record<TeamRole, Permission[]> = {
+  owner: [...ADMIN_PERMISSIONS, "billing:manage", "organization:delete"],
+  admin: ADMIN_PERMISSIONS,
+  agent: AGENT_PERMISSIONS,
+  viewer: VIEWER_PERMISSIONS,
+};
+
+// Pages a role needs a permission to open, matched by path prefix. /team and /settings stay open to every
+// member for the member list and their own profile, team:manage and organization:manage gate the actions there
+export const ROUTE_PERMISSIONS: { path: string; permission: Permission }[] = [
+  { path: "/billing", permission: "billing:view" },
+  { path: "/campaigns", permission: "campaigns:manage" },
+  { path: "/analytics", permission: "analytics:view" },
+];
+
+const isTeamRole = (value: unknown): value is TeamRole =>
+  typeof value === "string" && Object.hasOwn(ROLE_PERMISSIONS, value);
+
+// Unknown roles get no permissions
+export const hasPermission = (role: TeamRole | null | undefined, permission: Permission) =>
+  !!role && ROLE_PERMISSIONS[role].includes(permission);
+
+export const getRoutePermission = (pathname: string): Permission | undefined =>
+  ROUTE_PERMISSIONS.find(({ path }) => pathname === path || pathname.startsWith(`${path}/`))?.permission;
+
+export const canAccessRoute = (role: TeamRole | null | undefined, pathname: string) => {
+  const permission = getRoutePermission(pathname);
+  return !permission || hasPermission(role, permission);
+};
+
+// The access token carries the member's role for the active organization in a `role` claim
+export const getRoleClaim = (payload: JWTPayload | null | undefined): TeamRole | null => {
+  const role = payload?.role;
+  return isTeamRole(role) ? role : null;
+};
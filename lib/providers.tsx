@@ -37,7 +37,7 @@ export function Providers({ children }: ProvidersProps) {
   );
 
   return (
-    <CookiesNextProvider pollingOptions={{ enabled: true, intervalMs: 1000 }}>
+    <CookiesNextProvider>
       <QueryClientProvider client={queryClient}>
         <JotaiProvider>
           <AuthInitializer />
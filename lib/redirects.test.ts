@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_REDIRECT, getSafeRedirect } from "./redirects";
+
+describe("getSafeRedirect", () => {
+  it("keeps allowed app pages with their query string and hash", () => {
+    expect(getSafeRedirect("/dashboard")).toBe("/dashboard");
+    expect(getSafeRedirect("/devices/abc")).toBe("/devices/abc");
+    expect(getSafeRedirect("/messages?deviceId=1&page=2#latest")).toBe("/messages?deviceId=1&page=2#latest");
+  });
+
+  it("falls back to the dashboard without a target", () => {
+    expect(getSafeRedirect(null)).toBe(DEFAULT_REDIRECT);
+    expect(getSafeRedirect(undefined)).toBe(DEFAULT_REDIRECT);
+    expect(getSafeRedirect("")).toBe(DEFAULT_REDIRECT);
+  });
+
+  it.each([
+    "https://evil.example/dashboard",
+    "//evil.example/dashboard",
+    "/\\evil.example/dashboard",
+    "\\\\evil.example",
+    "javascript:alert(1)",
+    "dashboard",
+  ])("rejects %s, which leaves the app", (target) => {
+    expect(getSafeRedirect(target)).toBe(DEFAULT_REDIRECT);
+  });
+
+  it("rejects pages outside the allowlist", () => {
+    expect(getSafeRedirect("/auth/login")).toBe(DEFAULT_REDIRECT);
+    expect(getSafeRedirect("/api/auth/logout")).toBe(DEFAULT_REDIRECT);
+    expect(getSafeRedirect("/")).toBe(DEFAULT_REDIRECT);
+  });
+
+  it("matches whole path segments only", () => {
+    expect(getSafeRedirect("/dashboard-evil")).toBe(DEFAULT_REDIRECT);
+    expect(getSafeRedirect("/settingsx/profile")).toBe(DEFAULT_REDIRECT);
+  });
+
+  it("resolves dot segments before checking the path", () => {
+    expect(getSafeRedirect("/dashboard/../auth/login")).toBe(DEFAULT_REDIRECT);
+    expect(getSafeRedirect("/auth/../billing")).toBe("/billing");
+  });
+});
@@ -0,0 +1,50 @@
+// Where to send people after signing in, registering or verifying their email. The target comes from
+// the `redirect` query parameter, so only paths inside the app are followed to rule out open redirects
+export const REDIRECT_PARAM = "redirect";
+export const DEFAULT_REDIRECT = "/dashboard";
+
+// Pages a redirect may lead to, matched by path prefix
+const REDIRECT_ALLOWED_PATHS = [
+  "/dashboard",
+  "/devices",
+  "/messages",
+  "/campaigns",
+  "/analytics",
+  "/billing",
+  "/team",
+  "/settings",
+];
+
+// Only resolves relative targets, anything that would leave this origin changes it
+const PLACEHOLDER_ORIGIN = "http://localhost";
+
+// The target path with its query string and hash if it is an allowed app page, the dashboard otherwise
+export const getSafeRedirect = (target: string | null | undefined): string => {
+  // `//host` and `/\host` are protocol-relative URLs in browsers
+  if (!target || !target.startsWith("/") || target.startsWith("//") || target.includes("\\")) {
+    return DEFAULT_REDIRECT;
+  }
+
+  try {
+    const url = new URL(target, PLACEHOLDER_ORIGIN);
+    if (url.origin !== PLACEHOLDER_ORIGIN) return DEFAULT_REDIRECT;
+
+    const isAllowed = REDIRECT_ALLOWED_PATHS.some(
+      (path) => url.pathname === path || url.pathname.startsWith(`${path}/`),
+    );
+    return isAllowed ? `${url.pathname}${url.search}${url.hash}` : DEFAULT_REDIRECT;
+  } catch {
+    return DEFAULT_REDIRECT;
+  }
+};
+
+// Carries a redirect target along links between the auth pages, dropping it when it isn't safe
+export const withRedirect = (href: string, target: string | null | undefined): string => {
+  const redirectTo = getSafeRedirect(target);
+  if (redirectTo === DEFAULT_REDIRECT) return href;
+
+  const [path, query] = href.split("?");
+  const params = new URLSearchParams(query);
+  params.set(REDIRECT_PARAM, redirectTo);
+  return `${path}?${params.toString()}`;
+};
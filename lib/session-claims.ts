@@ -0,0 +1,37 @@
+// Verified access token claims the middleware forwards to pages as request headers. The middleware drops these
+// headers from every incoming page request first, but it doesn't run for /api, so route handlers must not trust them
+import type { TeamRole } from "./api/types";
+import type { JWTPayload } from "./jwt";
+import { getRoleClaim } from "./permissions";
+
+const SESSION_CLAIM_HEADERS = {
+  userId: "x-session-user-id",
+  organizationId: "x-session-organization-id",
+  role: "x-session-role",
+} as const;
+
+export interface SessionClaims {
+  userId: string;
+  organizationId: string | null;
+  role: TeamRole | null;
+}
+
+// The API puts the user in `sub` and the organization the session is signed into in `organizationId`
+export const getSessionClaims = (payload: JWTPayload): SessionClaims | null => {
+  if (typeof payload.sub !== "string") return null;
+
+  return {
+    userId: payload.sub,
+    organizationId: typeof payload.organizationId === "string" ? payload.organizationId : null,
+    role: getRoleClaim(payload),
+  };
+};
+
+export const setSessionClaimHeaders = (headers: Headers, claims: SessionClaims | null) => {
+  Object.values(SESSION_CLAIM_HEADERS).forEach((name) => headers.delete(name));
+  if (!claims) return;
+
+  headers.set(SESSION_CLAIM_HEADERS.userId, claims.userId);
+  if (claims.organizationId) headers.set(SESSION_CLAIM_HEADERS.organizationId, claims.organizationId);
+  if (claims.role) headers.set(SESSION_CLAIM_HEADERS.role, claims.role);
+};
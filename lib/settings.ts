@@ -0,0 +1,27 @@
+// Options for the organization's regional settings
+
+export const DEFAULT_TIMEZONE = "UTC";
+export const DEFAULT_LOCALE = "en-US";
+
+export const LOCALES = [
+  { value: "en-US", label: "English (United States)" },
+  { value: "en-GB", label: "English (United Kingdom)" },
+  { value: "es-ES", label: "Español (España)" },
+  { value: "es-MX", label: "Español (México)" },
+  { value: "pt-BR", label: "Português (Brasil)" },
+  { value: "fr-FR", label: "Français" },
+  { value: "de-DE", label: "Deutsch" },
+  { value: "it-IT", label: "Italiano" },
+  { value: "id-ID", label: "Bahasa Indonesia" },
+  { value: "hi-IN", label: "हिन्दी" },
+];
+
+// Older browsers can't list their time zones, fall back to UTC plus whatever is configured
+export const getTimeZones = (current?: string): string[] => {
+  const zones = typeof Intl.supportedValuesOf === "function" ? Intl.supportedValuesOf("timeZone") : [];
+  const all = new Set([DEFAULT_TIMEZONE, ...zones]);
+  if (current) all.add(current);
+  return [...all];
+};
+
+export const getBrowserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIMEZONE;
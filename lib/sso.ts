@@ -0,0 +1,40 @@
+// Single sign-on through an organization's OIDC or SAML identity provider. The browser is redirected through
+// the BFF routes under app/api/auth/sso, which keep the flow's state in a cookie while the API talks to the provider
+import { DEFAULT_REDIRECT, getSafeRedirect, REDIRECT_PARAM } from "./redirects";
+
+export const SSO_START_PATH = "/api/auth/sso/start";
+export const SSO_CALLBACK_PATH = "/api/auth/sso/callback";
+// Loads the account into the app once the BFF has set the session cookies
+export const SSO_COMPLETE_PATH = "/auth/sso/complete";
+// Set on the login page when the sign-in failed
+export const SSO_ERROR_PARAM = "sso_error";
+
+export type SsoError = "invalid_request" | "invalid_state" | "access_denied" | "failed" | "unavailable";
+
+const SSO_ERROR_MESSAGES: Record<SsoError, string> = {
+  invalid_request: "Single sign-on isn't set up for this email address.",
+  invalid_state: "The sign-in took too long or was started in another browser. Please try again.",
+  access_denied: "Your identity provider didn't let you sign in.",
+  failed: "We couldn't sign you in with your identity provider. Please try again.",
+  unavailable: "The service is unavailable, please try again shortly.",
+};
+
+export const getSsoErrorMessage = (error: string | null): string =>
+  error && Object.hasOwn(SSO_ERROR_MESSAGES, error) ? SSO_ERROR_MESSAGES[error as SsoError] : SSO_ERROR_MESSAGES.failed;
+
+// The lowercased domain if the value looks like an email address
+export const getEmailDomain = (email: string | null | undefined): string | null => {
+  const match = /^[^\s@]+@([^\s@]+\.[^\s@]+)$/.exec(email?.trim() ?? "");
+  return match ? match[1].toLowerCase() : null;
+};
+
+// A full page navigation, the identity provider's login page isn't part of the app
+export const getSsoStartUrl = (email: string, redirectTo: string | null | undefined): string => {
+  const params = new URLSearchParams({ email });
+  const target = getSafeRedirect(redirectTo);
+  if (target !== DEFAULT_REDIRECT) params.set(REDIRECT_PARAM, target);
+  return `${SSO_START_PATH}?${params.toString()}`;
+};
+
+// Registered with the identity provider as the OIDC redirect URI or the SAML assertion consumer service URL
+export const getSsoCallbackUrl = (origin: string): string => `${origin}${SSO_CALLBACK_PATH}`;
@@ -1,11 +1,14 @@
 // Authentication store using Zustand
 import { create } from "zustand";
 import type { User, Organization } from "../api/types";
-import { getAuthToken, removeAuthTokens, isTokenExpiredOrExpiringSoon, isRefreshTokenValid } from "../cookies";
+import { getOrganizationId, hasValidSession } from "../cookies";
 
 interface AuthState {
   user: User | null;
   organization: Organization | null;
+  // The organization the session is signed into. Known from the cookie before the organization itself
+  // is loaded, so query keys are scoped from the first request and don't change once it arrives
+  organizationId: string | null;
   isAuthenticated: boolean;
   isLoading: boolean;
   error: string | null;
@@ -13,7 +16,9 @@ interface AuthState {
 
 interface AuthActions {
   setAuth: (user: User, organization: Organization) => void;
+  updateUser: (user: User) => void;
   clearAuth: () => void;
+  setOrganizationId: (organizationId: string | null) => void;
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
   checkAuth: () => boolean;
@@ -23,6 +28,7 @@ export const useAuthStore = create<AuthState & AuthActions>()((set, get) => ({
   // State
   user: null,
   organization: null,
+  organizationId: getOrganizationId(),
   isAuthenticated: false,
   isLoading: false,
   error: null,
@@ -32,14 +38,19 @@ export const useAuthStore = create<AuthState & AuthActions>()((set, get) => ({
     set({
       user,
       organization,
+      organizationId: organization.id,
       isAuthenticated: true,
       error: null,
     });
   },
 
+  updateUser: (user) => {
+    set({ user });
+  },
+
+  // The session cookies are httpOnly, the BFF drops them on logout or when the session can't be refreshed.
+  // The organization ID stays, it's the one the next sign-in returns to
   clearAuth: () => {
-    console.log("clearAuth - Removing auth tokens");
-    removeAuthTokens();
     set({
       user: null,
       organization: null,
@@ -48,6 +59,10 @@ export const useAuthStore = create<AuthState & AuthActions>()((set, get) => ({
     });
   },
 
+  setOrganizationId: (organizationId) => {
+    set({ organizationId });
+  },
+
   setLoading: (loading) => {
     set({ isLoading: loading });
   },
@@ -57,31 +72,16 @@ export const useAuthStore = create<AuthState & AuthActions>()((set, get) => ({
   },
 
   checkAuth: () => {
-    const token = getAuthToken();
-    const hasValidRefreshToken = isRefreshTokenValid();
-
-    console.log("checkAuth - token:", token);
-    console.log("checkAuth - hasValidRefreshToken:", hasValidRefreshToken);
-    console.log("checkAuth - current auth state:", get().isAuthenticated);
-
-    // If we don't have a valid refresh token, we can't maintain the session
-    if (!hasValidRefreshToken) {
-      console.log("checkAuth - No valid refresh token, clearing auth");
+    // If the session can't be refreshed anymore, we can't maintain it.
+    // An expired access token is fine, the BFF refreshes it on the next request
+    if (!hasValidSession()) {
+      console.log("checkAuth - No valid session, clearing auth");
       if (get().isAuthenticated) {
         get().clearAuth();
       }
       return false;
     }
 
-    // If we have a refresh token but no access token, we're still "authenticated"
-    // The API client will handle refreshing the access token automatically
-    const isAuthenticated = !!token || hasValidRefreshToken;
-
-    if (!isAuthenticated && get().isAuthenticated) {
-      console.log("checkAuth - Clearing auth because no valid tokens found");
-      get().clearAuth();
-    }
-
-    return isAuthenticated;
+    return true;
   },
 }));
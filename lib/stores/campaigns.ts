@@ -0,0 +1,283 @@
+// Bulk campaign state and sender using Zustand
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { apiClient, ApiError } from "../api/client";
+import { ErrorCode } from "../api/types";
+import { renderTemplate } from "../templates";
+import { useAuthStore } from "./auth";
+
+export type CampaignStatus = "running" | "paused" | "completed";
+export type CampaignRecipientStatus = "pending" | "sent" | "failed";
+
+export interface CampaignRecipient {
+  id: string;
+  phone: string;
+  variables: Record<string, string>;
+  status: CampaignRecipientStatus;
+  deviceId?: string;
+  messageId?: string;
+  error?: string;
+  sentAt?: string;
+}
+
+export interface Campaign {
+  id: string;
+  // Campaigns are kept per organization, their devices and templates belong to it
+  organizationId: string | null;
+  name: string;
+  templateId: string;
+  templateName: string;
+  content: string;
+  deviceIds: string[];
+  ratePerMinute: number;
+  status: CampaignStatus;
+  recipients: CampaignRecipient[];
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NewCampaign = Omit<
+  Campaign,
+  "id" | "organizationId" | "status" | "recipients" | "createdAt" | "updatedAt"
+> & {
+  recipients: Array<Pick<CampaignRecipient, "phone" | "variables">>;
+};
+
+interface CampaignsState {
+  campaigns: Campaign[];
+}
+
+interface CampaignsActions {
+  createCampaign: (campaign: NewCampaign) => string;
+  startCampaign: (id: string) => Promise<void>;
+  pauseCampaign: (id: string) => void;
+  retryFailed: (id: string) => void;
+  deleteCampaign: (id: string) => void;
+  clearCampaigns: () => void;
+}
+
+// Recipients are sent in batches, progress is persisted after every message so a reload can resume
+const BATCH_SIZE = 25;
+const RATE_LIMIT_BACKOFF_MS = 60 * 1000;
+
+// Errors that will fail every remaining recipient too, so we pause instead of burning through the list
+const FATAL_ERROR_CODES: string[] = [
+  ErrorCode.SUBSCRIPTION_REQUIRED,
+  ErrorCode.SUBSCRIPTION_LIMIT_EXCEEDED,
+  ErrorCode.INSUFFICIENT_PERMISSIONS,
+  ErrorCode.TOKEN_EXPIRED,
+  ErrorCode.UNAUTHORIZED,
+];
+
+// Campaign ids with a live send loop in this tab
+const activeRunners = new Set<string>();
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Only one tab sends a campaign, its loop holds this Web Lock until it ends or the tab closes
+const getCampaignLockName = (id: string) => `campaign:${id}`;
+
+// Campaigns left running by a closed tab or a reload have no send loop anymore, they come back paused
+const pauseOrphanedCampaigns = async () => {
+  const { held = [] } = navigator.locks ? await navigator.locks.query() : {};
+  const lockNames = new Set(held.map((lock) => lock.name));
+  const isOrphaned = (c: Campaign) =>
+    c.status === "running" && !activeRunners.has(c.id) && !lockNames.has(getCampaignLockName(c.id));
+
+  const { campaigns } = useCampaignStore.getState();
+  if (!campaigns.some(isOrphaned)) return;
+  useCampaignStore.setState({ campaigns: campaigns.map((c) => (isOrphaned(c) ? { ...c, status: "paused" } : c)) });
+};
+
+export const useCampaignStore = create<CampaignsState & CampaignsActions>()(
+  persist(
+    (set, get) => {
+      const getCampaign = (id: string) => get().campaigns.find((c) => c.id === id);
+
+      const updateCampaign = (id: string, update: Partial<Campaign>) => {
+        set((state) => ({
+          campaigns: state.campaigns.map((c) =>
+            c.id === id ? { ...c, ...update, updatedAt: new Date().toISOString() } : c,
+          ),
+        }));
+      };
+
+      const updateRecipient = (id: string, recipientId: string, update: Partial<CampaignRecipient>) => {
+        set((state) => ({
+          campaigns: state.campaigns.map((c) =>
+            c.id === id
+              ? {
+                  ...c,
+                  recipients: c.recipients.map((r) => (r.id === recipientId ? { ...r, ...update } : r)),
+                  updatedAt: new Date().toISOString(),
+                }
+              : c,
+          ),
+        }));
+      };
+
+      // Sends the pending recipients until the campaign completes, is paused or hits an error every send would hit
+      const sendPendingRecipients = async (id: string) => {
+        let deviceIndex = 0;
+
+        while (getCampaign(id)?.status === "running") {
+          const batch = getCampaign(id)!
+            .recipients.filter((r) => r.status === "pending")
+            .slice(0, BATCH_SIZE);
+
+          if (batch.length === 0) {
+            updateCampaign(id, { status: "completed" });
+            break;
+          }
+
+          for (const recipient of batch) {
+            const campaign = getCampaign(id);
+            if (campaign?.status !== "running") return;
+
+            // After switching organization the session can't send from this campaign's devices anymore
+            if (campaign.organizationId !== useAuthStore.getState().organizationId) {
+              updateCampaign(id, { status: "paused" });
+              return;
+            }
+
+            // Round-robin across the selected devices
+            const deviceId = campaign.deviceIds[deviceIndex % campaign.deviceIds.length];
+            deviceIndex++;
+
+            try {
+              const response = await apiClient.sendMessageWithBilling({
+                deviceId,
+                to: recipient.phone,
+                message: renderTemplate(campaign.content, recipient.variables),
+                type: "text",
+              });
+
+              updateRecipient(id, recipient.id, {
+                status: "sent",
+                deviceId,
+                messageId: response.data?.messageId,
+                error: undefined,
+                sentAt: new Date().toISOString(),
+              });
+            } catch (error) {
+              const code = error instanceof ApiError ? error.code : undefined;
+              const message = error instanceof Error ? error.message : "Failed to send message";
+
+              if (code && FATAL_ERROR_CODES.includes(code)) {
+                updateCampaign(id, { status: "paused", lastError: message });
+                return;
+              }
+
+              if (code === ErrorCode.RATE_LIMIT_EXCEEDED) {
+                // Leave the recipient pending, it is picked up again in the next batch
+                await delay(RATE_LIMIT_BACKOFF_MS);
+                continue;
+              }
+
+              updateRecipient(id, recipient.id, { status: "failed", deviceId, error: message });
+            }
+
+            await delay(60000 / campaign.ratePerMinute);
+          }
+        }
+      };
+
+      return {
+        // State
+        campaigns: [],
+
+        // Actions
+        createCampaign: (campaign) => {
+          const id = crypto.randomUUID();
+          const now = new Date().toISOString();
+
+          set((state) => ({
+            campaigns: [
+              {
+                ...campaign,
+                id,
+                organizationId: useAuthStore.getState().organizationId,
+                status: "paused",
+                recipients: campaign.recipients.map((recipient, index) => ({
+                  ...recipient,
+                  id: `${id}-${index}`,
+                  status: "pending",
+                })),
+                createdAt: now,
+                updatedAt: now,
+              },
+              ...state.campaigns,
+            ],
+          }));
+
+          return id;
+        },
+
+        startCampaign: async (id) => {
+          if (getCampaign(id)?.organizationId !== useAuthStore.getState().organizationId) return;
+
+          // Resuming while a paused loop still waits out its delay keeps that loop going instead of starting another
+          updateCampaign(id, { status: "running", lastError: undefined });
+          if (activeRunners.has(id)) return;
+          activeRunners.add(id);
+
+          try {
+            // A loop in another tab holds the lock and keeps going, it picks the running status up from storage
+            if (navigator.locks) {
+              await navigator.locks.request(getCampaignLockName(id), { ifAvailable: true }, async (lock) => {
+                if (lock) await sendPendingRecipients(id);
+              });
+            } else {
+              // Web Locks need a secure context
+              await sendPendingRecipients(id);
+            }
+          } finally {
+            activeRunners.delete(id);
+          }
+        },
+
+        pauseCampaign: (id) => {
+          updateCampaign(id, { status: "paused" });
+        },
+
+        retryFailed: (id) => {
+          const campaign = getCampaign(id);
+          if (!campaign) return;
+
+          updateCampaign(id, {
+            status: campaign.status === "completed" ? "paused" : campaign.status,
+            recipients: campaign.recipients.map((r) =>
+              r.status === "failed" ? { ...r, status: "pending", error: undefined } : r,
+            ),
+          });
+        },
+
+        deleteCampaign: (id) => {
+          set((state) => ({ campaigns: state.campaigns.filter((c) => c.id !== id) }));
+        },
+
+        // Running send loops find their campaign gone and stop
+        clearCampaigns: () => {
+          set({ campaigns: [] });
+        },
+      };
+    },
+    {
+      name: "campaigns",
+      skipHydration: true, // Hydrated once by the campaigns page to avoid SSR mismatches
+      onRehydrateStorage: () => () => {
+        void pauseOrphanedCampaigns();
+      },
+    },
+  ),
+);
+
+// Other tabs send and pause campaigns too, follow their progress once this tab has loaded the campaigns
+if (typeof window !== "undefined") {
+  window.addEventListener("storage", (event) => {
+    if (event.key === useCampaignStore.persist.getOptions().name && useCampaignStore.persist.hasHydrated()) {
+      void useCampaignStore.persist.rehydrate();
+    }
+  });
+}
@@ -0,0 +1,29 @@
+// Stripe.js loader shared by the billing flows
+import { loadStripe, type Stripe } from "@stripe/stripe-js";
+
+export const STRIPE_PUBLISHABLE_KEY = process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY || "";
+
+// Optional override so local environments can serve a Stripe.js stand-in instead of js.stripe.com
+const STRIPE_JS_URL = process.env.NEXT_PUBLIC_STRIPE_JS_URL;
+
+let stripePromise: Promise<Stripe | null> | null = null;
+
+const loadStandInScript = (src: string): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const script = document.createElement("script");
+    script.src = src;
+    script.async = true;
+    script.onload = () => resolve();
+    script.onerror = () => reject(new Error(`Failed to load Stripe.js from ${src}`));
+    document.head.appendChild(script);
+  });
+
+export const getStripe = (): Promise<Stripe | null> => {
+  if (!stripePromise) {
+    // loadStripe reuses window.Stripe when it is already defined, which is how the stand-in takes over
+    stripePromise = STRIPE_JS_URL
+      ? loadStandInScript(STRIPE_JS_URL).then(() => loadStripe(STRIPE_PUBLISHABLE_KEY))
+      : loadStripe(STRIPE_PUBLISHABLE_KEY);
+  }
+  return stripePromise;
+};
@@ -0,0 +1,30 @@
+// Team roles and who may change whose membership
+import type { TeamMember, TeamRole } from "./api/types";
+
+export const TEAM_ROLES: Record<TeamRole, { label: string; description: string }> = {
+  owner: { label: "Owner", description: "Full access, including billing and deleting the organization" },
+  admin: { label: "Admin", description: "Manage devices, templates and team members" },
+  agent: { label: "Agent", description: "Send messages and run campaigns" },
+  viewer: { label: "Viewer", description: "Read-only access to messages and analytics" },
+};
+
+export const getMemberName = (member: Pick<TeamMember, "firstName" | "lastName" | "email">) =>
+  `${member.firstName} ${member.lastName}`.trim() || member.email;
+
+// Owners can grant admin, admins can only hand out the roles below their own
+export const getAssignableRoles = (actorRole?: TeamRole): Exclude<TeamRole, "owner">[] => {
+  switch (actorRole) {
+    case "owner":
+      return ["admin", "agent", "viewer"];
+    case "admin":
+      return ["agent", "viewer"];
+    default:
+      return [];
+  }
+};
+
+// Nobody changes their own membership or the owner's, and admins can't manage other admins
+export const canManageMember = (actor: TeamMember | undefined, target: TeamMember) => {
+  if (!actor || actor.id === target.id || target.role === "owner") return false;
+  return getAssignableRoles(actor.role).includes(target.role as Exclude<TeamRole, "owner">);
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import {
+  extractVariables,
+  getMissingVariables,
+  getTemplateVariables,
+  parseTemplateImport,
+  renderTemplate,
+  serializeTemplates,
+} from "./templates";
+import type { MessageTemplate } from "./api/types";
+
+describe("extractVariables", () => {
+  it("lists each placeholder once in order of appearance", () => {
+    expect(extractVariables("Hi {{name}}, your {{ order.id }} ships {{date}}. Thanks {{name}}")).toEqual([
+      "name",
+      "order.id",
+      "date",
+    ]);
+  });
+
+  it("ignores text that isn't a placeholder", () => {
+    expect(extractVariables("{name} {{}} {{first name}}")).toEqual([]);
+  });
+});
+
+describe("getTemplateVariables", () => {
+  it("adds placeholders missing from the stored list", () => {
+    expect(getTemplateVariables({ content: "Hi {{name}} {{code}}", variables: ["name"] })).toEqual(["name", "code"]);
+  });
+});
+
+describe("renderTemplate", () => {
+  it("fills known placeholders and keeps unknown ones", () => {
+    expect(renderTemplate("Hi {{ name }}, {{code}}", { name: "Ada" })).toBe("Hi Ada, {{code}}");
+  });
+});
+
+describe("getMissingVariables", () => {
+  it("reports placeholders without a non-blank value", () => {
+    expect(getMissingVariables("{{a}} {{b}} {{c}}", { a: "1", b: "  " })).toEqual(["b", "c"]);
+  });
+});
+
+describe("parseTemplateImport", () => {
+  it("reads its own export", () => {
+    const template = {
+      id: "t1",
+      name: "Welcome",
+      content: "Hi {{name}}",
+      variables: ["name"],
+      category: "onboarding",
+    } as MessageTemplate;
+
+    expect(parseTemplateImport(serializeTemplates([template]))).toEqual([
+      { name: "Welcome", content: "Hi {{name}}", variables: ["name"], category: "onboarding" },
+    ]);
+  });
+
+  it("accepts a bare array and derives the variables from the content", () => {
+    expect(parseTemplateImport(JSON.stringify([{ name: " Reminder ", content: "See you {{date}}" }]))).toEqual([
+      { name: "Reminder", content: "See you {{date}}", variables: ["date"], category: undefined },
+    ]);
+  });
+
+  it("explains what's wrong with a file it can't import", () => {
+    expect(() => parseTemplateImport("{")).toThrow("The file is not valid JSON");
+    expect(() => parseTemplateImport(JSON.stringify([{ name: "", content: "Hi" }]))).toThrow(/^Invalid template file:/);
+  });
+});
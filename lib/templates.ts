@@ -0,0 +1,70 @@
+// Message template engine for {{variable}} placeholders
+import { z } from "zod";
+import type { CreateMessageTemplateRequest, MessageTemplate } from "./api/types";
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+// Unique placeholder names in order of first appearance
+export const extractVariables = (content: string): string[] =>
+  Array.from(new Set(Array.from(content.matchAll(PLACEHOLDER_PATTERN), (match) => match[1])));
+
+// Templates created before variables were captured have an empty list, so fall back to the content
+export const getTemplateVariables = (template: Pick<MessageTemplate, "content" | "variables">): string[] =>
+  Array.from(new Set([...(template.variables || []), ...extractVariables(template.content)]));
+
+// Variables used in the content that have no non-blank value
+export const getMissingVariables = (content: string, values: Record<string, string>): string[] =>
+  extractVariables(content).filter((name) => !values[name]?.trim());
+
+// Replaces placeholders with their values, unknown placeholders are left as-is
+export const renderTemplate = (content: string, values: Record<string, string>): string =>
+  content.replace(PLACEHOLDER_PATTERN, (match, name: string) => values[name] ?? match);
+
+// Import/export format, organization specific fields are dropped so files can move between organizations
+const TEMPLATE_EXPORT_VERSION = 1;
+
+const templateImportSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  content: z.string().min(1).max(4096),
+  variables: z.array(z.string()).optional(),
+  category: z.string().trim().optional(),
+});
+
+// Accepts our own export file or a bare array of templates
+const templateFileSchema = z.union([
+  z.object({ templates: z.array(templateImportSchema) }),
+  z.array(templateImportSchema).transform((templates) => ({ templates })),
+]);
+
+export const serializeTemplates = (templates: MessageTemplate[]): string =>
+  JSON.stringify(
+    {
+      version: TEMPLATE_EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      templates: templates.map(({ name, content, variables, category }) => ({ name, content, variables, category })),
+    },
+    null,
+    2,
+  );
+
+export const parseTemplateImport = (text: string): CreateMessageTemplateRequest[] => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+
+  const result = templateFileSchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid template file: ${issue.path.join(".") || "root"} ${issue.message.toLowerCase()}`);
+  }
+
+  return result.data.templates.map((template) => ({
+    name: template.name,
+    content: template.content,
+    variables: getTemplateVariables({ content: template.content, variables: template.variables || [] }),
+    category: template.category || undefined,
+  }));
+};
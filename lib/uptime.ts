@@ -0,0 +1,96 @@
+// Device availability computed from status change history
+import type { DeviceStatus, DeviceStatusEvent, WhatsAppDevice } from "./api/types";
+
+export type UptimeWindow = "24h" | "7d" | "30d";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const UPTIME_WINDOWS: Record<UptimeWindow, { label: string; durationMs: number; bucketMs: number }> = {
+  "24h": { label: "Last 24 hours", durationMs: 24 * HOUR_MS, bucketMs: HOUR_MS },
+  "7d": { label: "Last 7 days", durationMs: 7 * 24 * HOUR_MS, bucketMs: 6 * HOUR_MS },
+  "30d": { label: "Last 30 days", durationMs: 30 * 24 * HOUR_MS, bucketMs: 24 * HOUR_MS },
+};
+
+// Transitions fetched per device, enough to cover the longest window unless a device is very unstable
+export const UPTIME_HISTORY_LIMIT = 500;
+
+// A stretch of time spent in one status, null when the status isn't known
+export interface StatusSpan {
+  status: DeviceStatus | null;
+  start: number;
+  end: number;
+}
+
+export interface UptimeTotals {
+  onlineMs: number;
+  trackedMs: number;
+}
+
+export interface AvailabilityBucket {
+  start: number;
+  end: number;
+  uptime: number | null;
+}
+
+/**
+ * Turn a device's status events into consecutive spans from when it was added until now.
+ * When the history is complete the device sat unpaired (offline) until its first event,
+ * otherwise the time before the oldest fetched event is unknown and left out of uptime.
+ */
+export const getStatusSpans = (
+  device: Pick<WhatsAppDevice, "status" | "createdAt">,
+  events: DeviceStatusEvent[],
+  isComplete: boolean,
+  now = Date.now(),
+): StatusSpan[] => {
+  const createdAt = new Date(device.createdAt).getTime();
+  const transitions = events
+    .map((event) => ({ status: event.status, time: new Date(event.createdAt).getTime() }))
+    .filter((event) => !Number.isNaN(event.time))
+    .sort((a, b) => a.time - b.time);
+
+  if (transitions.length === 0) return [{ status: device.status, start: createdAt, end: now }];
+
+  const spans: StatusSpan[] = [{ status: isComplete ? "offline" : null, start: createdAt, end: transitions[0].time }];
+  transitions.forEach((event, index) => {
+    spans.push({ status: event.status, start: event.time, end: transitions[index + 1]?.time ?? now });
+  });
+
+  return spans.filter((span) => span.end > span.start);
+};
+
+// Time spent online out of the known time between from and to, "connecting" counts as down
+export const measureUptime = (spans: StatusSpan[], from: number, to: number): UptimeTotals =>
+  spans.reduce(
+    (totals, span) => {
+      const overlap = Math.min(span.end, to) - Math.max(span.start, from);
+      if (overlap <= 0 || span.status === null) return totals;
+      return {
+        onlineMs: totals.onlineMs + (span.status === "online" ? overlap : 0),
+        trackedMs: totals.trackedMs + overlap,
+      };
+    },
+    { onlineMs: 0, trackedMs: 0 },
+  );
+
+export const getUptimePercent = ({ onlineMs, trackedMs }: UptimeTotals) =>
+  trackedMs > 0 ? (onlineMs / trackedMs) * 100 : null;
+
+// Uptime for each slice of the window, oldest first, for timelines
+export const getAvailabilityBuckets = (
+  spans: StatusSpan[],
+  window: UptimeWindow,
+  now = Date.now(),
+): AvailabilityBucket[] => {
+  const { durationMs, bucketMs } = UPTIME_WINDOWS[window];
+  const windowStart = now - durationMs;
+
+  return Array.from({ length: Math.ceil(durationMs / bucketMs) }, (_, i) => {
+    const start = windowStart + i * bucketMs;
+    const end = Math.min(start + bucketMs, now);
+    return { start, end, uptime: getUptimePercent(measureUptime(spans, start, end)) };
+  });
+};
+
+export const formatUptime = (uptime: number | null) =>
+  uptime === null ? "No data" : `${Math.round(uptime * 10) / 10}%`;
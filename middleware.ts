@@ -1,12 +1,21 @@
 import { NextRequest, NextResponse } from "next/server";
+import { canAccessRoute } from "./lib/permissions";
+import { verifyJWT } from "./lib/jwt-verify";
+import { getSessionClaims, setSessionClaimHeaders, type SessionClaims } from "./lib/session-claims";
+import { clearSessionCookies, getSessionCookies, SESSION_REFRESH_PATH } from "./lib/bff";
+import { getSafeRedirect, REDIRECT_PARAM } from "./lib/redirects";
 
 // Define public routes that don't require authentication
 const publicRoutes = [
   "/auth/login",
   "/auth/register",
-  // Add any other public routes here (like forgot password, etc.)
+  "/auth/forgot-password",
+  // Add any other public routes here
 ];
 
+// Routes opened from emailed links, which work the same with or without a session
+const openRoutes = ["/auth/reset-password", "/auth/verify-email"];
+
 // Define API routes and static assets that should be excluded from middleware
 const excludedPaths = [
   "/api",
@@ -18,7 +27,28 @@ const excludedPaths = [
   // Add other static assets if needed
 ];
 
-export function middleware(request: NextRequest) {
+interface VerifiedSession {
+  claims: SessionClaims | null;
+  // The access token is missing, expired or forged but the refresh cookie may still get a new one
+  canRefresh: boolean;
+  // Neither cookie can sign the user in anymore
+  ended: boolean;
+}
+
+// Verifies the access token cookie. Refreshing is left to the BFF: the middleware runs in its own runtime, and a
+// refresh here would race the route handlers' refreshes with the same rotating refresh token, see refreshSession
+const getVerifiedSession = async (request: NextRequest): Promise<VerifiedSession> => {
+  const { accessToken, refreshToken } = getSessionCookies(request);
+
+  const payload = accessToken ? await verifyJWT(accessToken) : null;
+  if (payload) {
+    return { claims: getSessionClaims(payload), canRefresh: false, ended: false };
+  }
+
+  return { claims: null, canRefresh: !!refreshToken, ended: !!accessToken && !refreshToken };
+};
+
+export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
 
   // Skip middleware for excluded paths (API routes, static files, Next.js internals)
@@ -26,9 +56,23 @@ export function middleware(request: NextRequest) {
     return NextResponse.next();
   }
 
-  // Get the auth token from cookies
-  const authToken = request.cookies.get("auth_token")?.value;
-  const hasValidToken = authToken && authToken.trim() !== "";
+  // Pass the request on with the verified claims as headers, replacing any the browser sent
+  const forwardRequest = (claims: SessionClaims | null) => {
+    const requestHeaders = new Headers(request.headers);
+    setSessionClaimHeaders(requestHeaders, claims);
+    return NextResponse.next({ request: { headers: requestHeaders } });
+  };
+
+  if (openRoutes.some((route) => pathname.startsWith(route))) {
+    return forwardRequest(null);
+  }
+
+  const session = await getVerifiedSession(request);
+
+  const withSessionCookies = (response: NextResponse) => {
+    if (session.ended) clearSessionCookies(response);
+    return response;
+  };
 
   // Check if the current path is a public route
   const isPublicRoute = publicRoutes.some((route) => pathname.startsWith(route));
@@ -37,36 +81,50 @@ export function middleware(request: NextRequest) {
   const isRootPath = pathname === "/";
 
   // Handle unauthenticated users
-  if (!hasValidToken) {
+  if (!session.claims) {
+    // Protected pages and the root path wait for the BFF to refresh the session, it sends the browser back afterwards
+    if (!isPublicRoute && session.canRefresh) {
+      const refreshUrl = new URL(SESSION_REFRESH_PATH, request.url);
+      refreshUrl.searchParams.set(REDIRECT_PARAM, `${pathname}${request.nextUrl.search}`);
+      return NextResponse.redirect(refreshUrl);
+    }
+
     // If trying to access a protected route (not public and not root), redirect to login
     if (!isPublicRoute && !isRootPath) {
       const loginUrl = new URL("/auth/login", request.url);
-      // Add redirect parameter to return to the original page after login
-      loginUrl.searchParams.set("redirect", pathname);
-      return NextResponse.redirect(loginUrl);
+      // Add redirect parameter to return to the original page after login, query string included
+      loginUrl.searchParams.set(REDIRECT_PARAM, `${pathname}${request.nextUrl.search}`);
+      return withSessionCookies(NextResponse.redirect(loginUrl));
     }
 
     // Allow access to public routes and root path
-    return NextResponse.next();
+    return withSessionCookies(forwardRequest(null));
   }
 
   // Handle authenticated users
-  if (hasValidToken) {
-    // If user is authenticated and trying to access auth pages, redirect to dashboard
+  if (session.claims) {
+    // If user is authenticated and trying to access auth pages, send them where the link was going
     if (isPublicRoute) {
-      const dashboardUrl = new URL("/dashboard", request.url);
-      return NextResponse.redirect(dashboardUrl);
+      const redirectUrl = new URL(getSafeRedirect(request.nextUrl.searchParams.get(REDIRECT_PARAM)), request.url);
+      return withSessionCookies(NextResponse.redirect(redirectUrl));
     }
 
     // If user is authenticated and on root path, redirect to dashboard
     if (isRootPath) {
       const dashboardUrl = new URL("/dashboard", request.url);
-      return NextResponse.redirect(dashboardUrl);
+      return withSessionCookies(NextResponse.redirect(dashboardUrl));
+    }
+
+    // If the user's role can't open this page, send them to the dashboard. A token without a role claim can't be
+    // checked here, so it goes through and the API still rejects what the member's role doesn't allow
+    if (session.claims.role && !canAccessRoute(session.claims.role, pathname)) {
+      const dashboardUrl = new URL("/dashboard", request.url);
+      return withSessionCookies(NextResponse.redirect(dashboardUrl));
     }
   }
 
   // Allow the request to proceed for all other cases
-  return NextResponse.next();
+  return withSessionCookies(forwardRequest(session.claims));
 }
 
 // Configure which paths the middleware should run on